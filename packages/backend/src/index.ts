@@ -1,10 +1,12 @@
+// Load environment variables before any module reads its configuration
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import compression from 'compression';
 import rateLimit from 'express-rate-limit';
-import dotenv from 'dotenv';
+import cron from 'node-cron';
 import { PrismaClient } from '@prisma/client';
 
 // Import routes
@@ -13,17 +15,33 @@ import photoRoutes from './routes/photos';
 import albumRoutes from './routes/albums';
 import searchRoutes from './routes/search';
 import faceRoutes from './routes/faces';
+import jobRoutes from './routes/jobs';
+import stackRoutes from './routes/stacks';
+import uploadRoutes from './routes/uploads';
+import trashRoutes from './routes/trash';
+import adminRoutes from './routes/admin';
+import trackRoutes from './routes/tracks';
+import locationProposalRoutes from './routes/locationProposals';
+import dateShiftRoutes from './routes/dateShifts';
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler';
 import { notFound } from './middleware/notFound';
 
-// Load environment variables
-dotenv.config();
+// Import services
+import { StorageService } from './services/storageService';
+import { LocalStorageDriver } from './services/storage/localDriver';
+import { JobQueueService } from './services/jobQueueService';
+import { UploadSessionService } from './services/uploadSessionService';
+import { TrashService } from './services/trashService';
+import { UrlSigner } from './utils/urlSigner';
 
 // Initialize Prisma client
 export const prisma = new PrismaClient();
 
+// Refuse to start with image URLs that could be forged
+UrlSigner.assertConfigured();
+
 // Create Express app
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -33,6 +51,11 @@ const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // Limit each IP to 100 requests per windowMs
   message: 'Too many requests from this IP, please try again later.',
+  // Image requests come in bursts (a grid can load dozens at once) and are cached by the browser
+  // Resumable upload chunks are paced by the client's chunk size rather than by user actions
+  skip: (req) => req.path.startsWith('/uploads/') ||
+    /^\/api\/photos\/[^/]+\/image$/.test(req.path) ||
+    (['PATCH', 'HEAD'].includes(req.method) && /^\/api\/uploads\/[^/]+$/.test(req.path)),
 });
 
 // Middleware
@@ -43,6 +66,7 @@ app.use(morgan('combined'));
 app.use(cors({
   origin: process.env.CORS_ORIGIN || 'http://localhost:5173',
   credentials: true,
+  exposedHeaders: ['Location', 'Upload-Offset', 'Upload-Length'],
 }));
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
@@ -56,12 +80,26 @@ app.get('/health', (req, res) => {
   });
 });
 
+// Serve stored files when using the local storage driver
+const storageDriver = StorageService.getDriver();
+if (storageDriver instanceof LocalStorageDriver) {
+  app.use('/uploads', storageDriver.staticHandler());
+}
+
 // API Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/photos', photoRoutes);
 app.use('/api/albums', albumRoutes);
 app.use('/api/search', searchRoutes);
 app.use('/api/faces', faceRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/stacks', stackRoutes);
+app.use('/api/uploads', uploadRoutes);
+app.use('/api/trash', trashRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/tracks', trackRoutes);
+app.use('/api/location-proposals', locationProposalRoutes);
+app.use('/api/date-shifts', dateShiftRoutes);
 
 // Error handling middleware
 app.use(notFound);
@@ -70,21 +108,57 @@ app.use(errorHandler);
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('Received SIGINT, shutting down gracefully...');
+  await JobQueueService.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('Received SIGTERM, shutting down gracefully...');
+  await JobQueueService.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`🔗 API available at: http://localhost:${PORT}`);
-});
+// Start server once storage is usable; a misconfigured bucket or upload directory is fatal
+async function start(): Promise<void> {
+  try {
+    await StorageService.ensureStorageReady();
+  } catch (error) {
+    console.error('Storage is not ready:', error);
+    process.exit(1);
+  }
+
+  app.listen(PORT, () => {
+    JobQueueService.start();
+
+    // Purge abandoned resumable uploads hourly
+    cron.schedule('0 * * * *', async () => {
+      try {
+        const purged = await UploadSessionService.purgeExpired();
+        if (purged > 0) console.log(`Purged ${purged} expired uploads`);
+      } catch (error) {
+        console.error('Upload purge error:', error);
+      }
+    });
+
+    // Permanently delete photos past the trash retention period nightly
+    cron.schedule('0 3 * * *', async () => {
+      try {
+        const purged = await TrashService.purgeExpired();
+        if (purged > 0) console.log(`Purged ${purged} photos from the trash`);
+      } catch (error) {
+        console.error('Trash purge error:', error);
+      }
+    });
+
+    console.log(`🚀 Server running on port ${PORT}`);
+    console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
+    console.log(`🗄️  Storage driver: ${storageDriver.name}`);
+    console.log(`🔗 API available at: http://localhost:${PORT}`);
+  });
+}
+
+start();
 
 export default app;
\ No newline at end of file
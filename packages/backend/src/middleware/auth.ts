@@ -2,6 +2,7 @@ import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../index';
 import { AuthenticatedRequest } from '../types';
+import { UrlSigner } from '../utils/urlSigner';
 
 export const authenticateToken = async (
   req: AuthenticatedRequest,
@@ -33,6 +34,7 @@ export const authenticateToken = async (
         email: true,
         name: true,
         avatar: true,
+        role: true,
         createdAt: true,
         updatedAt: true
       }
@@ -76,6 +78,7 @@ export const optionalAuth = async (
             email: true,
             name: true,
             avatar: true,
+            role: true,
             createdAt: true,
             updatedAt: true
           }
@@ -88,4 +91,41 @@ export const optionalAuth = async (
     // Optional auth doesn't fail on invalid tokens
     next();
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Only allow admins; must run after authenticateToken
+ */
+export const requireAdmin = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (req.user?.role !== 'admin') {
+    return res.status(403).json({
+      success: false,
+      error: 'Admin access required'
+    });
+  }
+  next();
+};
+
+/**
+ * Accept either a signed URL for the resource (so <img> tags can load it
+ * without an Authorization header) or a regular access token
+ */
+export const authenticateSignedOrToken = (resourceFor: (req: AuthenticatedRequest) => string) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { expires, signature } = req.query;
+
+    if (typeof expires === 'string' && typeof signature === 'string') {
+      if (!UrlSigner.verify(resourceFor(req), parseInt(expires), signature)) {
+        return res.status(403).json({
+          success: false,
+          error: 'Invalid or expired signature'
+        });
+      }
+
+      req.signedUrl = true;
+      return next();
+    }
+
+    return authenticateToken(req, res, next);
+  };
+};
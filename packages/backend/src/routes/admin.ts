@@ -0,0 +1,155 @@
+import express from 'express';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { StorageUsageService } from '../services/storageUsageService';
+import { ReconciliationService } from '../services/reconciliationService';
+import { AIMetricsService } from '../services/aiMetricsService';
+import { prisma } from '../index';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+
+router.use(authenticateToken, requireAdmin);
+
+// Get a user's storage usage and quota
+router.get('/users/:id/usage', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: { id: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await StorageUsageService.getUsage(user.id)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Set a user's storage quota in bytes (null restores the default quota)
+router.patch('/users/:id/quota', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { storageQuota } = req.body;
+
+    if (storageQuota !== null && (!Number.isSafeInteger(storageQuota) || storageQuota < 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'storageQuota must be a non-negative number of bytes or null'
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: { id: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        storageQuota: storageQuota === null ? null : BigInt(storageQuota)
+      }
+    });
+
+    res.json({
+      success: true,
+      data: await StorageUsageService.getUsage(user.id),
+      message: 'Storage quota updated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Start a storage reconciliation run (dry run unless `dryRun: false`)
+router.post('/reconciliation', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const run = await ReconciliationService.start(req.body.dryRun !== false);
+
+    res.status(202).json({
+      success: true,
+      data: run,
+      message: 'Reconciliation started'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List recent reconciliation runs
+router.get('/reconciliation', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const runs = await prisma.reconciliationRun.findMany({
+      select: {
+        id: true,
+        status: true,
+        dryRun: true,
+        error: true,
+        startedAt: true,
+        finishedAt: true
+      },
+      orderBy: {
+        startedAt: 'desc'
+      },
+      take: 20
+    });
+
+    res.json({
+      success: true,
+      data: runs
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a reconciliation run with its report
+router.get('/reconciliation/:id', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const run = await prisma.reconciliationRun.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!run) {
+      return res.status(404).json({
+        success: false,
+        error: 'Reconciliation run not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: run
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get AI reply parse failure, repair and failure rates per caption provider
+router.get('/ai-metrics', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    res.json({
+      success: true,
+      data: AIMetricsService.getMetrics()
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,5 +1,9 @@
 import express from 'express';
 import { authenticateToken } from '../middleware/auth';
+import { AlbumService } from '../services/albumService';
+import { ExportService } from '../services/exportService';
+import { PhotoUrlService } from '../services/photoUrlService';
+import { StorageService } from '../services/storageService';
 import { prisma } from '../index';
 import { AuthenticatedRequest, AlbumCreationParams } from '../types';
 
@@ -63,42 +67,10 @@ router.post('/auto-generate', authenticateToken, async (req: AuthenticatedReques
     }
 
     const { title, criteria } = req.body;
-    
-    // Build filters based on criteria
-    const filters: any = {
-      userId: req.user.id
-    };
-
-    if (criteria.dateRange) {
-      filters.dateTaken = {
-        gte: new Date(criteria.dateRange.start),
-        lte: new Date(criteria.dateRange.end)
-      };
-    }
-
-    if (criteria.location) {
-      filters.OR = [
-        { location: { contains: criteria.location, mode: 'insensitive' } },
-        { country: { contains: criteria.location, mode: 'insensitive' } },
-        { city: { contains: criteria.location, mode: 'insensitive' } }
-      ];
-    }
+    const dateRange = criteria.dateRange ? AlbumService.resolveDateRange(criteria.dateRange) : null;
 
-    if (criteria.tags && criteria.tags.length > 0) {
-      filters.tags = {
-        hasSome: criteria.tags
-      };
-    }
-
-    if (criteria.peopleIds && criteria.peopleIds.length > 0) {
-      filters.faces = {
-        some: {
-          faceGroupId: {
-            in: criteria.peopleIds
-          }
-        }
-      };
-    }
+    // Build filters based on criteria
+    const filters = AlbumService.criteriaWhere(req.user.id, { ...criteria, dateRange });
 
     // Find matching photos
     const photos = await prisma.photo.findMany({
@@ -123,13 +95,10 @@ router.post('/auto-generate', authenticateToken, async (req: AuthenticatedReques
         description: `Auto-generated album with ${photos.length} photos`,
         userId: req.user.id,
         isAutoGenerated: true,
-        dateRange: criteria.dateRange ? {
-          start: new Date(criteria.dateRange.start),
-          end: new Date(criteria.dateRange.end)
-        } : null,
+        dateRange,
         location: criteria.location,
         peopleIds: criteria.peopleIds || [],
-        coverPhoto: photos[0]?.thumbnailUrl
+        coverPhotoId: photos[0]?.id
       }
     });
 
@@ -171,11 +140,14 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next)
       },
       include: {
         albumPhotos: {
+          where: {
+            photo: { deletedAt: null }
+          },
           include: {
             photo: {
               select: {
                 id: true,
-                thumbnailUrl: true,
+                s3Key: true,
                 dateTaken: true
               }
             }
@@ -185,9 +157,19 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next)
           },
           take: 4 // Preview photos
         },
+        coverPhoto: {
+          select: {
+            s3Key: true,
+            deletedAt: true
+          }
+        },
         _count: {
           select: {
-            albumPhotos: true
+            albumPhotos: {
+              where: {
+                photo: { deletedAt: null }
+              }
+            }
           }
         }
       },
@@ -198,7 +180,14 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next)
 
     res.json({
       success: true,
-      data: albums
+      data: albums.map(({ coverPhoto, ...album }) => ({
+        ...album,
+        coverPhotoUrl: coverPhoto && !coverPhoto.deletedAt ? StorageService.getSignedThumbnailUrl(coverPhoto.s3Key) : null,
+        albumPhotos: album.albumPhotos.map(albumPhoto => ({
+          ...albumPhoto,
+          photo: PhotoUrlService.withUrls(albumPhoto.photo)
+        }))
+      }))
     });
   } catch (error) {
     next(error);
@@ -222,6 +211,9 @@ router.get('/:id', authenticateToken, async (req: AuthenticatedRequest, res, nex
       },
       include: {
         albumPhotos: {
+          where: {
+            photo: { deletedAt: null }
+          },
           include: {
             photo: {
               include: {
@@ -241,6 +233,12 @@ router.get('/:id', authenticateToken, async (req: AuthenticatedRequest, res, nex
           orderBy: {
             order: 'asc'
           }
+        },
+        coverPhoto: {
+          select: {
+            s3Key: true,
+            deletedAt: true
+          }
         }
       }
     });
@@ -252,13 +250,82 @@ router.get('/:id', authenticateToken, async (req: AuthenticatedRequest, res, nex
       });
     }
 
+    const { coverPhoto, ...albumData } = album;
+
     res.json({
       success: true,
-      data: album
+      data: {
+        ...albumData,
+        coverPhotoUrl: coverPhoto && !coverPhoto.deletedAt ? StorageService.getSignedThumbnailUrl(coverPhoto.s3Key) : null,
+        albumPhotos: album.albumPhotos.map(albumPhoto => ({
+          ...albumPhoto,
+          photo: PhotoUrlService.withUrls(albumPhoto.photo)
+        }))
+      }
     });
   } catch (error) {
     next(error);
   }
 });
 
+// Download an album as a ZIP, with the library's metadata embedded (?metadata=embed)
+// or location and device metadata stripped (?metadata=strip)
+router.get('/:id/export', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const mode = ExportService.parseMode(req.query.metadata);
+    if (!mode) {
+      return res.status(400).json({
+        success: false,
+        error: 'metadata must be embed or strip'
+      });
+    }
+
+    const album = await prisma.album.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.user.id
+      },
+      include: {
+        albumPhotos: {
+          where: {
+            photo: { deletedAt: null }
+          },
+          include: {
+            photo: { include: ExportService.photoInclude }
+          },
+          orderBy: {
+            order: 'asc'
+          }
+        }
+      }
+    });
+
+    if (!album) {
+      return res.status(404).json({
+        success: false,
+        error: 'Album not found'
+      });
+    }
+
+    res.attachment(`${album.title.replace(/[\\/:*?"<>|]/g, '_')}.zip`);
+    res.type('application/zip');
+    await ExportService.writeArchive(album.albumPhotos.map(albumPhoto => albumPhoto.photo), mode, res);
+  } catch (error) {
+    // Once the ZIP is streaming, the client can only tell from a cut-off download
+    if (res.headersSent) {
+      console.error('Album export error:', req.params.id, error);
+      res.destroy();
+    } else {
+      next(error);
+    }
+  }
+});
+
 export default router;
\ No newline at end of file
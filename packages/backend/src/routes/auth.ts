@@ -4,6 +4,9 @@ import jwt from 'jsonwebtoken';
 import { body, validationResult } from 'express-validator';
 import { prisma } from '../index';
 import { createError } from '../middleware/errorHandler';
+import { authenticateToken } from '../middleware/auth';
+import { StorageUsageService } from '../services/storageUsageService';
+import { AuthenticatedRequest } from '../types';
 
 const router = express.Router();
 
@@ -52,6 +55,7 @@ router.post('/register', [
         id: true,
         email: true,
         name: true,
+        role: true,
         createdAt: true
       }
     });
@@ -136,6 +140,7 @@ router.post('/login', [
       email: user.email,
       name: user.name,
       avatar: user.avatar,
+      role: user.role,
       createdAt: user.createdAt
     };
 
@@ -152,14 +157,31 @@ router.post('/login', [
   }
 });
 
-// Get current user profile
-router.get('/profile', async (req, res, next) => {
+// Get current user profile with storage usage
+router.get('/profile', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
   try {
-    // This would typically use the auth middleware
-    // For now, return a placeholder response
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const usage = await StorageUsageService.getUsage(req.user.id);
+
     res.json({
       success: true,
-      message: 'Profile endpoint - requires authentication middleware'
+      data: {
+        user: {
+          id: req.user.id,
+          email: req.user.email,
+          name: req.user.name,
+          avatar: req.user.avatar,
+          role: req.user.role,
+          createdAt: req.user.createdAt
+        },
+        usage
+      }
     });
   } catch (error) {
     next(error);
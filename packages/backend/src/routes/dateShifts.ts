@@ -0,0 +1,124 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { DateShiftService } from '../services/dateShiftService';
+import { prisma } from '../index';
+import { AuthenticatedRequest, DateShiftRequest } from '../types';
+
+const router = express.Router();
+
+// Preview a capture time shift
+router.post('/preview', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const preview = await DateShiftService.preview(req.user.id, req.body as DateShiftRequest);
+
+    res.json({
+      success: true,
+      data: preview,
+      message: `${preview.photos.length} photos would be shifted by ${preview.offsetSeconds} seconds`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Shift capture times
+router.post('/', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const shift = await DateShiftService.apply(req.user.id, req.body as DateShiftRequest);
+
+    res.status(201).json({
+      success: true,
+      data: shift,
+      message: `${shift.photoCount} photos shifted by ${shift.offsetSeconds} seconds`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get user's date shifts, newest first
+router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const shifts = await prisma.dateShift.findMany({
+      where: { userId: req.user.id },
+      select: {
+        id: true,
+        offsetSeconds: true,
+        photoCount: true,
+        status: true,
+        createdAt: true,
+        undoneAt: true
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    });
+
+    res.json({
+      success: true,
+      data: shifts
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Undo a date shift
+router.post('/:id/undo', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const shift = await prisma.dateShift.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.user.id
+      }
+    });
+
+    if (!shift) {
+      return res.status(404).json({
+        success: false,
+        error: 'Date shift not found'
+      });
+    }
+
+    const result = await DateShiftService.undo(shift);
+
+    res.json({
+      success: true,
+      data: result,
+      message: result.skipped.length > 0
+        ? `${result.restored} photos restored; ${result.skipped.length} changed since and were left as they are`
+        : `${result.restored} photos restored`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
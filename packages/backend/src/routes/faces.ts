@@ -1,5 +1,6 @@
 import express from 'express';
 import { authenticateToken } from '../middleware/auth';
+import { PhotoUrlService } from '../services/photoUrlService';
 import { prisma } from '../index';
 import { AuthenticatedRequest } from '../types';
 
@@ -21,11 +22,14 @@ router.get('/groups', authenticateToken, async (req: AuthenticatedRequest, res,
       },
       include: {
         faces: {
+          where: {
+            photo: { deletedAt: null }
+          },
           include: {
             photo: {
               select: {
                 id: true,
-                thumbnailUrl: true,
+                s3Key: true,
                 dateTaken: true
               }
             }
@@ -34,7 +38,11 @@ router.get('/groups', authenticateToken, async (req: AuthenticatedRequest, res,
         },
         _count: {
           select: {
-            faces: true
+            faces: {
+              where: {
+                photo: { deletedAt: null }
+              }
+            }
           }
         }
       },
@@ -45,7 +53,14 @@ router.get('/groups', authenticateToken, async (req: AuthenticatedRequest, res,
 
     res.json({
       success: true,
-      data: faceGroups
+      data: faceGroups.map(({ thumbnailKey, ...faceGroup }) => ({
+        ...faceGroup,
+        thumbnailUrl: PhotoUrlService.signedKeyUrl(thumbnailKey),
+        faces: faceGroup.faces.map(face => ({
+          ...face,
+          photo: PhotoUrlService.withUrls(face.photo)
+        }))
+      }))
     });
   } catch (error) {
     next(error);
@@ -0,0 +1,104 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { JobQueueService } from '../services/jobQueueService';
+import { PhotoUrlService } from '../services/photoUrlService';
+import { prisma } from '../index';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+
+// Get processing jobs for the user's photos (e.g. ?status=dead for dead-lettered jobs)
+router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const filters: any = {
+      photo: {
+        userId: req.user.id
+      }
+    };
+
+    if (req.query.status) {
+      filters.status = req.query.status as string;
+    }
+
+    const jobs = await prisma.processingJob.findMany({
+      where: filters,
+      include: {
+        photo: {
+          select: {
+            id: true,
+            fileName: true,
+            s3Key: true
+          }
+        }
+      },
+      orderBy: {
+        updatedAt: 'desc'
+      },
+      take: 100
+    });
+
+    res.json({
+      success: true,
+      data: jobs.map(job => ({
+        ...job,
+        photo: PhotoUrlService.withUrls(job.photo)
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Re-queue a failed or dead-lettered job
+router.post('/:id/retry', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const job = await prisma.processingJob.findFirst({
+      where: {
+        id: req.params.id,
+        photo: {
+          userId: req.user.id
+        }
+      }
+    });
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
+    if (job.status === 'running') {
+      return res.status(409).json({
+        success: false,
+        error: 'Job is currently running'
+      });
+    }
+
+    const updatedJob = await JobQueueService.retry(job);
+
+    res.json({
+      success: true,
+      data: updatedJob,
+      message: 'Job queued for retry'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
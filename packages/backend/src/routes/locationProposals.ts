@@ -0,0 +1,180 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { LocationInferenceService } from '../services/locationInferenceService';
+import { PhotoUrlService } from '../services/photoUrlService';
+import { prisma } from '../index';
+import { AuthenticatedRequest, LocationProposalFilter, LocationProposalStatus } from '../types';
+
+const router = express.Router();
+
+const STATUSES: LocationProposalStatus[] = ['pending', 'accepted', 'rejected'];
+
+/**
+ * Parse a bulk accept/reject body: proposal `ids`, or `all: true`, optionally
+ * narrowed by `minConfidence`/`maxConfidence`
+ */
+function parseProposalFilter(body: any): LocationProposalFilter | null {
+  const { ids, all, minConfidence, maxConfidence } = body || {};
+
+  if (ids !== undefined && (!Array.isArray(ids) || ids.length === 0)) return null;
+  if (ids === undefined && all !== true) return null;
+
+  const filter: LocationProposalFilter = { ids };
+  for (const [key, value] of [['minConfidence', minConfidence], ['maxConfidence', maxConfidence]] as const) {
+    if (value === undefined) continue;
+    const confidence = Number(value);
+    if (!Number.isFinite(confidence)) return null;
+    filter[key] = confidence;
+  }
+
+  return filter;
+}
+
+// Run location inference over the user's photos
+router.post('/infer', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const result = await LocationInferenceService.run(req.user.id);
+
+    res.json({
+      success: true,
+      data: result,
+      message: `${result.proposed} locations proposed`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get user's location proposals, most confident first
+router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const status = (req.query.status as LocationProposalStatus) || 'pending';
+
+    if (!STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid status. Allowed: ${STATUSES.join(', ')}`
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const where = {
+      userId: req.user.id,
+      status,
+      photo: { deletedAt: null }
+    };
+
+    const [proposals, total] = await Promise.all([
+      prisma.locationProposal.findMany({
+        where,
+        include: {
+          photo: true
+        },
+        orderBy: [
+          { confidence: 'desc' },
+          { createdAt: 'desc' }
+        ],
+        skip,
+        take: limit
+      }),
+      prisma.locationProposal.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: proposals.map(proposal => ({
+        ...proposal,
+        photo: PhotoUrlService.withUrls(proposal.photo)
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Accept proposals in bulk; their photos are geotagged as inferred
+router.post('/accept', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const filter = parseProposalFilter(req.body);
+
+    if (!filter) {
+      return res.status(400).json({
+        success: false,
+        error: 'ids or all: true is required; minConfidence and maxConfidence must be numbers'
+      });
+    }
+
+    const result = await LocationInferenceService.accept(req.user.id, filter);
+
+    res.json({
+      success: true,
+      data: result,
+      message: `${result.accepted} locations accepted`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Reject proposals in bulk
+router.post('/reject', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const filter = parseProposalFilter(req.body);
+
+    if (!filter) {
+      return res.status(400).json({
+        success: false,
+        error: 'ids or all: true is required; minConfidence and maxConfidence must be numbers'
+      });
+    }
+
+    const rejected = await LocationInferenceService.reject(req.user.id, filter);
+
+    res.json({
+      success: true,
+      data: { rejected },
+      message: `${rejected} locations rejected`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
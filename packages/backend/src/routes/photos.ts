@@ -1,31 +1,114 @@
 import express from 'express';
 import multer from 'multer';
-import { authenticateToken } from '../middleware/auth';
+import { promises as fs } from 'fs';
+import { authenticateSignedOrToken, authenticateToken } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
 import { StorageService } from '../services/storageService';
-import { AIService } from '../services/aiService';
-import { GeocodingService } from '../services/geocodingService';
-import { ExifExtractor } from '../utils/exifExtractor';
+import { JobQueueService } from '../services/jobQueueService';
+import { PhotoProcessingService } from '../services/photoProcessingService';
+import { PhotoUrlService } from '../services/photoUrlService';
+import { PhotoIngestService } from '../services/photoIngestService';
+import { StorageUsageService } from '../services/storageUsageService';
+import { TrashService } from '../services/trashService';
+import { GeotagService } from '../services/geotagService';
+import { MetadataImportService } from '../services/metadataImportService';
+import { ExportService } from '../services/exportService';
+import { TempFiles } from '../utils/tempFiles';
+import { ImageConverter } from '../utils/imageConverter';
+import { CaptureTime } from '../utils/captureTime';
+import { XmpMetadata } from '../utils/xmpMetadata';
 import { prisma } from '../index';
-import { AuthenticatedRequest } from '../types';
+import { AuthenticatedRequest, ImageFit, ImageFormat, LocationEdit, ProcessingStep, SidecarImport } from '../types';
 
 const router = express.Router();
 
-// Configure multer for file uploads
+const MAX_BATCH_FILES = parseInt(process.env.MAX_BATCH_FILES || '100');
+
+// Configure multer for file uploads. Files are streamed to a temp directory
+// and ingested from disk, so memory use doesn't grow with upload size.
+// .xmp sidecars are accepted alongside and applied to the files they name.
 const upload = multer({
-  storage: multer.memoryStorage(),
+  dest: TempFiles.dir,
   limits: {
-    fileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760'), // 10MB default
+    fileSize: parseInt(process.env.MAX_FILE_SIZE || '104857600'), // 100MB default, as for resumable uploads
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = (process.env.ALLOWED_MIME_TYPES || 'image/jpeg,image/png,image/webp').split(',');
-    if (allowedTypes.includes(file.mimetype)) {
+    if (ImageConverter.isAllowedUpload(file.originalname, file.mimetype) || XmpMetadata.isSidecar(file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only images are allowed.'));
+      cb(new Error('Invalid file type. Only images, videos and .xmp sidecars are allowed.'));
     }
   }
 });
 
+/**
+ * Parse the `steps` body field of a re-analyze request (defaults to every step)
+ */
+function parseSteps(value: unknown): ProcessingStep[] | null {
+  if (value === undefined) return PhotoProcessingService.STEPS;
+  if (!Array.isArray(value) || value.length === 0) return null;
+  if (!value.every(step => PhotoProcessingService.isStep(step))) return null;
+  return Array.from(new Set(value as ProcessingStep[]));
+}
+
+/**
+ * Apply uploaded .xmp sidecars, preferring files among `photoIds`. Sidecars that
+ * can't be read are logged and skipped.
+ */
+async function importSidecars(
+  userId: string,
+  files: Express.Multer.File[],
+  photoIds: string[]
+): Promise<SidecarImport[]> {
+  const imports: SidecarImport[] = [];
+
+  for (const file of files) {
+    try {
+      imports.push(await MetadataImportService.applySidecar(
+        userId, file.originalname, await fs.readFile(file.path), photoIds
+      ));
+    } catch (error) {
+      console.error('Sidecar import error:', file.originalname, error);
+    }
+  }
+
+  return imports;
+}
+
+// Requested image sizes are rounded up to one of these to keep the variant cache small
+const VARIANT_SIZES = [160, 320, 480, 640, 800, 1200, 1600, 2048, 2400, 3200, 4096];
+const IMAGE_FITS: ImageFit[] = ['cover', 'contain', 'fill', 'inside', 'outside'];
+const IMAGE_FORMATS: ImageFormat[] = ['avif', 'webp', 'jpeg'];
+
+/**
+ * Build a Prisma range filter from optional min/max query values
+ */
+function numberRange(min: unknown, max: unknown): { gte?: number; lte?: number } | undefined {
+  const range: { gte?: number; lte?: number } = {};
+  if (min !== undefined && !isNaN(parseFloat(min as string))) range.gte = parseFloat(min as string);
+  if (max !== undefined && !isNaN(parseFloat(max as string))) range.lte = parseFloat(max as string);
+  return Object.keys(range).length > 0 ? range : undefined;
+}
+
+/**
+ * Round a requested dimension up to the nearest variant size
+ */
+function snapVariantSize(value: unknown): number | undefined {
+  const size = parseInt(value as string);
+  if (!size || size <= 0) return undefined;
+  return VARIANT_SIZES.find(variantSize => variantSize >= size) || VARIANT_SIZES[VARIANT_SIZES.length - 1];
+}
+
+/**
+ * Pick the output format: explicit ?format=, else the best one the Accept header allows
+ */
+function negotiateFormat(requested: unknown, accept: string = ''): ImageFormat {
+  if (IMAGE_FORMATS.includes(requested as ImageFormat)) return requested as ImageFormat;
+  if (accept.includes('image/avif')) return 'avif';
+  if (accept.includes('image/webp')) return 'webp';
+  return 'jpeg';
+}
+
 // Upload single photo
 router.post('/upload', authenticateToken, upload.single('photo'), async (req: AuthenticatedRequest, res, next) => {
   try {
@@ -43,99 +126,120 @@ router.post('/upload', authenticateToken, upload.single('photo'), async (req: Au
       });
     }
 
-    const imageBuffer = req.file.buffer;
-    const fileName = req.file.originalname;
-
-    // Extract EXIF metadata
-    const metadata = await ExifExtractor.extractMetadata(imageBuffer, fileName);
+    if (XmpMetadata.isSidecar(req.file.originalname)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Upload .xmp sidecars with /upload-batch or /sidecars'
+      });
+    }
 
-    // Upload to S3
-    const uploadResult = await StorageService.uploadImage(
-      imageBuffer,
-      fileName,
-      metadata.mimeType
-    );
+    const { photo, duplicate } = await PhotoIngestService.ingest(req.file.path, req.file.originalname, req.user.id);
 
-    // Create photo record
-    const photo = await prisma.photo.create({
-      data: {
-        fileName: metadata.fileName,
-        originalUrl: uploadResult.url,
-        thumbnailUrl: uploadResult.thumbnailUrl,
-        s3Key: uploadResult.key,
-        mimeType: metadata.mimeType,
-        fileSize: metadata.fileSize,
-        width: metadata.width,
-        height: metadata.height,
-        latitude: metadata.latitude,
-        longitude: metadata.longitude,
-        altitude: metadata.altitude,
-        dateTaken: metadata.dateTaken,
-        userId: req.user.id
-      }
+    res.status(duplicate ? 200 : 201).json({
+      success: true,
+      data: PhotoUrlService.withUrls(photo),
+      duplicate,
+      message: duplicate ? 'Photo already uploaded' : 'Photo uploaded successfully'
     });
+  } catch (error) {
+    next(error);
+  } finally {
+    if (req.file) {
+      TempFiles.remove(req.file.path).catch(error => console.error('Temp file cleanup error:', error));
+    }
+  }
+});
 
-    // Process AI analysis and geocoding in background
-    setImmediate(async () => {
-      try {
-        const updates: any = {};
-
-        // AI analysis
-        const aiAnalysis = await AIService.analyzeImage(uploadResult.url, imageBuffer);
-        updates.aiDescription = aiAnalysis.description;
-        updates.tags = aiAnalysis.tags;
-
-        // Process faces
-        if (aiAnalysis.faces.length > 0) {
-          for (const faceDetection of aiAnalysis.faces) {
-            await prisma.face.create({
-              data: {
-                photoId: photo.id,
-                boundingBox: faceDetection.boundingBox,
-                confidence: faceDetection.confidence
-              }
-            });
-          }
-        }
+// Upload multiple photos
+router.post('/upload-batch', authenticateToken, upload.array('photos', MAX_BATCH_FILES), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'No files uploaded'
+      });
+    }
 
-        // Reverse geocoding
-        if (metadata.latitude && metadata.longitude) {
-          const geoData = await GeocodingService.reverseGeocode(
-            metadata.latitude,
-            metadata.longitude
-          );
-          
-          if (geoData) {
-            updates.location = geoData.location;
-            updates.country = geoData.country;
-            updates.city = geoData.city;
-          }
-        }
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
 
-        // Update photo with AI analysis and location data
-        if (Object.keys(updates).length > 0) {
-          await prisma.photo.update({
-            where: { id: photo.id },
-            data: updates
-          });
-        }
+    // Ingestion is concurrency-limited, so only a few of these files are processed at a time
+    const userId = req.user.id;
+    const sidecars = req.files.filter(file => XmpMetadata.isSidecar(file.originalname));
+    const mediaFiles = req.files.filter(file => !sidecars.includes(file));
+    const overQuota: string[] = [];
+    const uploadPromises = mediaFiles.map(async (file) => {
+      try {
+        return await PhotoIngestService.ingest(file.path, file.originalname, userId);
       } catch (error) {
-        console.error('Background processing error for photo:', photo.id, error);
+        if ((error as AppError).statusCode === 413) {
+          overQuota.push(file.originalname);
+        } else {
+          console.error('Error processing file:', file.originalname, error);
+        }
+        return null;
       }
     });
 
+    let results = await Promise.all(uploadPromises);
+
+    // Sidecars apply only to the matching files of this upload
+    const sidecarImports = await importSidecars(
+      userId,
+      sidecars,
+      results.filter(result => result !== null).map(result => result!.photo.id)
+    );
+    const updatedIds = new Set(sidecarImports.flatMap(sidecarImport => sidecarImport.photoIds));
+    if (updatedIds.size > 0) {
+      const updated = new Map((await prisma.photo.findMany({
+        where: { id: { in: Array.from(updatedIds) } }
+      })).map(photo => [photo.id, photo]));
+      results = results.map(result => result && { ...result, photo: updated.get(result.photo.id) || result.photo });
+    }
+
+    const successfulUploads = results
+      .filter(result => result !== null && !result.duplicate)
+      .map(result => PhotoUrlService.withUrls(result!.photo));
+    const duplicates = results
+      .filter(result => result !== null && result.duplicate)
+      .map(result => PhotoUrlService.withUrls(result!.photo));
+
+    if (overQuota.length > 0 && successfulUploads.length === 0 && duplicates.length === 0) {
+      return res.status(413).json({
+        success: false,
+        error: 'Storage quota exceeded',
+        overQuota
+      });
+    }
+
     res.status(201).json({
       success: true,
-      data: photo,
-      message: 'Photo uploaded successfully'
+      data: successfulUploads,
+      duplicates,
+      overQuota,
+      sidecars: sidecarImports,
+      message: `${successfulUploads.length} photos uploaded successfully` +
+        (duplicates.length > 0 ? `, ${duplicates.length} duplicates skipped` : '') +
+        (overQuota.length > 0 ? `, ${overQuota.length} rejected for exceeding the storage quota` : '') +
+        (sidecars.length > 0 ? `, ${updatedIds.size} photos updated from ${sidecars.length} sidecars` : '')
     });
   } catch (error) {
     next(error);
+  } finally {
+    if (Array.isArray(req.files)) {
+      TempFiles.remove(...req.files.map(file => file.path))
+        .catch(error => console.error('Temp file cleanup error:', error));
+    }
   }
 });
 
-// Upload multiple photos
-router.post('/upload-batch', authenticateToken, upload.array('photos', 20), async (req: AuthenticatedRequest, res, next) => {
+// Import .xmp sidecars for photos already uploaded, matched by file name.
+// Matches among the comma-separated `photoIds` (e.g. the files just uploaded) win.
+router.post('/sidecars', authenticateToken, upload.array('sidecars', MAX_BATCH_FILES), async (req: AuthenticatedRequest, res, next) => {
   try {
     if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
       return res.status(400).json({
@@ -151,100 +255,40 @@ router.post('/upload-batch', authenticateToken, upload.array('photos', 20), asyn
       });
     }
 
-    const uploadPromises = req.files.map(async (file) => {
-      try {
-        const imageBuffer = file.buffer;
-        const fileName = file.originalname;
-
-        // Extract metadata and upload
-        const metadata = await ExifExtractor.extractMetadata(imageBuffer, fileName);
-        const uploadResult = await StorageService.uploadImage(
-          imageBuffer,
-          fileName,
-          metadata.mimeType
-        );
-
-        // Create photo record
-        const photo = await prisma.photo.create({
-          data: {
-            fileName: metadata.fileName,
-            originalUrl: uploadResult.url,
-            thumbnailUrl: uploadResult.thumbnailUrl,
-            s3Key: uploadResult.key,
-            mimeType: metadata.mimeType,
-            fileSize: metadata.fileSize,
-            width: metadata.width,
-            height: metadata.height,
-            latitude: metadata.latitude,
-            longitude: metadata.longitude,
-            altitude: metadata.altitude,
-            dateTaken: metadata.dateTaken,
-            userId: req.user.id
-          }
-        });
-
-        // Background processing
-        setImmediate(async () => {
-          try {
-            const updates: any = {};
-
-            const aiAnalysis = await AIService.analyzeImage(uploadResult.url, imageBuffer);
-            updates.aiDescription = aiAnalysis.description;
-            updates.tags = aiAnalysis.tags;
-
-            if (aiAnalysis.faces.length > 0) {
-              for (const faceDetection of aiAnalysis.faces) {
-                await prisma.face.create({
-                  data: {
-                    photoId: photo.id,
-                    boundingBox: faceDetection.boundingBox,
-                    confidence: faceDetection.confidence
-                  }
-                });
-              }
-            }
-
-            if (metadata.latitude && metadata.longitude) {
-              const geoData = await GeocodingService.reverseGeocode(
-                metadata.latitude,
-                metadata.longitude
-              );
-              
-              if (geoData) {
-                updates.location = geoData.location;
-                updates.country = geoData.country;
-                updates.city = geoData.city;
-              }
-            }
-
-            if (Object.keys(updates).length > 0) {
-              await prisma.photo.update({
-                where: { id: photo.id },
-                data: updates
-              });
-            }
-          } catch (error) {
-            console.error('Background processing error for photo:', photo.id, error);
-          }
-        });
+    if (!req.files.every(file => XmpMetadata.isSidecar(file.originalname))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Only .xmp sidecars can be imported here'
+      });
+    }
 
-        return photo;
-      } catch (error) {
-        console.error('Error processing file:', file.originalname, error);
-        return null;
-      }
-    });
+    // Without photoIds a sidecar is only applied to a unique match in the library
+    const photoIds = typeof req.body.photoIds === 'string' && req.body.photoIds
+      ? req.body.photoIds.split(',').filter(Boolean)
+      : undefined;
+    const imports: SidecarImport[] = [];
+    for (const file of req.files) {
+      imports.push(await MetadataImportService.applySidecar(
+        req.user.id, file.originalname, await fs.readFile(file.path), photoIds
+      ));
+    }
 
-    const results = await Promise.all(uploadPromises);
-    const successfulUploads = results.filter(photo => photo !== null);
+    const matched = imports.filter(sidecarImport => sidecarImport.photoIds.length > 0).length;
+    const ambiguous = imports.filter(sidecarImport => sidecarImport.candidates).length;
 
-    res.status(201).json({
+    res.json({
       success: true,
-      data: successfulUploads,
-      message: `${successfulUploads.length} photos uploaded successfully`
+      data: imports,
+      message: `${matched} of ${imports.length} sidecars matched photos` +
+        (ambiguous > 0 ? `; ${ambiguous} matched several photos, choose with photoIds` : '')
     });
   } catch (error) {
     next(error);
+  } finally {
+    if (Array.isArray(req.files)) {
+      TempFiles.remove(...req.files.map(file => file.path))
+        .catch(error => console.error('Temp file cleanup error:', error));
+    }
   }
 });
 
@@ -263,7 +307,8 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next)
     const skip = (page - 1) * limit;
 
     const filters: any = {
-      userId: req.user.id
+      userId: req.user.id,
+      deletedAt: null
     };
 
     // Apply filters
@@ -283,13 +328,10 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next)
     }
 
     if (req.query.dateFrom || req.query.dateTo) {
-      filters.dateTaken = {};
-      if (req.query.dateFrom) {
-        filters.dateTaken.gte = new Date(req.query.dateFrom as string);
-      }
-      if (req.query.dateTo) {
-        filters.dateTaken.lte = new Date(req.query.dateTo as string);
-      }
+      filters.dateTakenLocal = CaptureTime.localDateFilter(
+        req.query.dateFrom as string | undefined,
+        req.query.dateTo as string | undefined
+      );
     }
 
     if (req.query.tags) {
@@ -299,11 +341,82 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next)
       };
     }
 
+    if (req.query.mediaType === 'image' || req.query.mediaType === 'video') {
+      filters.mediaType = req.query.mediaType;
+    }
+
+    // Imported rating and color label
+    const rating = numberRange(req.query.ratingMin, req.query.ratingMax);
+    if (rating) {
+      filters.rating = rating;
+    }
+
+    if (req.query.colorLabel) {
+      filters.colorLabel = {
+        equals: req.query.colorLabel as string,
+        mode: 'insensitive'
+      };
+    }
+
+    // Camera and exposure filters
+    if (req.query.camera) {
+      filters.AND = [{
+        OR: [
+          { cameraMake: { contains: req.query.camera as string, mode: 'insensitive' } },
+          { cameraModel: { contains: req.query.camera as string, mode: 'insensitive' } }
+        ]
+      }];
+    }
+
+    if (req.query.lens) {
+      filters.lens = {
+        contains: req.query.lens as string,
+        mode: 'insensitive'
+      };
+    }
+
+    // An exact focal length matches within half a millimetre (EXIF stores e.g. 34.6mm)
+    const focalLength = req.query.focalLength
+      ? numberRange(parseFloat(req.query.focalLength as string) - 0.5, parseFloat(req.query.focalLength as string) + 0.5)
+      : numberRange(req.query.focalLengthMin, req.query.focalLengthMax);
+    if (focalLength) {
+      filters.focalLength = focalLength;
+    }
+
+    const aperture = numberRange(req.query.apertureMin, req.query.apertureMax);
+    if (aperture) {
+      filters.aperture = aperture;
+    }
+
+    const iso = numberRange(req.query.isoMin, req.query.isoMax);
+    if (iso) {
+      filters.iso = iso;
+    }
+
+    // Show only the best shot of each stack unless ?collapseStacks=false.
+    // StackService keeps every stack's best shot set to one of its members.
+    if (req.query.collapseStacks !== 'false') {
+      filters.OR = [
+        { stackId: null },
+        { bestOfStack: { isNot: null } }
+      ];
+    }
+
     const [photos, total] = await Promise.all([
       prisma.photo.findMany({
         where: filters,
         include: {
           faces: true,
+          stack: {
+            select: {
+              id: true,
+              _count: {
+                select: {
+                  photos: true
+                }
+              }
+            }
+          },
           albumPhotos: {
             include: {
               album: {
@@ -326,7 +439,7 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next)
 
     res.json({
       success: true,
-      data: photos,
+      data: photos.map(photo => PhotoUrlService.withUrls(photo)),
       pagination: {
         page,
         limit,
@@ -339,6 +452,235 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next)
   }
 });
 
+// Camera, lens and focal length usage across the user's photos
+router.get('/camera-stats', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const where = {
+      userId: req.user.id,
+      deletedAt: null
+    };
+
+    const [cameras, lenses, focalLengths] = await Promise.all([
+      prisma.photo.groupBy({
+        by: ['cameraMake', 'cameraModel'],
+        where: { ...where, cameraModel: { not: null } },
+        _count: { _all: true },
+        orderBy: { _count: { id: 'desc' } }
+      }),
+      prisma.photo.groupBy({
+        by: ['lens'],
+        where: { ...where, lens: { not: null } },
+        _count: { _all: true },
+        orderBy: { _count: { id: 'desc' } }
+      }),
+      prisma.photo.groupBy({
+        by: ['focalLength'],
+        where: { ...where, focalLength: { not: null } },
+        _count: { _all: true },
+        orderBy: { _count: { id: 'desc' } },
+        take: 20
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        cameras: cameras.map(group => ({
+          make: group.cameraMake,
+          model: group.cameraModel,
+          count: group._count._all
+        })),
+        lenses: lenses.map(group => ({
+          lens: group.lens,
+          count: group._count._all
+        })),
+        focalLengths: focalLengths.map(group => ({
+          focalLength: group.focalLength,
+          count: group._count._all
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Re-run processing steps for several photos
+router.post('/reanalyze', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const { photoIds, onlyFailed } = req.body;
+    const steps = parseSteps(req.body.steps);
+
+    if (!steps) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid steps. Allowed: ${PhotoProcessingService.STEPS.join(', ')}`
+      });
+    }
+
+    if (!onlyFailed && (!Array.isArray(photoIds) || photoIds.length === 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'photoIds or onlyFailed is required'
+      });
+    }
+
+    const filters: any = {
+      userId: req.user.id,
+      deletedAt: null
+    };
+
+    if (Array.isArray(photoIds) && photoIds.length > 0) {
+      filters.id = { in: photoIds };
+    }
+
+    if (onlyFailed) {
+      filters.OR = steps.map(step => PhotoProcessingService.statusUpdate([step], 'failed'));
+    }
+
+    const photos = await prisma.photo.findMany({
+      where: filters,
+      select: { id: true },
+      take: 500
+    });
+
+    const queued: string[] = [];
+    const skipped: string[] = [];
+
+    for (const photo of photos) {
+      if (await JobQueueService.hasActiveJob(photo.id)) {
+        skipped.push(photo.id);
+      } else {
+        await JobQueueService.enqueuePhoto(photo.id, steps);
+        queued.push(photo.id);
+      }
+    }
+
+    res.status(202).json({
+      success: true,
+      data: {
+        steps,
+        queued,
+        skipped
+      },
+      message: `${queued.length} photos queued for re-analysis`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Set, look up or clear the location of several photos
+router.patch('/', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const { photoIds } = req.body;
+
+    if (!Array.isArray(photoIds) || photoIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'photoIds is required'
+      });
+    }
+
+    const location = await GeotagService.resolveEdit(req.body as LocationEdit);
+
+    const photos = await prisma.photo.findMany({
+      where: {
+        id: { in: photoIds },
+        userId: req.user.id,
+        deletedAt: null
+      },
+      select: { id: true },
+      take: 500
+    });
+
+    const updated = await GeotagService.applyEdit(photos.map(photo => photo.id), location);
+
+    res.json({
+      success: true,
+      data: updated.map(photo => PhotoUrlService.withUrls(photo)),
+      message: location
+        ? `Location set for ${updated.length} photos`
+        : `Location cleared for ${updated.length} photos`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Re-run processing steps for a photo
+router.post('/:id/reanalyze', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const steps = parseSteps(req.body.steps);
+    if (!steps) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid steps. Allowed: ${PhotoProcessingService.STEPS.join(', ')}`
+      });
+    }
+
+    const photo = await prisma.photo.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.user.id,
+        deletedAt: null
+      }
+    });
+
+    if (!photo) {
+      return res.status(404).json({
+        success: false,
+        error: 'Photo not found'
+      });
+    }
+
+    if (await JobQueueService.hasActiveJob(photo.id)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Photo is already being processed'
+      });
+    }
+
+    const job = await JobQueueService.enqueuePhoto(photo.id, steps);
+
+    res.status(202).json({
+      success: true,
+      data: job,
+      message: 'Photo queued for re-analysis'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get photo by ID
 router.get('/:id', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
   try {
@@ -352,7 +694,8 @@ router.get('/:id', authenticateToken, async (req: AuthenticatedRequest, res, nex
     const photo = await prisma.photo.findFirst({
       where: {
         id: req.params.id,
-        userId: req.user.id
+        userId: req.user.id,
+        deletedAt: null
       },
       include: {
         faces: {
@@ -374,6 +717,20 @@ router.get('/:id', authenticateToken, async (req: AuthenticatedRequest, res, nex
               }
             }
           }
+        },
+        processingJobs: {
+          select: {
+            id: true,
+            status: true,
+            steps: true,
+            attempts: true,
+            lastError: true,
+            updatedAt: true
+          },
+          orderBy: {
+            createdAt: 'desc'
+          },
+          take: 1
         }
       }
     });
@@ -385,17 +742,29 @@ router.get('/:id', authenticateToken, async (req: AuthenticatedRequest, res, nex
       });
     }
 
+    const { processingJobs, ...photoData } = photo;
+
     res.json({
       success: true,
-      data: photo
+      data: {
+        ...PhotoUrlService.withUrls(photoData),
+        processing: {
+          ai: photo.aiStatus,
+          faces: photo.facesStatus,
+          geocode: photo.geocodeStatus,
+          latestJob: processingJobs[0] || null
+        }
+      }
     });
   } catch (error) {
     next(error);
   }
 });
 
-// Delete photo
-router.delete('/:id', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+// Download a photo with the library's metadata embedded (?metadata=embed), or with
+// location and device metadata stripped (?metadata=strip). ?sidecar=true returns
+// the photo's XMP sidecar instead.
+router.get('/:id/download', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
   try {
     if (!req.user) {
       return res.status(401).json({
@@ -404,11 +773,141 @@ router.delete('/:id', authenticateToken, async (req: AuthenticatedRequest, res,
       });
     }
 
+    const mode = ExportService.parseMode(req.query.metadata);
+    if (!mode) {
+      return res.status(400).json({
+        success: false,
+        error: 'metadata must be embed or strip'
+      });
+    }
+
     const photo = await prisma.photo.findFirst({
       where: {
         id: req.params.id,
-        userId: req.user.id
+        userId: req.user.id,
+        deletedAt: null
+      },
+      include: ExportService.photoInclude
+    });
+
+    if (!photo) {
+      return res.status(404).json({
+        success: false,
+        error: 'Photo not found'
+      });
+    }
+
+    const [file] = req.query.sidecar === 'true'
+      ? [ExportService.sidecar(photo, mode)]
+      : await ExportService.exportPhoto(photo, mode);
+
+    res.attachment(file.fileName);
+    res.type(file.mimeType);
+
+    if (typeof file.content === 'string') {
+      const filePath = file.content;
+      res.sendFile(filePath, (error) => {
+        TempFiles.remove(filePath).catch(cleanupError => console.error('Temp file cleanup error:', cleanupError));
+        if (error && !res.headersSent) next(error);
+      });
+    } else {
+      res.send(file.content);
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a resized image: /:id/image?w=&h=&fit=&format=
+router.get(
+  '/:id/image',
+  authenticateSignedOrToken(req => PhotoUrlService.imageResource(req.params.id)),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      if (!req.signedUrl && !req.user) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const fit = (req.query.fit as ImageFit) || 'inside';
+      if (!IMAGE_FITS.includes(fit)) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid fit. Allowed: ${IMAGE_FITS.join(', ')}`
+        });
       }
+
+      // A signed URL grants access to this photo regardless of the requester
+      const photo = await prisma.photo.findFirst({
+        where: req.signedUrl
+          ? { id: req.params.id, deletedAt: null }
+          : { id: req.params.id, userId: req.user!.id, deletedAt: null },
+        select: { id: true, s3Key: true, renditionKey: true, imageVersion: true }
+      });
+
+      if (!photo) {
+        return res.status(404).json({
+          success: false,
+          error: 'Photo not found'
+        });
+      }
+
+      const options = {
+        width: snapVariantSize(req.query.w),
+        height: snapVariantSize(req.query.h),
+        fit,
+        format: negotiateFormat(req.query.format, req.headers.accept)
+      };
+
+      // Variant keys are deterministic per image version, so the key doubles as a strong ETag.
+      // Only URLs carrying the current version can be cached for good; others revalidate.
+      const etag = `"${StorageService.getVariantKey(photo.s3Key, options, photo.imageVersion)}"`;
+      const isVersioned = req.query.v === String(photo.imageVersion);
+      res.set({
+        'Cache-Control': isVersioned ? 'private, max-age=31536000, immutable' : 'private, no-cache',
+        'Vary': 'Accept',
+        'ETag': etag,
+        'Cross-Origin-Resource-Policy': 'cross-origin'
+      });
+
+      if (req.headers['if-none-match'] === etag) {
+        return res.status(304).end();
+      }
+
+      const variant = await StorageService.getImageVariant(photo, options);
+
+      if (variant.generated) {
+        StorageUsageService.recordVariant(photo.id, variant.buffer.length)
+          .catch(error => console.error('Variant usage error:', photo.id, error));
+      }
+
+      res.type(variant.contentType);
+      res.send(variant.buffer);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Set, look up or clear a photo's location
+router.patch('/:id', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const photo = await prisma.photo.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.user.id,
+        deletedAt: null
+      },
+      select: { id: true }
     });
 
     if (!photo) {
@@ -418,17 +917,54 @@ router.delete('/:id', authenticateToken, async (req: AuthenticatedRequest, res,
       });
     }
 
-    // Delete from S3
-    await StorageService.deleteImage(photo.s3Key);
+    const location = await GeotagService.resolveEdit(req.body as LocationEdit);
+    const [updated] = await GeotagService.applyEdit([photo.id], location);
+
+    res.json({
+      success: true,
+      data: PhotoUrlService.withUrls(updated),
+      message: location ? 'Location updated successfully' : 'Location cleared'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Move photo to the trash (permanently deleted from there, or after the retention period)
+router.delete('/:id', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
 
-    // Delete from database (cascade will handle faces and album associations)
-    await prisma.photo.delete({
-      where: { id: photo.id }
+    const photo = await prisma.photo.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.user.id,
+        deletedAt: null
+      }
     });
 
+    if (!photo) {
+      return res.status(404).json({
+        success: false,
+        error: 'Photo not found'
+      });
+    }
+
+    const trashed = await TrashService.trash(photo);
+
     res.json({
       success: true,
-      message: 'Photo deleted successfully'
+      data: {
+        id: trashed.id,
+        deletedAt: trashed.deletedAt,
+        purgeAt: TrashService.purgeAt(trashed.deletedAt!)
+      },
+      message: 'Photo moved to trash'
     });
   } catch (error) {
     next(error);
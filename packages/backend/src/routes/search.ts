@@ -1,6 +1,7 @@
 import express from 'express';
 import { authenticateToken } from '../middleware/auth';
 import { GeocodingService } from '../services/geocodingService';
+import { PhotoUrlService } from '../services/photoUrlService';
 import { prisma } from '../index';
 import { AuthenticatedRequest, PhotoCluster } from '../types';
 
@@ -28,17 +29,19 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next)
     const searchFilters = await parseNaturalQuery(query);
     
     const filters: any = {
-      userId: req.user.id
+      userId: req.user.id,
+      deletedAt: null
     };
 
     // Apply parsed filters
+    // Date ranges are local days, matched against the camera's local time
     if (searchFilters.dateFrom || searchFilters.dateTo) {
-      filters.dateTaken = {};
+      filters.dateTakenLocal = {};
       if (searchFilters.dateFrom) {
-        filters.dateTaken.gte = searchFilters.dateFrom;
+        filters.dateTakenLocal.gte = searchFilters.dateFrom;
       }
       if (searchFilters.dateTo) {
-        filters.dateTaken.lte = searchFilters.dateTo;
+        filters.dateTakenLocal.lt = searchFilters.dateTo;
       }
     }
 
@@ -56,12 +59,50 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next)
       };
     }
 
-    // Text search in AI descriptions
+    // Text search in AI descriptions and imported titles and captions
+    const textFilters: any[] = [];
     if (searchFilters.description) {
-      filters.aiDescription = {
-        contains: searchFilters.description,
-        mode: 'insensitive'
-      };
+      textFilters.push({
+        OR: [
+          { aiDescription: { contains: searchFilters.description, mode: 'insensitive' } },
+          { title: { contains: searchFilters.description, mode: 'insensitive' } },
+          { caption: { contains: searchFilters.description, mode: 'insensitive' } }
+        ]
+      });
+    }
+
+    // Camera gear: every word of "canon r5" must match the make, model or lens
+    const gearFilters: any[] = [];
+    if (searchFilters.camera) {
+      searchFilters.camera.split(/\s+/).forEach((word: string) => {
+        gearFilters.push({
+          OR: [
+            { cameraMake: { contains: word, mode: 'insensitive' } },
+            { cameraModel: { contains: word, mode: 'insensitive' } },
+            { lens: { contains: word, mode: 'insensitive' } }
+          ]
+        });
+      });
+    }
+
+    // "the 35mm" is either a prime lens or a zoom set to 35mm
+    if (searchFilters.focalLength) {
+      gearFilters.push({
+        OR: [
+          { focalLength: { gte: searchFilters.focalLength - 0.5, lte: searchFilters.focalLength + 0.5 } },
+          { lens: { contains: `${searchFilters.focalLength}mm`, mode: 'insensitive' } }
+        ]
+      });
+    }
+
+    if (textFilters.length > 0 || gearFilters.length > 0) {
+      filters.AND = [...textFilters, ...gearFilters];
+    }
+
+    // Explicit ?mediaType= wins over "videos of ..." in the query
+    const mediaType = req.query.mediaType || searchFilters.mediaType;
+    if (mediaType === 'image' || mediaType === 'video') {
+      filters.mediaType = mediaType;
     }
 
     // Face group filter
@@ -115,7 +156,7 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next)
 
     res.json({
       success: true,
-      data: photos,
+      data: photos.map(photo => PhotoUrlService.withUrls(photo)),
       searchQuery: query,
       parsedFilters: searchFilters,
       pagination: {
@@ -142,18 +183,27 @@ router.get('/clusters', authenticateToken, async (req: AuthenticatedRequest, res
 
     const radiusKm = parseFloat(req.query.radius as string) || 1;
     
-    // Get all photos with location data
+    const mediaType = req.query.mediaType === 'image' || req.query.mediaType === 'video'
+      ? req.query.mediaType
+      : undefined;
+
+    // Get all photos and videos with location data
     const photos = await prisma.photo.findMany({
       where: {
         userId: req.user.id,
+        deletedAt: null,
         latitude: { not: null },
-        longitude: { not: null }
+        longitude: { not: null },
+        mediaType
       },
       select: {
         id: true,
-        thumbnailUrl: true,
+        s3Key: true,
+        mediaType: true,
+        duration: true,
         latitude: true,
         longitude: true,
+        locationSource: true,
         location: true,
         dateTaken: true,
         tags: true
@@ -187,7 +237,7 @@ router.get('/clusters', authenticateToken, async (req: AuthenticatedRequest, res
         location: centerPhoto.location || `${centerPhoto.latitude}, ${centerPhoto.longitude}`,
         latitude: centerPhoto.latitude,
         longitude: centerPhoto.longitude,
-        photos: cluster,
+        photos: cluster.map(photo => PhotoUrlService.withUrls(photo as typeof photos[number])),
         dateRange: {
           start: dates[0] ? new Date(dates[0]) : new Date(),
           end: dates[dates.length - 1] ? new Date(dates[dates.length - 1]) : new Date()
@@ -218,39 +268,51 @@ router.get('/timeline', authenticateToken, async (req: AuthenticatedRequest, res
 
     const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear();
     
-    const startDate = new Date(year, 0, 1);
-    const endDate = new Date(year + 1, 0, 1);
+    const startDate = new Date(Date.UTC(year, 0, 1));
+    const endDate = new Date(Date.UTC(year + 1, 0, 1));
+
+    const mediaType = req.query.mediaType === 'image' || req.query.mediaType === 'video'
+      ? req.query.mediaType
+      : undefined;
 
     const photos = await prisma.photo.findMany({
       where: {
         userId: req.user.id,
-        dateTaken: {
+        deletedAt: null,
+        dateTakenLocal: {
           gte: startDate,
           lt: endDate
-        }
+        },
+        mediaType
       },
       select: {
         id: true,
-        thumbnailUrl: true,
+        s3Key: true,
+        mediaType: true,
+        duration: true,
         location: true,
         city: true,
         country: true,
         dateTaken: true,
+        dateTakenLocal: true,
+        utcOffset: true,
+        timeZone: true,
         tags: true,
         latitude: true,
-        longitude: true
+        longitude: true,
+        locationSource: true
       },
       orderBy: {
-        dateTaken: 'asc'
+        dateTakenLocal: 'asc'
       }
     });
 
-    // Group by month
+    // Group by the month the photo was taken in, local to where it was taken
     const timeline = photos.reduce((acc, photo) => {
-      if (!photo.dateTaken) return acc;
+      if (!photo.dateTakenLocal) return acc;
       
-      const month = photo.dateTaken.getMonth();
-      const monthKey = new Date(year, month, 1).toISOString();
+      const month = photo.dateTakenLocal.getUTCMonth();
+      const monthKey = new Date(Date.UTC(year, month, 1)).toISOString();
       
       if (!acc[monthKey]) {
         acc[monthKey] = {
@@ -261,7 +323,7 @@ router.get('/timeline', authenticateToken, async (req: AuthenticatedRequest, res
         };
       }
       
-      acc[monthKey].photos.push(photo);
+      acc[monthKey].photos.push(PhotoUrlService.withUrls(photo));
       if (photo.location) acc[monthKey].locations.add(photo.location);
       if (photo.country) acc[monthKey].countries.add(photo.country);
       
@@ -292,15 +354,15 @@ async function parseNaturalQuery(query: string): Promise<any> {
   const filters: any = {};
   const lowerQuery = query.toLowerCase();
 
-  // Date parsing
+  // Date parsing; ranges are local days, as UTC dates to compare with dateTakenLocal
   const currentYear = new Date().getFullYear();
   
   // Year patterns
   const yearMatch = lowerQuery.match(/\b(20\d{2})\b/);
   if (yearMatch) {
     const year = parseInt(yearMatch[1]);
-    filters.dateFrom = new Date(year, 0, 1);
-    filters.dateTo = new Date(year + 1, 0, 1);
+    filters.dateFrom = new Date(Date.UTC(year, 0, 1));
+    filters.dateTo = new Date(Date.UTC(year + 1, 0, 1));
   }
 
   // Month patterns
@@ -311,17 +373,17 @@ async function parseNaturalQuery(query: string): Promise<any> {
                        'july', 'august', 'september', 'october', 'november', 'december'];
     const monthIndex = monthNames.indexOf(monthMatch[1].toLowerCase());
     const year = yearMatch ? parseInt(yearMatch[1]) : currentYear;
-    filters.dateFrom = new Date(year, monthIndex, 1);
-    filters.dateTo = new Date(year, monthIndex + 1, 1);
+    filters.dateFrom = new Date(Date.UTC(year, monthIndex, 1));
+    filters.dateTo = new Date(Date.UTC(year, monthIndex + 1, 1));
   }
 
   // Relative time patterns
   if (lowerQuery.includes('last year')) {
-    filters.dateFrom = new Date(currentYear - 1, 0, 1);
-    filters.dateTo = new Date(currentYear, 0, 1);
+    filters.dateFrom = new Date(Date.UTC(currentYear - 1, 0, 1));
+    filters.dateTo = new Date(Date.UTC(currentYear, 0, 1));
   } else if (lowerQuery.includes('this year')) {
-    filters.dateFrom = new Date(currentYear, 0, 1);
-    filters.dateTo = new Date(currentYear + 1, 0, 1);
+    filters.dateFrom = new Date(Date.UTC(currentYear, 0, 1));
+    filters.dateTo = new Date(Date.UTC(currentYear + 1, 0, 1));
   }
 
   // Location patterns
@@ -344,6 +406,29 @@ async function parseNaturalQuery(query: string): Promise<any> {
     filters.peopleQuery = peopleMatch[1];
   }
 
+  // Camera gear ("taken with the 35mm", "shot on my Canon R5")
+  const focalMatch = lowerQuery.match(/\b(\d{1,4})\s?mm\b/);
+  if (focalMatch) {
+    filters.focalLength = parseInt(focalMatch[1]);
+  }
+
+  const gearMatch = lowerQuery.match(/\b(?:taken|shot)\s+(?:with|on)\s+(?:(?:the|my|a|an)\s+)?([\w-]+(?:\s+[\w-]+)*?)(?=\s+(?:in|at|from|during|of)\b|$)/);
+  if (gearMatch) {
+    // "the 50mm lens" is already covered by the focal length
+    const gear = gearMatch[1]
+      .replace(/\b\d{1,4}\s?mm\b/, '')
+      .replace(/\b(?:lens|camera)\b/g, '')
+      .trim();
+    if (gear) {
+      filters.camera = gear;
+    }
+  }
+
+  // Media type ("videos from Paris")
+  if (/\b(videos?|clips?)\b/.test(lowerQuery)) {
+    filters.mediaType = 'video';
+  }
+
   // Activity/scene tags
   const commonTags = ['beach', 'mountain', 'city', 'restaurant', 'museum', 'park', 
                      'sunset', 'sunrise', 'nature', 'urban', 'food', 'selfie',
@@ -364,10 +449,16 @@ async function parseNaturalQuery(query: string): Promise<any> {
       descriptionQuery = descriptionQuery.replace(new RegExp(tag, 'gi'), '');
     });
   }
+  if (gearMatch) {
+    descriptionQuery = descriptionQuery.replace(new RegExp(gearMatch[0], 'gi'), '');
+  }
+  if (focalMatch) {
+    descriptionQuery = descriptionQuery.replace(new RegExp(focalMatch[0], 'gi'), '');
+  }
   
   // Clean up description query
   descriptionQuery = descriptionQuery
-    .replace(/\b(in|at|from|to|with|my|the|and|or|but)\b/gi, '')
+    .replace(/\b(in|at|from|to|with|my|the|and|or|but|videos?|clips?|photos?|pictures?|taken|shot|on)\b/gi, '')
     .replace(/\s+/g, ' ')
     .trim();
   
@@ -0,0 +1,206 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { StackService } from '../services/stackService';
+import { PhotoUrlService } from '../services/photoUrlService';
+import { prisma } from '../index';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+
+// Get user's photo stacks (bursts and near-duplicates)
+router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const where = {
+      userId: req.user.id
+    };
+
+    const [stacks, total] = await Promise.all([
+      prisma.photoStack.findMany({
+        where,
+        include: {
+          photos: {
+            select: {
+              id: true,
+              fileName: true,
+              s3Key: true,
+              dateTaken: true,
+              width: true,
+              height: true,
+              fileSize: true
+            },
+            orderBy: {
+              dateTaken: 'asc'
+            }
+          },
+          _count: {
+            select: {
+              photos: true
+            }
+          }
+        },
+        orderBy: {
+          createdAt: 'desc'
+        },
+        skip,
+        take: limit
+      }),
+      prisma.photoStack.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: stacks.map(stack => ({
+        ...stack,
+        photos: stack.photos.map(photo => PhotoUrlService.withUrls(photo))
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Pick the best shot of a stack
+router.patch('/:id', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const { bestPhotoId } = req.body;
+
+    const stack = await prisma.photoStack.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.user.id
+      },
+      include: {
+        photos: {
+          select: { id: true }
+        }
+      }
+    });
+
+    if (!stack) {
+      return res.status(404).json({
+        success: false,
+        error: 'Stack not found'
+      });
+    }
+
+    if (!stack.photos.some(photo => photo.id === bestPhotoId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'bestPhotoId must be a photo in this stack'
+      });
+    }
+
+    const updatedStack = await prisma.photoStack.update({
+      where: { id: stack.id },
+      data: { bestPhotoId }
+    });
+
+    res.json({
+      success: true,
+      data: updatedStack,
+      message: 'Best shot updated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a photo from its stack
+router.delete('/:id/photos/:photoId', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const photo = await prisma.photo.findFirst({
+      where: {
+        id: req.params.photoId,
+        stackId: req.params.id,
+        userId: req.user.id
+      }
+    });
+
+    if (!photo) {
+      return res.status(404).json({
+        success: false,
+        error: 'Photo not found in stack'
+      });
+    }
+
+    await StackService.removeFromStack(photo.id);
+
+    res.json({
+      success: true,
+      message: 'Photo removed from stack'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Unstack: dissolve a stack, keeping all of its photos
+router.delete('/:id', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const stack = await prisma.photoStack.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.user.id
+      }
+    });
+
+    if (!stack) {
+      return res.status(404).json({
+        success: false,
+        error: 'Stack not found'
+      });
+    }
+
+    // Photos are detached by the relation's onDelete: SetNull
+    await prisma.photoStack.delete({
+      where: { id: stack.id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Stack removed successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,279 @@
+import path from 'path';
+import express from 'express';
+import multer from 'multer';
+import { authenticateToken } from '../middleware/auth';
+import { GpsTrackService } from '../services/gpsTrackService';
+import { prisma } from '../index';
+import { AuthenticatedRequest, GeotagOptions } from '../types';
+
+const router = express.Router();
+
+const TRACK_EXTENSIONS = ['.gpx', '.kml', '.geojson', '.json'];
+
+// Tracks are small text files, parsed from memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: parseInt(process.env.MAX_TRACK_FILE_SIZE || '20971520'), // 20MB default
+  },
+  fileFilter: (req, file, cb) => {
+    if (TRACK_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only GPX, KML and GeoJSON tracks are allowed.'));
+    }
+  }
+});
+
+// Track fields returned in lists (points are only returned for a single track)
+const TRACK_SUMMARY = {
+  id: true,
+  name: true,
+  fileName: true,
+  format: true,
+  pointCount: true,
+  startTime: true,
+  endTime: true,
+  createdAt: true
+};
+
+/**
+ * Parse matching options from a request body, falling back to the defaults
+ */
+function parseGeotagOptions(body: any): GeotagOptions | null {
+  const options = GpsTrackService.defaultOptions();
+
+  if (body?.maxGapSeconds !== undefined) {
+    const maxGapSeconds = Number(body.maxGapSeconds);
+    if (!Number.isFinite(maxGapSeconds) || maxGapSeconds <= 0) return null;
+    options.maxGapSeconds = maxGapSeconds;
+  }
+
+  if (body?.clockOffsetSeconds !== undefined) {
+    const clockOffsetSeconds = Number(body.clockOffsetSeconds);
+    if (!Number.isFinite(clockOffsetSeconds)) return null;
+    options.clockOffsetSeconds = clockOffsetSeconds;
+  }
+
+  return options;
+}
+
+/**
+ * Find a track owned by the user
+ */
+function findTrack(id: string, userId: string) {
+  return prisma.gpsTrack.findFirst({
+    where: { id, userId }
+  });
+}
+
+// Upload a GPX, KML or GeoJSON track
+router.post('/', authenticateToken, upload.single('track'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: 'No track file uploaded'
+      });
+    }
+
+    const track = await GpsTrackService.create(req.user.id, req.file.originalname, req.file.buffer.toString('utf8'));
+    const { points, ...summary } = track;
+
+    res.status(201).json({
+      success: true,
+      data: summary,
+      message: `Track uploaded with ${track.pointCount} points`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get user's tracks
+router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const tracks = await prisma.gpsTrack.findMany({
+      where: { userId: req.user.id },
+      select: TRACK_SUMMARY,
+      orderBy: { startTime: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: tracks
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a track with its points
+router.get('/:id', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const track = await findTrack(req.params.id, req.user.id);
+
+    if (!track) {
+      return res.status(404).json({
+        success: false,
+        error: 'Track not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: track
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Preview which photos a track would geotag
+router.post('/:id/preview', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const options = parseGeotagOptions(req.body);
+
+    if (!options) {
+      return res.status(400).json({
+        success: false,
+        error: 'maxGapSeconds must be a positive number and clockOffsetSeconds a number'
+      });
+    }
+
+    const track = await findTrack(req.params.id, req.user.id);
+
+    if (!track) {
+      return res.status(404).json({
+        success: false,
+        error: 'Track not found'
+      });
+    }
+
+    const matches = await GpsTrackService.findMatches(track, options);
+
+    res.json({
+      success: true,
+      data: {
+        options,
+        matches
+      },
+      message: `${matches.length} photos can be geotagged`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Geotag photos from a track (all matches, or `photoIds` picked from the preview)
+router.post('/:id/apply', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const options = parseGeotagOptions(req.body);
+    const { photoIds } = req.body;
+
+    if (!options) {
+      return res.status(400).json({
+        success: false,
+        error: 'maxGapSeconds must be a positive number and clockOffsetSeconds a number'
+      });
+    }
+
+    if (photoIds !== undefined && !Array.isArray(photoIds)) {
+      return res.status(400).json({
+        success: false,
+        error: 'photoIds must be an array'
+      });
+    }
+
+    const track = await findTrack(req.params.id, req.user.id);
+
+    if (!track) {
+      return res.status(404).json({
+        success: false,
+        error: 'Track not found'
+      });
+    }
+
+    const applied = await GpsTrackService.apply(track, options, photoIds);
+
+    res.json({
+      success: true,
+      data: {
+        options,
+        applied
+      },
+      message: `${applied.length} photos geotagged`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a track (geotagged photos keep their coordinates)
+router.delete('/:id', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const track = await findTrack(req.params.id, req.user.id);
+
+    if (!track) {
+      return res.status(404).json({
+        success: false,
+        error: 'Track not found'
+      });
+    }
+
+    await prisma.gpsTrack.delete({
+      where: { id: track.id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Track deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,170 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { TrashService } from '../services/trashService';
+import { PhotoUrlService } from '../services/photoUrlService';
+import { prisma } from '../index';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+
+/**
+ * Find a trashed photo owned by the user
+ */
+function findTrashedPhoto(id: string, userId: string) {
+  return prisma.photo.findFirst({
+    where: {
+      id,
+      userId,
+      deletedAt: { not: null }
+    }
+  });
+}
+
+// Get user's trashed photos, most recently deleted first
+router.get('/', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const where = {
+      userId: req.user.id,
+      deletedAt: { not: null }
+    };
+
+    const [photos, total] = await Promise.all([
+      prisma.photo.findMany({
+        where,
+        orderBy: {
+          deletedAt: 'desc'
+        },
+        skip,
+        take: limit
+      }),
+      prisma.photo.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: photos.map(photo => {
+        // The image route hides trashed photos; the original and thumbnail stay viewable
+        const { imageUrl, ...urls } = PhotoUrlService.urls(photo);
+        return {
+          ...photo,
+          ...urls,
+          purgeAt: TrashService.purgeAt(photo.deletedAt!)
+        };
+      }),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Restore a photo from the trash
+router.post('/:id/restore', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const photo = await findTrashedPhoto(req.params.id, req.user.id);
+
+    if (!photo) {
+      return res.status(404).json({
+        success: false,
+        error: 'Photo not found in trash'
+      });
+    }
+
+    const restored = await TrashService.restore(photo);
+
+    res.json({
+      success: true,
+      data: PhotoUrlService.withUrls(restored),
+      message: 'Photo restored successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Permanently delete a trashed photo
+router.delete('/:id', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const photo = await findTrashedPhoto(req.params.id, req.user.id);
+
+    if (!photo) {
+      return res.status(404).json({
+        success: false,
+        error: 'Photo not found in trash'
+      });
+    }
+
+    await TrashService.purge(photo);
+
+    res.json({
+      success: true,
+      message: 'Photo deleted permanently'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Empty the trash
+router.delete('/', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const photos = await prisma.photo.findMany({
+      where: {
+        userId: req.user.id,
+        deletedAt: { not: null }
+      },
+      select: { id: true, s3Key: true, stackId: true }
+    });
+
+    for (const photo of photos) {
+      await TrashService.purge(photo);
+    }
+
+    res.json({
+      success: true,
+      data: { deleted: photos.length },
+      message: `${photos.length} photos deleted permanently`
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
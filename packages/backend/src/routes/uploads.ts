@@ -0,0 +1,292 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { UploadSessionService } from '../services/uploadSessionService';
+import { PhotoUrlService } from '../services/photoUrlService';
+import { StorageUsageService } from '../services/storageUsageService';
+import { ExifExtractor } from '../utils/exifExtractor';
+import { ImageConverter } from '../utils/imageConverter';
+import { prisma } from '../index';
+import { AuthenticatedRequest } from '../types';
+
+const router = express.Router();
+
+const MAX_RESUMABLE_FILE_SIZE = parseInt(process.env.MAX_RESUMABLE_FILE_SIZE || '104857600'); // 100MB default
+
+/**
+ * Set the tus-style headers describing an upload's progress
+ */
+function setOffsetHeaders(res: express.Response, session: { offset: number; totalSize: number }) {
+  res.set({
+    'Upload-Offset': String(session.offset),
+    'Upload-Length': String(session.totalSize),
+    'Cache-Control': 'no-store'
+  });
+}
+
+/**
+ * Find an upload session owned by the user
+ */
+function findSession(id: string, userId: string) {
+  return prisma.uploadSession.findFirst({
+    where: {
+      id,
+      userId
+    }
+  });
+}
+
+// Create a resumable upload
+router.post('/', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const { fileName } = req.body;
+    const fileSize = parseInt(req.body.fileSize);
+
+    if (!fileName || typeof fileName !== 'string' || !fileSize || fileSize <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'fileName and fileSize are required'
+      });
+    }
+
+    // The reported type may be empty or generic for HEIC and RAW files
+    const mimeType = typeof req.body.mimeType === 'string' && req.body.mimeType
+      ? req.body.mimeType
+      : ExifExtractor.getMimeTypeFromFileName(fileName);
+
+    if (!ImageConverter.isAllowedUpload(fileName, mimeType)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid file type. Only images and videos are allowed.'
+      });
+    }
+
+    if (fileSize > MAX_RESUMABLE_FILE_SIZE) {
+      return res.status(413).json({
+        success: false,
+        error: 'File size exceeds limit'
+      });
+    }
+
+    // Fail before any bytes are sent; finalizing checks the quota again
+    await StorageUsageService.assertWithinQuota(req.user.id, fileSize);
+
+    const session = await UploadSessionService.create(req.user.id, { fileName, fileSize, mimeType });
+
+    setOffsetHeaders(res, session);
+    res.location(`${req.baseUrl}/${session.id}`);
+    res.status(201).json({
+      success: true,
+      data: session,
+      message: 'Upload created successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the current offset of an upload (used by clients to resume)
+router.head('/:id', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).end();
+    }
+
+    const session = await findSession(req.params.id, req.user.id);
+
+    if (!session) {
+      return res.status(404).end();
+    }
+
+    setOffsetHeaders(res, session);
+    res.status(200).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get an upload session
+router.get('/:id', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const session = await findSession(req.params.id, req.user.id);
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Upload not found'
+      });
+    }
+
+    setOffsetHeaders(res, session);
+    res.json({
+      success: true,
+      data: session
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Append a chunk. The Upload-Offset header must match the bytes already received.
+router.patch('/:id', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    if (!req.is('application/offset+octet-stream') && !req.is('application/octet-stream')) {
+      return res.status(415).json({
+        success: false,
+        error: 'Chunks must be sent as application/offset+octet-stream'
+      });
+    }
+
+    const offset = parseInt(req.get('Upload-Offset') || '');
+    if (isNaN(offset)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Upload-Offset header is required'
+      });
+    }
+
+    const session = await findSession(req.params.id, req.user.id);
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Upload not found'
+      });
+    }
+
+    if (session.status !== 'uploading') {
+      return res.status(409).json({
+        success: false,
+        error: 'Upload is already completed'
+      });
+    }
+
+    if (offset !== session.offset) {
+      setOffsetHeaders(res, session);
+      return res.status(409).json({
+        success: false,
+        error: 'Upload-Offset does not match the current offset'
+      });
+    }
+
+    const newOffset = await UploadSessionService.appendChunk(session, req);
+
+    setOffsetHeaders(res, { offset: newOffset, totalSize: session.totalSize });
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Finalize a fully received upload into a photo
+router.post('/:id/finalize', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const session = await findSession(req.params.id, req.user.id);
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Upload not found'
+      });
+    }
+
+    // Finalizing twice (e.g. after a lost response) returns the same photo
+    if (session.status === 'completed') {
+      const photo = session.photoId
+        ? await prisma.photo.findUnique({ where: { id: session.photoId } })
+        : null;
+
+      if (!photo) {
+        return res.status(410).json({
+          success: false,
+          error: 'Photo for this upload no longer exists'
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: PhotoUrlService.withUrls(photo),
+        duplicate: false,
+        message: 'Upload already finalized'
+      });
+    }
+
+    if (session.offset !== session.totalSize) {
+      setOffsetHeaders(res, session);
+      return res.status(409).json({
+        success: false,
+        error: 'Upload is incomplete'
+      });
+    }
+
+    const { photo, duplicate } = await UploadSessionService.finalize(session);
+
+    res.status(duplicate ? 200 : 201).json({
+      success: true,
+      data: PhotoUrlService.withUrls(photo),
+      duplicate,
+      message: duplicate ? 'Photo already uploaded' : 'Photo uploaded successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Cancel an upload
+router.delete('/:id', authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const session = await findSession(req.params.id, req.user.id);
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Upload not found'
+      });
+    }
+
+    await UploadSessionService.abort(session.id);
+
+    res.json({
+      success: true,
+      message: 'Upload cancelled successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
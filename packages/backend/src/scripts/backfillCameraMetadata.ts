@@ -0,0 +1,81 @@
+/**
+ * Backfill camera, lens and exposure metadata for photos uploaded before it was captured.
+ *
+ * Reads the EXIF of every image without camera metadata from storage. Photos
+ * whose files carry no camera EXIF are re-read on each run.
+ *
+ * Run after `npm run db:push`:  npm run db:backfill-camera
+ */
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { StorageService } from '../services/storageService';
+import { ExifExtractor } from '../utils/exifExtractor';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 100;
+
+async function main(): Promise<void> {
+  let cursor: string | undefined;
+  let scanned = 0;
+  let updated = 0;
+
+  for (;;) {
+    const photos = await prisma.photo.findMany({
+      where: {
+        id: cursor ? { gt: cursor } : undefined,
+        mediaType: 'image',
+        cameraMake: null,
+        cameraModel: null,
+        lens: null,
+        focalLength: null,
+        aperture: null,
+        exposureTime: null,
+        iso: null
+      },
+      select: { id: true, s3Key: true, fileName: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE
+    });
+
+    if (photos.length === 0) break;
+    cursor = photos[photos.length - 1].id;
+
+    for (const photo of photos) {
+      scanned++;
+
+      try {
+        const original = await StorageService.getImageBuffer(photo.s3Key);
+        const { camera } = await ExifExtractor.extractMetadata(original, photo.fileName);
+        if (!camera) continue;
+
+        await prisma.photo.update({
+          where: { id: photo.id },
+          data: {
+            cameraMake: camera.make,
+            cameraModel: camera.model,
+            lens: camera.lens,
+            focalLength: camera.focalLength,
+            aperture: camera.aperture,
+            exposureTime: camera.exposureTime,
+            iso: camera.iso
+          }
+        });
+        updated++;
+      } catch (error) {
+        console.error('Camera metadata backfill error for photo:', photo.id, error);
+      }
+    }
+
+    console.log(`Scanned ${scanned} photos, updated ${updated}...`);
+  }
+
+  console.log(`✅ Camera metadata backfilled for ${updated} of ${scanned} photos`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Camera metadata backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,97 @@
+/**
+ * Backfill local capture time, UTC offset and time zone for photos uploaded before they were stored.
+ *
+ * Re-reads the capture date of every photo without a local time from its stored file.
+ * Photos whose files carry no date keep their existing `dateTaken` as the local time.
+ *
+ * Run after `npm run db:push`:  npm run db:backfill-capture-time
+ */
+import 'dotenv/config';
+import path from 'path';
+import { Photo, PrismaClient } from '@prisma/client';
+import { StorageService } from '../services/storageService';
+import { ExifExtractor } from '../utils/exifExtractor';
+import { TempFiles } from '../utils/tempFiles';
+import { VideoProcessor } from '../utils/videoProcessor';
+import { CaptureTimestamp } from '../types';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 100;
+
+/**
+ * Read the capture time from a photo's original file
+ */
+async function readCaptureTime(
+  photo: Pick<Photo, 'id' | 's3Key' | 'fileName' | 'mediaType'>
+): Promise<Partial<CaptureTimestamp>> {
+  if (photo.mediaType !== 'video') {
+    return ExifExtractor.extractMetadata(await StorageService.getImageBuffer(photo.s3Key), photo.fileName);
+  }
+
+  await TempFiles.ensureDir();
+  const videoPath = path.join(TempFiles.dir, `${photo.id}-${Date.now()}.video`);
+
+  try {
+    await StorageService.downloadOriginal(photo.s3Key, videoPath);
+    return await VideoProcessor.extractMetadata(videoPath);
+  } finally {
+    await TempFiles.remove(videoPath);
+  }
+}
+
+async function main(): Promise<void> {
+  let cursor: string | undefined;
+  let scanned = 0;
+  let updated = 0;
+
+  for (;;) {
+    const photos = await prisma.photo.findMany({
+      where: {
+        id: cursor ? { gt: cursor } : undefined,
+        dateTakenLocal: null
+      },
+      select: { id: true, s3Key: true, fileName: true, mediaType: true, dateTaken: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE
+    });
+
+    if (photos.length === 0) break;
+    cursor = photos[photos.length - 1].id;
+
+    for (const photo of photos) {
+      scanned++;
+
+      try {
+        const captureTime = await readCaptureTime(photo);
+        const dateTakenLocal = captureTime.dateTakenLocal || photo.dateTaken;
+        if (!dateTakenLocal) continue;
+
+        await prisma.photo.update({
+          where: { id: photo.id },
+          data: {
+            dateTaken: captureTime.dateTaken || photo.dateTaken,
+            dateTakenLocal,
+            utcOffset: captureTime.utcOffset,
+            timeZone: captureTime.timeZone,
+            utcOffsetSource: captureTime.utcOffsetSource
+          }
+        });
+        updated++;
+      } catch (error) {
+        console.error('Capture time backfill error for photo:', photo.id, error);
+      }
+    }
+
+    console.log(`Scanned ${scanned} photos, updated ${updated}...`);
+  }
+
+  console.log(`✅ Capture time backfilled for ${updated} of ${scanned} photos`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Capture time backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,42 @@
+/**
+ * Backfill processing status for photos uploaded before the job queue.
+ *
+ * The per-step status columns default to "pending", so photos processed by the old
+ * in-process path would show as pending forever. Photos that never had a processing job
+ * are marked done; the AI step is marked failed where no description was stored, so it
+ * can be re-analyzed.
+ *
+ * Run after `npm run db:push`:  npm run db:backfill-processing-status
+ */
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function main(): Promise<void> {
+  const where = {
+    processingJobs: { none: {} }
+  };
+
+  const analyzed = await prisma.photo.updateMany({
+    where: { ...where, aiDescription: { not: null } },
+    data: { aiStatus: 'done', facesStatus: 'done', geocodeStatus: 'done' }
+  });
+
+  const unanalyzed = await prisma.photo.updateMany({
+    where: { ...where, aiDescription: null },
+    data: { aiStatus: 'failed', facesStatus: 'done', geocodeStatus: 'done' }
+  });
+
+  console.log(
+    `✅ Processing status backfilled for ${analyzed.count + unanalyzed.count} photos ` +
+    `(${unanalyzed.count} without AI analysis marked failed)`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('Processing status backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
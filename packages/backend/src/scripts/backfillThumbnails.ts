@@ -0,0 +1,67 @@
+/**
+ * Regenerate thumbnails of photos uploaded before EXIF orientation was applied.
+ *
+ * Re-renders every image thumbnail upright and stores width/height as displayed.
+ * Cached resized variants are deleted, so they are rendered upright on next request.
+ * Safe to re-run; photos already upright are rewritten unchanged.
+ *
+ * Run after `npm run db:push`:  npm run db:backfill-thumbnails
+ */
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { StorageService } from '../services/storageService';
+import { ImageConverter } from '../utils/imageConverter';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 100;
+
+async function main(): Promise<void> {
+  let cursor: string | undefined;
+  let scanned = 0;
+  let updated = 0;
+
+  for (;;) {
+    const photos = await prisma.photo.findMany({
+      where: {
+        id: cursor ? { gt: cursor } : undefined,
+        mediaType: 'image'
+      },
+      select: { id: true, s3Key: true, renditionKey: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE
+    });
+
+    if (photos.length === 0) break;
+    cursor = photos[photos.length - 1].id;
+
+    for (const photo of photos) {
+      scanned++;
+
+      try {
+        const image = await StorageService.getDisplayImageBuffer(photo);
+        const thumbnailSize = await StorageService.regenerateThumbnail(photo, image);
+        const { width, height } = await ImageConverter.getDisplaySize(image);
+
+        await prisma.photo.update({
+          where: { id: photo.id },
+          data: { thumbnailSize, width, height, variantsSize: 0, imageVersion: { increment: 1 } }
+        });
+        updated++;
+      } catch (error) {
+        console.error('Thumbnail backfill error for photo:', photo.id, error);
+      }
+    }
+
+    console.log(`Scanned ${scanned} photos, regenerated ${updated}...`);
+  }
+
+  console.log(`✅ Thumbnails regenerated for ${updated} of ${scanned} photos`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Thumbnail backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
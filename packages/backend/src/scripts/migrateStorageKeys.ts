@@ -0,0 +1,81 @@
+/**
+ * One-off migration to private storage.
+ *
+ * - Replaces persisted public URLs with storage keys
+ *   (photos.originalUrl/thumbnailUrl are dropped, albums.coverPhoto becomes
+ *   albums.coverPhotoId, face_groups.thumbnail becomes face_groups.thumbnailKey)
+ * - Resets the ACL of every existing S3 object to private
+ *
+ * Run before `npm run db:push`:  npm run db:migrate-storage [-- --skip-acl]
+ */
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { S3StorageDriver } from '../services/storage/s3Driver';
+
+const prisma = new PrismaClient();
+
+const STATEMENTS = [
+  // Album covers: URL of a thumbnail -> ID of the photo it belongs to
+  `DO $$
+  BEGIN
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = 'albums' AND column_name = 'coverPhoto'
+    ) THEN
+      ALTER TABLE albums ADD COLUMN IF NOT EXISTS "coverPhotoId" TEXT;
+      UPDATE albums a SET "coverPhotoId" = p.id
+        FROM photos p
+        WHERE a."coverPhoto" = p."thumbnailUrl" AND a."coverPhotoId" IS NULL;
+      ALTER TABLE albums DROP COLUMN "coverPhoto";
+    END IF;
+  END $$;`,
+
+  // Face group thumbnails: URL -> object key
+  `DO $$
+  BEGIN
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = 'face_groups' AND column_name = 'thumbnail'
+    ) THEN
+      UPDATE face_groups SET thumbnail = regexp_replace(thumbnail, '^https?://[^/]+/', '')
+        WHERE thumbnail IS NOT NULL;
+      ALTER TABLE face_groups RENAME COLUMN thumbnail TO "thumbnailKey";
+    END IF;
+  END $$;`,
+
+  // Photo URLs are derived from s3Key at response time
+  `ALTER TABLE photos DROP COLUMN IF EXISTS "originalUrl"`,
+  `ALTER TABLE photos DROP COLUMN IF EXISTS "thumbnailUrl"`
+];
+
+async function makeObjectsPrivate(): Promise<void> {
+  const driver = new S3StorageDriver();
+
+  for (const prefix of ['photos/', 'thumbnails/', 'variants/']) {
+    const keys = await driver.list(prefix);
+    console.log(`Making ${keys.length} objects under ${prefix} private...`);
+
+    for (const key of keys) {
+      await driver.makePrivate(key);
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  for (const statement of STATEMENTS) {
+    await prisma.$executeRawUnsafe(statement);
+  }
+  console.log('✅ Database URL columns migrated to storage keys');
+
+  if ((process.env.STORAGE_DRIVER || 's3') === 's3' && !process.argv.includes('--skip-acl')) {
+    await makeObjectsPrivate();
+    console.log('✅ S3 objects are now private');
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Storage key migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
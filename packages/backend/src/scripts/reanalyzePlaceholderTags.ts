@@ -0,0 +1,86 @@
+/**
+ * Re-queue AI analysis for photos that got placeholder results.
+ *
+ * Before replies were validated, a failed analysis stored the description "Travel photo"
+ * with the tags "travel" and "photo", which then matched searches. This clears those
+ * results (keeping the tags where they are imported keywords) and queues the AI step
+ * again, so the worker records a real analysis or an explicit failure.
+ *
+ * Run after `npm run db:push`:  npm run db:reanalyze-placeholders
+ */
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 100;
+const MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '5');
+
+const PLACEHOLDER_DESCRIPTION = 'Travel photo';
+const PLACEHOLDER_TAGS = ['travel', 'photo'];
+
+async function main(): Promise<void> {
+  let cursor: string | undefined;
+  let scanned = 0;
+  let queued = 0;
+
+  for (;;) {
+    const photos = await prisma.photo.findMany({
+      where: {
+        id: cursor ? { gt: cursor } : undefined,
+        aiDescription: PLACEHOLDER_DESCRIPTION,
+        // Photos already waiting for a run will get a fresh analysis anyway
+        processingJobs: {
+          none: { status: { in: ['pending', 'running'] } }
+        }
+      },
+      select: { id: true, tags: true, keywords: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE
+    });
+
+    if (photos.length === 0) break;
+    cursor = photos[photos.length - 1].id;
+
+    for (const photo of photos) {
+      scanned++;
+
+      try {
+        await prisma.$transaction([
+          prisma.photo.update({
+            where: { id: photo.id },
+            data: {
+              aiDescription: null,
+              aiTags: [],
+              tags: photo.tags.filter(tag =>
+                !PLACEHOLDER_TAGS.includes(tag) || photo.keywords.includes(tag)
+              ),
+              aiStatus: 'pending'
+            }
+          }),
+          prisma.processingJob.create({
+            data: {
+              photoId: photo.id,
+              steps: { ai: 'pending' },
+              maxAttempts: MAX_ATTEMPTS
+            }
+          })
+        ]);
+        queued++;
+      } catch (error) {
+        console.error('Re-analysis error for photo:', photo.id, error);
+      }
+    }
+
+    console.log(`Scanned ${scanned} photos, queued ${queued}...`);
+  }
+
+  console.log(`✅ AI analysis re-queued for ${queued} of ${scanned} photos with placeholder tags`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Placeholder re-analysis failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,43 @@
+import sharp from 'sharp';
+import { LocalCaptionProvider } from './localProvider';
+
+// Horizontal bands of equally muted colors at medium brightness: no color covers a fifth
+// of the image, and neither tone nor palette gets a word
+const BANDS = [[128, 89, 89], [128, 108, 89], [128, 126, 89], [89, 128, 89], [89, 108, 128], [115, 89, 128]];
+
+async function bands(): Promise<Buffer> {
+  const width = 64;
+  const height = 64;
+  const pixels = Buffer.alloc(width * height * 3);
+
+  for (let y = 0; y < height; y++) {
+    const color = BANDS[Math.floor(y * BANDS.length / height)];
+    for (let x = 0; x < width; x++) {
+      pixels.set(color, (y * width + x) * 3);
+    }
+  }
+
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+describe('LocalCaptionProvider', () => {
+  const provider = new LocalCaptionProvider();
+
+  it('names the dominant colors and tone', async () => {
+    const image = await sharp({
+      create: { width: 32, height: 32, channels: 3, background: { r: 20, g: 60, b: 230 } }
+    }).png().toBuffer();
+
+    const analysis = await provider.analyze([image], 'image');
+
+    expect(analysis.tags).toEqual(['blue', 'bright', 'colorful']);
+    expect(analysis.description).toBe('A bright, colorful photo with mostly blue tones.');
+  });
+
+  it('always tags the most common color, even without a dominant one', async () => {
+    const analysis = await provider.analyze([await bands()], 'image');
+
+    expect(analysis.tags).toHaveLength(1);
+    expect(analysis.description).toBe(`A photo with mostly ${analysis.tags[0]} tones.`);
+  });
+});
@@ -0,0 +1,224 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { PerceptualHash } from '../../utils/perceptualHash';
+import {
+  CaptionProvider,
+  FaceDetection,
+  FaceDetectionProvider,
+  FaceMatch,
+  FaceMatchingProvider,
+  ImageAnalysis,
+  MediaType
+} from '../../types';
+
+// Fixture faces apply to images within this many bits of the fixture's hash
+const FIXTURE_HASH_THRESHOLD = 4;
+// Indexed faces within this many bits of a searched face count as the same person
+const MATCH_HASH_THRESHOLD = 10;
+
+// Share of pixels a color needs to be named in the tags (the most common one always is)
+const MIN_COLOR_SHARE = 0.2;
+
+type ColorName = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'pink' | 'white' | 'gray' | 'black';
+
+/**
+ * Deterministic, offline captions and tags from the image's colors: dominant hues,
+ * brightness and saturation. Meant for development and tests; the same image always
+ * gets the same result.
+ */
+export class LocalCaptionProvider implements CaptionProvider {
+  readonly name = 'local';
+
+  async analyze(images: Buffer[], mediaType: MediaType): Promise<ImageAnalysis> {
+    const counts = new Map<ColorName, number>();
+    let pixelCount = 0;
+    let brightness = 0;
+    let saturation = 0;
+
+    for (const image of images) {
+      const { data, info } = await sharp(image)
+        .rotate()
+        .resize(64, 64, { fit: 'inside' })
+        .removeAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      for (let i = 0; i < data.length; i += info.channels) {
+        const { hue, sat, value } = this.toHsv(data[i], data[i + 1], data[i + 2]);
+        const color = this.colorName(hue, sat, value);
+        counts.set(color, (counts.get(color) || 0) + 1);
+        brightness += value;
+        saturation += sat;
+        pixelCount++;
+      }
+    }
+
+    if (pixelCount === 0) {
+      throw new Error('No image data to analyze');
+    }
+
+    brightness /= pixelCount;
+    saturation /= pixelCount;
+
+    const colors = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .filter(([, count], index) => index === 0 || count / pixelCount >= MIN_COLOR_SHARE)
+      .slice(0, 3)
+      .map(([color]) => color);
+
+    const tone = brightness > 0.65 ? 'bright' : brightness < 0.3 ? 'dark' : null;
+    const palette = saturation < 0.08 ? 'black and white' : saturation > 0.45 ? 'colorful' : saturation < 0.2 ? 'muted' : null;
+    const kind = mediaType === 'video' ? 'video' : 'photo';
+
+    const adjectives = [tone, palette].filter((word): word is string => !!word);
+    const description = [
+      `A ${adjectives.length > 0 ? `${adjectives.join(', ')} ` : ''}${kind}`,
+      colors.length > 0 ? ` with mostly ${this.joinWords(colors)} tones.` : '.'
+    ].join('');
+
+    return {
+      description,
+      tags: [...colors, ...adjectives, ...(mediaType === 'video' ? ['video'] : [])]
+    };
+  }
+
+  /**
+   * Hue (0-360), saturation and value (0-1) of an RGB pixel
+   */
+  private toHsv(r: number, g: number, b: number): { hue: number; sat: number; value: number } {
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const delta = max - min;
+
+    let hue = 0;
+    if (delta > 0) {
+      if (max === r) hue = ((g - b) / delta) % 6;
+      else if (max === g) hue = (b - r) / delta + 2;
+      else hue = (r - g) / delta + 4;
+      hue = (hue * 60 + 360) % 360;
+    }
+
+    return { hue, sat: max === 0 ? 0 : delta / max, value: max / 255 };
+  }
+
+  private colorName(hue: number, sat: number, value: number): ColorName {
+    if (value < 0.2) return 'black';
+    if (sat < 0.15) return value > 0.85 ? 'white' : 'gray';
+    if (hue < 15 || hue >= 345) return 'red';
+    if (hue < 45) return 'orange';
+    if (hue < 70) return 'yellow';
+    if (hue < 160) return 'green';
+    if (hue < 260) return 'blue';
+    if (hue < 300) return 'purple';
+    return 'pink';
+  }
+
+  private joinWords(words: string[]): string {
+    return words.length > 1 ? `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}` : words[0];
+  }
+}
+
+/**
+ * Offline face detection and matching for development and tests.
+ *
+ * Detection returns the faces listed for the image in a fixture file
+ * (AI_LOCAL_FACE_FIXTURES), keyed by the image's perceptual hash as stored on the photo:
+ * `{ "<perceptualHash>": [{ "boundingBox": { "x", "y", "width", "height" }, "confidence" }] }`.
+ * Images without an entry have no faces. Matching compares perceptual hashes of face
+ * images held in memory, so the index is empty after a restart.
+ */
+export class LocalFaceProvider implements FaceDetectionProvider, FaceMatchingProvider {
+  readonly name = 'local';
+
+  private fixtures: Promise<Map<string, FaceDetection[]>> | null = null;
+  private index = new Map<string, { hash: string; externalImageId: string }>();
+
+  async detectFaces(image: Buffer): Promise<FaceDetection[]> {
+    const fixtures = await this.loadFixtures();
+    if (fixtures.size === 0) return [];
+
+    const hash = await PerceptualHash.compute(image);
+    let closest: { distance: number; faces: FaceDetection[] } | null = null;
+
+    for (const [fixtureHash, faces] of fixtures) {
+      const distance = PerceptualHash.distance(hash, fixtureHash);
+      if (distance <= FIXTURE_HASH_THRESHOLD && (!closest || distance < closest.distance)) {
+        closest = { distance, faces };
+      }
+    }
+
+    return closest ? closest.faces.map(face => ({ ...face, boundingBox: { ...face.boundingBox } })) : [];
+  }
+
+  async ensureReady(): Promise<void> {
+    await this.loadFixtures();
+  }
+
+  async indexFace(image: Buffer, externalImageId: string): Promise<string | null> {
+    const hash = await PerceptualHash.compute(image);
+    const faceId = `local-${hash}-${externalImageId}`;
+    this.index.set(faceId, { hash, externalImageId });
+    return faceId;
+  }
+
+  async searchFaces(image: Buffer): Promise<FaceMatch[]> {
+    const hash = await PerceptualHash.compute(image);
+
+    return Array.from(this.index.entries())
+      .map(([faceId, face]) => ({
+        faceId,
+        externalImageId: face.externalImageId,
+        distance: PerceptualHash.distance(hash, face.hash)
+      }))
+      .filter(match => match.distance <= MATCH_HASH_THRESHOLD)
+      .sort((a, b) => a.distance - b.distance || a.faceId.localeCompare(b.faceId))
+      .slice(0, 10)
+      .map(({ distance, ...match }) => ({
+        ...match,
+        similarity: Math.round((1 - distance / 64) * 100)
+      }));
+  }
+
+  /**
+   * Read the fixture file once; a missing setting means no faces anywhere
+   */
+  private loadFixtures(): Promise<Map<string, FaceDetection[]>> {
+    if (!this.fixtures) {
+      this.fixtures = this.readFixtures();
+      // Let a fixed file be picked up on the next call instead of caching the failure
+      this.fixtures.catch(() => {
+        this.fixtures = null;
+      });
+    }
+    return this.fixtures;
+  }
+
+  private async readFixtures(): Promise<Map<string, FaceDetection[]>> {
+    const fixturePath = process.env.AI_LOCAL_FACE_FIXTURES;
+    if (!fixturePath) return new Map();
+
+    const content = JSON.parse(await fs.readFile(path.resolve(fixturePath), 'utf8'));
+    if (!content || typeof content !== 'object' || Array.isArray(content)) {
+      throw new Error(`Face fixtures must map perceptual hashes to faces: ${fixturePath}`);
+    }
+
+    const fixtures = new Map<string, FaceDetection[]>();
+    for (const [hash, faces] of Object.entries(content)) {
+      if (!/^[0-9a-f]{16}$/i.test(hash) || !Array.isArray(faces)) {
+        throw new Error(`Invalid face fixture entry "${hash}" in ${fixturePath}`);
+      }
+      fixtures.set(hash.toLowerCase(), faces.map((face: any) => ({
+        boundingBox: {
+          x: Number(face.boundingBox?.x) || 0,
+          y: Number(face.boundingBox?.y) || 0,
+          width: Number(face.boundingBox?.width) || 0,
+          height: Number(face.boundingBox?.height) || 0
+        },
+        confidence: Number(face.confidence ?? 100)
+      })));
+    }
+
+    return fixtures;
+  }
+}
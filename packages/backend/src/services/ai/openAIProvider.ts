@@ -0,0 +1,155 @@
+import OpenAI from 'openai';
+import sharp from 'sharp';
+import { AIMetricsService } from '../aiMetricsService';
+import { AIResponseParser } from '../../utils/aiResponseParser';
+import { AIParseFailure, CaptionProvider, ImageAnalysis, MediaType } from '../../types';
+
+const RESPONSE_FORMAT = "{\"description\": \"...\", \"tags\": [\"tag1\", \"tag2\", ...]}";
+const PHOTO_PROMPT = `Analyze this travel photo and provide: 1) A descriptive caption (2-3 sentences), 2) Relevant tags for search (activities, objects, scenery, mood). Format as JSON: ${RESPONSE_FORMAT}`;
+const VIDEO_PROMPT = `These images are keyframes from one travel video, in order. Analyze the clip and provide: 1) A descriptive caption of what happens (2-3 sentences), 2) Relevant tags for search (activities, objects, scenery, mood). Format as JSON: ${RESPONSE_FORMAT}`;
+
+// Replies per analysis, counting corrective retries for replies that don't match the schema
+const MAX_ATTEMPTS = Math.max(1, parseInt(process.env.AI_RESPONSE_MAX_ATTEMPTS || '3'));
+
+interface OpenAIProviderOptions {
+  name: string;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+}
+
+/**
+ * Captions and tags from a vision chat model: OpenAI itself, or any server with an
+ * OpenAI-compatible API (e.g. Ollama, LM Studio, llama.cpp, vLLM) via its base URL.
+ */
+export class OpenAICaptionProvider implements CaptionProvider {
+  readonly name: string;
+
+  private client: OpenAI;
+  private model: string;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.model = options.model;
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL
+    });
+  }
+
+  /**
+   * OpenAI's hosted vision model (OPENAI_API_KEY)
+   */
+  static openAI(): OpenAICaptionProvider {
+    return new OpenAICaptionProvider({
+      name: 'openai',
+      model: process.env.OPENAI_VISION_MODEL || 'gpt-4-vision-preview',
+      apiKey: process.env.OPENAI_API_KEY
+    });
+  }
+
+  /**
+   * A vision model served locally (or elsewhere) behind an OpenAI-compatible API
+   */
+  static compatible(): OpenAICaptionProvider {
+    const baseURL = process.env.AI_COMPATIBLE_BASE_URL;
+    if (!baseURL) {
+      throw new Error('AI_COMPATIBLE_BASE_URL is not configured');
+    }
+
+    return new OpenAICaptionProvider({
+      name: 'openai-compatible',
+      model: process.env.AI_COMPATIBLE_MODEL || 'llava',
+      // Local servers usually ignore the key, but the client requires one
+      apiKey: process.env.AI_COMPATIBLE_API_KEY || 'not-needed',
+      baseURL
+    });
+  }
+
+  /**
+   * Ask the vision model for a caption and tags for one or more images. A reply that
+   * doesn't match the response schema is sent back with a corrective prompt, up to
+   * AI_RESPONSE_MAX_ATTEMPTS replies. Throws on failure so callers can record the
+   * failure instead of storing placeholder tags.
+   */
+  async analyze(images: Buffer[], mediaType: MediaType): Promise<ImageAnalysis> {
+    const isVideo = mediaType === 'video';
+    // Keyframes are sent smaller and at low detail to keep multi-image requests cheap
+    const imageUrls = await Promise.all(images.map(image => this.toDataUrl(image, isVideo ? 1024 : 2048)));
+
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: isVideo ? VIDEO_PROMPT : PHOTO_PROMPT
+          },
+          ...imageUrls.map(url => ({
+            type: "image_url" as const,
+            image_url: {
+              url,
+              detail: imageUrls.length > 1 ? "low" as const : "high" as const
+            }
+          }))
+        ]
+      }
+    ];
+    const failures: AIParseFailure[] = [];
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      let content: string;
+      try {
+        const response = await this.client.chat.completions.create({
+          model: this.model,
+          messages,
+          max_tokens: 300,
+          temperature: 0.3,
+        });
+        content = response.choices[0]?.message?.content || '';
+      } catch (error) {
+        console.error(`${this.name} analysis error:`, error);
+        if (failures.length > 0) {
+          AIMetricsService.recordAnalysis(this.name, failures, false);
+        }
+        throw new Error('Failed to analyze image');
+      }
+
+      const result = AIResponseParser.parseAnalysis(content);
+      if (result.ok) {
+        AIMetricsService.recordAnalysis(this.name, failures, true);
+        return result.value;
+      }
+
+      failures.push(result.failure);
+      console.warn(`${this.name} reply rejected (attempt ${attempt}/${MAX_ATTEMPTS}): ${result.error}`);
+
+      messages.push(
+        { role: "assistant", content },
+        {
+          role: "user",
+          content: `That reply could not be used: ${result.error}. Reply with only a JSON object of the form ${RESPONSE_FORMAT}, with no other text.`
+        }
+      );
+    }
+
+    AIMetricsService.recordAnalysis(this.name, failures, false);
+    throw new Error(`Invalid AI response after ${MAX_ATTEMPTS} attempts (${failures.join(', ')})`);
+  }
+
+  /**
+   * Encode an image as a downscaled JPEG data URL for vision models
+   */
+  private async toDataUrl(imageBuffer: Buffer, maxSize: number): Promise<string> {
+    const jpegBuffer = await sharp(imageBuffer)
+      .rotate()
+      .resize(maxSize, maxSize, {
+        fit: 'inside',
+        withoutEnlargement: true
+      })
+      .jpeg({ quality: 85 })
+      .toBuffer();
+
+    return `data:image/jpeg;base64,${jpegBuffer.toString('base64')}`;
+  }
+}
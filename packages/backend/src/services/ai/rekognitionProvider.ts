@@ -0,0 +1,145 @@
+import AWS from 'aws-sdk';
+import sharp from 'sharp';
+import { FaceDetection, FaceDetectionProvider, FaceMatch, FaceMatchingProvider } from '../../types';
+
+/**
+ * Face detection and matching with AWS Rekognition. Matching uses the collection
+ * named by AWS_REKOGNITION_COLLECTION_ID.
+ */
+export class RekognitionFaceProvider implements FaceDetectionProvider, FaceMatchingProvider {
+  readonly name = 'rekognition';
+
+  private rekognition: AWS.Rekognition;
+
+  constructor() {
+    this.rekognition = new AWS.Rekognition({
+      region: process.env.AWS_REGION || 'us-east-1',
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+    });
+  }
+
+  /**
+   * Detect faces. Throws on failure so "no faces" and "detection failed" stay distinguishable.
+   */
+  async detectFaces(imageBuffer: Buffer): Promise<FaceDetection[]> {
+    try {
+      // Rekognition ignores EXIF orientation; detect on the upright image so boxes match the display
+      const params = {
+        Image: {
+          Bytes: await sharp(imageBuffer).rotate().jpeg({ quality: 90 }).toBuffer()
+        },
+        Attributes: ['ALL']
+      };
+
+      const result = await this.rekognition.detectFaces(params).promise();
+
+      if (!result.FaceDetails) {
+        return [];
+      }
+
+      return result.FaceDetails.map(face => ({
+        boundingBox: {
+          x: face.BoundingBox?.Left || 0,
+          y: face.BoundingBox?.Top || 0,
+          width: face.BoundingBox?.Width || 0,
+          height: face.BoundingBox?.Height || 0
+        },
+        confidence: face.Confidence || 0
+      }));
+    } catch (error) {
+      console.error('Face detection error:', error);
+      throw new Error('Failed to detect faces');
+    }
+  }
+
+  /**
+   * Search faces in collection (for grouping/clustering)
+   */
+  async searchFaces(imageBuffer: Buffer): Promise<FaceMatch[]> {
+    try {
+      const params: AWS.Rekognition.SearchFacesByImageRequest = {
+        CollectionId: this.collectionId(),
+        Image: {
+          Bytes: imageBuffer
+        },
+        MaxFaces: 10,
+        FaceMatchThreshold: 80
+      };
+
+      const result = await this.rekognition.searchFacesByImage(params).promise();
+      return (result.FaceMatches || [])
+        .filter(match => match.Face?.FaceId)
+        .map(match => ({
+          faceId: match.Face!.FaceId!,
+          externalImageId: match.Face!.ExternalImageId,
+          similarity: match.Similarity || 0
+        }));
+    } catch (error: any) {
+      if (error.code === 'InvalidParameterException' && error.message.includes('No faces in image')) {
+        return [];
+      }
+      console.error('Face search error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Index a face to collection for future matching
+   */
+  async indexFace(imageBuffer: Buffer, externalImageId: string): Promise<string | null> {
+    try {
+      const params: AWS.Rekognition.IndexFacesRequest = {
+        CollectionId: this.collectionId(),
+        Image: {
+          Bytes: imageBuffer
+        },
+        ExternalImageId: externalImageId,
+        MaxFaces: 1,
+        QualityFilter: 'AUTO'
+      };
+
+      const result = await this.rekognition.indexFaces(params).promise();
+
+      if (result.FaceRecords && result.FaceRecords.length > 0) {
+        return result.FaceRecords[0].Face?.FaceId || null;
+      }
+
+      return null;
+    } catch (error) {
+      console.error('Face indexing error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Create Rekognition collection if it doesn't exist
+   */
+  async ensureReady(): Promise<void> {
+    try {
+      await this.rekognition.describeCollection({ CollectionId: this.collectionId() }).promise();
+    } catch (error: any) {
+      if (error.code === 'ResourceNotFoundException') {
+        // Collection doesn't exist, create it
+        try {
+          await this.rekognition.createCollection({
+            CollectionId: this.collectionId()
+          }).promise();
+          console.log('Created Rekognition collection');
+        } catch (createError) {
+          console.error('Failed to create Rekognition collection:', createError);
+        }
+      } else {
+        console.error('Error checking Rekognition collection:', error);
+      }
+    }
+  }
+
+  private collectionId(): string {
+    const collectionId = process.env.AWS_REKOGNITION_COLLECTION_ID;
+    if (!collectionId) {
+      throw new Error('Rekognition collection ID not configured');
+    }
+    return collectionId;
+  }
+}
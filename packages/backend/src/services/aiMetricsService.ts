@@ -0,0 +1,73 @@
+import { AIParseFailure, AIResponseMetrics } from '../types';
+
+interface ProviderCounters {
+  analyses: number;
+  responses: number;
+  parseFailures: Record<AIParseFailure, number>;
+  repaired: number;
+  failed: number;
+}
+
+// Kept in memory per process; counts restart with the server
+const counters = new Map<string, ProviderCounters>();
+const startedAt = new Date();
+
+/**
+ * Counts how often caption providers' replies fail to parse, get repaired by a
+ * corrective retry, or fail for good
+ */
+export class AIMetricsService {
+  /**
+   * Record one analysis: the parse failure of each rejected reply, in order, and
+   * whether a reply was finally accepted
+   */
+  static recordAnalysis(provider: string, failures: AIParseFailure[], succeeded: boolean): void {
+    const entry = this.countersFor(provider);
+    entry.analyses++;
+    entry.responses += failures.length + (succeeded ? 1 : 0);
+
+    for (const failure of failures) {
+      entry.parseFailures[failure]++;
+    }
+
+    if (!succeeded) {
+      entry.failed++;
+    } else if (failures.length > 0) {
+      entry.repaired++;
+    }
+  }
+
+  /**
+   * Counters per provider since the server started
+   */
+  static getMetrics(): { since: Date; providers: AIResponseMetrics[] } {
+    const providers = Array.from(counters.entries()).map(([provider, entry]) => {
+      const totalFailures = Object.values(entry.parseFailures).reduce((sum, count) => sum + count, 0);
+
+      return {
+        provider,
+        ...entry,
+        parseFailures: { ...entry.parseFailures },
+        parseFailureRate: entry.responses > 0 ? totalFailures / entry.responses : 0,
+        failureRate: entry.analyses > 0 ? entry.failed / entry.analyses : 0
+      };
+    });
+
+    return { since: startedAt, providers };
+  }
+
+  private static countersFor(provider: string): ProviderCounters {
+    let entry = counters.get(provider);
+    if (!entry) {
+      entry = {
+        analyses: 0,
+        responses: 0,
+        parseFailures: { no_json: 0, invalid_json: 0, schema: 0 },
+        repaired: 0,
+        failed: 0
+      };
+      counters.set(provider, entry);
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,30 @@
+import { AIService } from './aiService';
+import { CaptionProvider } from '../types';
+
+describe('AIService', () => {
+  const provider: CaptionProvider = { name: 'test', analyze: jest.fn() };
+
+  beforeEach(() => {
+    jest.spyOn(AIService, 'getCaptionProvider').mockReturnValue(provider);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns analyses with tags', async () => {
+    (provider.analyze as jest.Mock).mockResolvedValue({ description: 'A beach.', tags: ['beach'] });
+
+    await expect(AIService.describeImage(Buffer.from('image'))).resolves.toEqual({
+      description: 'A beach.',
+      tags: ['beach']
+    });
+  });
+
+  it('fails analyses without tags instead of storing them', async () => {
+    (provider.analyze as jest.Mock).mockResolvedValue({ description: 'A photo.', tags: [] });
+
+    await expect(AIService.describeImage(Buffer.from('image'))).rejects.toThrow('Caption provider "test" returned no tags');
+    await expect(AIService.describeVideo([Buffer.from('frame')])).rejects.toThrow('returned no tags');
+  });
+});
@@ -1,215 +1,149 @@
-import OpenAI from 'openai';
-import AWS from 'aws-sdk';
-import { AIAnalysisResult, FaceDetection } from '../types';
-
-// Initialize AI services
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-const rekognition = new AWS.Rekognition({
-  region: process.env.AWS_REGION || 'us-east-1',
-  accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-  secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
-});
+import {
+  AIAnalysisResult,
+  CaptionProvider,
+  FaceDetection,
+  FaceDetectionProvider,
+  FaceMatch,
+  FaceMatchingProvider,
+  ImageAnalysis
+} from '../types';
+import { OpenAICaptionProvider } from './ai/openAIProvider';
+import { RekognitionFaceProvider } from './ai/rekognitionProvider';
+import { LocalCaptionProvider, LocalFaceProvider } from './ai/localProvider';
+
+let captionProvider: CaptionProvider | null = null;
+let faceDetectionProvider: FaceDetectionProvider | null = null;
+let faceMatchingProvider: FaceMatchingProvider | null = null;
+
+// One instance per provider class, so detection and matching can share a client
+let rekognitionProvider: RekognitionFaceProvider | null = null;
+let localFaceProvider: LocalFaceProvider | null = null;
 
 export class AIService {
   /**
-   * Analyze image using OpenAI GPT-4 Vision for description and scene understanding
+   * Get the configured captioning/tagging provider
+   * (AI_CAPTION_PROVIDER=openai|openai-compatible|local)
    */
-  static async analyzeImageWithOpenAI(imageUrl: string): Promise<{ description: string; tags: string[] }> {
-    try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4-vision-preview",
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: "Analyze this travel photo and provide: 1) A descriptive caption (2-3 sentences), 2) Relevant tags for search (activities, objects, scenery, mood). Format as JSON: {\"description\": \"...\", \"tags\": [\"tag1\", \"tag2\", ...]}"
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: imageUrl,
-                  detail: "high"
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 300,
-        temperature: 0.3,
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No content received from OpenAI');
+  static getCaptionProvider(): CaptionProvider {
+    if (!captionProvider) {
+      const providerName = process.env.AI_CAPTION_PROVIDER || 'openai';
+      switch (providerName) {
+        case 'openai':
+          captionProvider = OpenAICaptionProvider.openAI();
+          break;
+        case 'openai-compatible':
+          captionProvider = OpenAICaptionProvider.compatible();
+          break;
+        case 'local':
+          captionProvider = new LocalCaptionProvider();
+          break;
+        default:
+          throw new Error(`Unknown caption provider: ${providerName}`);
       }
-
-      // Parse JSON response
-      const result = JSON.parse(content);
-      return {
-        description: result.description || 'Travel photo',
-        tags: Array.isArray(result.tags) ? result.tags : []
-      };
-    } catch (error) {
-      console.error('OpenAI analysis error:', error);
-      return {
-        description: 'Travel photo',
-        tags: ['travel', 'photo']
-      };
     }
+    return captionProvider;
   }
 
   /**
-   * Detect faces using AWS Rekognition
+   * Get the configured face detection provider (AI_FACE_PROVIDER=rekognition|local)
    */
-  static async detectFaces(imageBuffer: Buffer): Promise<FaceDetection[]> {
-    try {
-      const params = {
-        Image: {
-          Bytes: imageBuffer
-        },
-        Attributes: ['ALL']
-      };
-
-      const result = await rekognition.detectFaces(params).promise();
-      
-      if (!result.FaceDetails) {
-        return [];
-      }
+  static getFaceDetectionProvider(): FaceDetectionProvider {
+    if (!faceDetectionProvider) {
+      faceDetectionProvider = this.getFaceProvider(process.env.AI_FACE_PROVIDER || 'rekognition');
+    }
+    return faceDetectionProvider;
+  }
 
-      return result.FaceDetails.map(face => ({
-        boundingBox: {
-          x: face.BoundingBox?.Left || 0,
-          y: face.BoundingBox?.Top || 0,
-          width: face.BoundingBox?.Width || 0,
-          height: face.BoundingBox?.Height || 0
-        },
-        confidence: face.Confidence || 0
-      }));
-    } catch (error) {
-      console.error('Face detection error:', error);
-      return [];
+  /**
+   * Get the configured face matching provider (AI_FACE_MATCH_PROVIDER=rekognition|local)
+   */
+  static getFaceMatchingProvider(): FaceMatchingProvider {
+    if (!faceMatchingProvider) {
+      faceMatchingProvider = this.getFaceProvider(process.env.AI_FACE_MATCH_PROVIDER || 'rekognition');
     }
+    return faceMatchingProvider;
   }
 
   /**
-   * Search faces in collection (for grouping/clustering)
+   * Caption and tag a photo. Throws on failure so callers can record the failure
+   * instead of storing placeholder tags.
    */
-  static async searchFacesByImage(imageBuffer: Buffer, faceId?: string): Promise<AWS.Rekognition.FaceMatch[]> {
-    try {
-      const collectionId = process.env.AWS_REKOGNITION_COLLECTION_ID;
-      if (!collectionId) {
-        throw new Error('Rekognition collection ID not configured');
-      }
+  static async describeImage(imageBuffer: Buffer): Promise<{ description: string; tags: string[] }> {
+    return this.checkAnalysis(await this.getCaptionProvider().analyze([imageBuffer], 'image'));
+  }
 
-      const params: AWS.Rekognition.SearchFacesByImageRequest = {
-        CollectionId: collectionId,
-        Image: {
-          Bytes: imageBuffer
-        },
-        MaxFaces: 10,
-        FaceMatchThreshold: 80
-      };
+  /**
+   * Caption and tag a video clip from a few representative keyframes (in playback order)
+   */
+  static async describeVideo(frames: Buffer[]): Promise<{ description: string; tags: string[] }> {
+    return this.checkAnalysis(await this.getCaptionProvider().analyze(frames, 'video'));
+  }
 
-      const result = await rekognition.searchFacesByImage(params).promise();
-      return result.FaceMatches || [];
-    } catch (error) {
-      if (error.code === 'InvalidParameterException' && error.message.includes('No faces in image')) {
-        return [];
-      }
-      console.error('Face search error:', error);
-      return [];
-    }
+  /**
+   * Detect faces. Throws on failure so "no faces" and "detection failed" stay distinguishable.
+   */
+  static async detectFaces(imageBuffer: Buffer): Promise<FaceDetection[]> {
+    return this.getFaceDetectionProvider().detectFaces(imageBuffer);
   }
 
   /**
-   * Index a face to collection for future matching
+   * Search indexed faces similar to the face in an image (for grouping/clustering)
    */
-  static async indexFace(imageBuffer: Buffer, externalImageId: string): Promise<string | null> {
-    try {
-      const collectionId = process.env.AWS_REKOGNITION_COLLECTION_ID;
-      if (!collectionId) {
-        throw new Error('Rekognition collection ID not configured');
-      }
+  static async searchFacesByImage(imageBuffer: Buffer): Promise<FaceMatch[]> {
+    return this.getFaceMatchingProvider().searchFaces(imageBuffer);
+  }
 
-      const params: AWS.Rekognition.IndexFacesRequest = {
-        CollectionId: collectionId,
-        Image: {
-          Bytes: imageBuffer
-        },
-        ExternalImageId: externalImageId,
-        MaxFaces: 1,
-        QualityFilter: 'AUTO'
-      };
+  /**
+   * Index a face for future matching
+   */
+  static async indexFace(imageBuffer: Buffer, externalImageId: string): Promise<string | null> {
+    return this.getFaceMatchingProvider().indexFace(imageBuffer, externalImageId);
+  }
 
-      const result = await rekognition.indexFaces(params).promise();
-      
-      if (result.FaceRecords && result.FaceRecords.length > 0) {
-        return result.FaceRecords[0].Face?.FaceId || null;
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('Face indexing error:', error);
-      return null;
-    }
+  /**
+   * Complete AI analysis of an image. Throws if either analysis fails rather than
+   * returning placeholder tags, which would otherwise end up in search.
+   */
+  static async analyzeImage(imageBuffer: Buffer): Promise<AIAnalysisResult> {
+    // Run both analyses in parallel
+    const [analysis, faces] = await Promise.all([
+      this.describeImage(imageBuffer),
+      this.detectFaces(imageBuffer)
+    ]);
+
+    return {
+      description: analysis.description,
+      tags: analysis.tags,
+      faces
+    };
   }
 
   /**
-   * Complete AI analysis of an image
+   * Prepare the face match index (e.g. create the Rekognition collection if it doesn't exist)
    */
-  static async analyzeImage(imageUrl: string, imageBuffer: Buffer): Promise<AIAnalysisResult> {
-    try {
-      // Run both analyses in parallel
-      const [openAIResult, faces] = await Promise.all([
-        this.analyzeImageWithOpenAI(imageUrl),
-        this.detectFaces(imageBuffer)
-      ]);
+  static async ensureCollectionExists(): Promise<void> {
+    await this.getFaceMatchingProvider().ensureReady();
+  }
 
-      return {
-        description: openAIResult.description,
-        tags: openAIResult.tags,
-        faces
-      };
-    } catch (error) {
-      console.error('Complete image analysis error:', error);
-      return {
-        description: 'Travel photo',
-        tags: ['travel', 'photo'],
-        faces: []
-      };
+  private static getFaceProvider(providerName: string): FaceDetectionProvider & FaceMatchingProvider {
+    switch (providerName) {
+      case 'rekognition':
+        return rekognitionProvider ??= new RekognitionFaceProvider();
+      case 'local':
+        return localFaceProvider ??= new LocalFaceProvider();
+      default:
+        throw new Error(`Unknown face provider: ${providerName}`);
     }
   }
 
   /**
-   * Create Rekognition collection if it doesn't exist
+   * Reject an analysis without tags, so the step is recorded as failed rather than done
+   * with nothing to search by
    */
-  static async ensureCollectionExists(): Promise<void> {
-    try {
-      const collectionId = process.env.AWS_REKOGNITION_COLLECTION_ID;
-      if (!collectionId) {
-        throw new Error('Rekognition collection ID not configured');
-      }
-
-      await rekognition.describeCollection({ CollectionId: collectionId }).promise();
-    } catch (error) {
-      if (error.code === 'ResourceNotFoundException') {
-        // Collection doesn't exist, create it
-        try {
-          await rekognition.createCollection({
-            CollectionId: process.env.AWS_REKOGNITION_COLLECTION_ID!
-          }).promise();
-          console.log('Created Rekognition collection');
-        } catch (createError) {
-          console.error('Failed to create Rekognition collection:', createError);
-        }
-      } else {
-        console.error('Error checking Rekognition collection:', error);
-      }
+  private static checkAnalysis(analysis: ImageAnalysis): ImageAnalysis {
+    if (analysis.tags.length === 0) {
+      throw new Error(`Caption provider "${this.getCaptionProvider().name}" returned no tags`);
     }
+    return analysis;
   }
-}
\ No newline at end of file
+}
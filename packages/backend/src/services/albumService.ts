@@ -0,0 +1,125 @@
+import { CaptureTime } from '../utils/captureTime';
+import { prisma } from '../index';
+import { AlbumCriteria } from '../types';
+
+export class AlbumService {
+  /**
+   * Resolve a requested date range into inclusive bounds on local capture time.
+   * Date-only values are whole days, so "2024-03-01" to "2024-03-10" covers both days.
+   */
+  static resolveDateRange(range: { start: string | Date; end: string | Date }): { start: Date; end: Date } {
+    const toString = (value: string | Date) => value instanceof Date ? value.toISOString() : value;
+    const filter = CaptureTime.localDateFilter(toString(range.start), toString(range.end))!;
+
+    return {
+      start: filter.gte!,
+      end: filter.lt ? new Date(filter.lt.getTime() - 1) : filter.lte!
+    };
+  }
+
+  /**
+   * Photo filter for album criteria. The date range holds resolved, inclusive bounds.
+   */
+  static criteriaWhere(userId: string, criteria: AlbumCriteria) {
+    const filters: any = {
+      userId,
+      deletedAt: null
+    };
+
+    if (criteria.dateRange) {
+      filters.dateTakenLocal = {
+        gte: new Date(criteria.dateRange.start),
+        lte: new Date(criteria.dateRange.end)
+      };
+    }
+
+    if (criteria.location) {
+      filters.OR = [
+        { location: { contains: criteria.location, mode: 'insensitive' } },
+        { country: { contains: criteria.location, mode: 'insensitive' } },
+        { city: { contains: criteria.location, mode: 'insensitive' } }
+      ];
+    }
+
+    if (criteria.tags && criteria.tags.length > 0) {
+      filters.tags = {
+        hasSome: criteria.tags
+      };
+    }
+
+    if (criteria.peopleIds && criteria.peopleIds.length > 0) {
+      filters.faces = {
+        some: {
+          faceGroupId: {
+            in: criteria.peopleIds
+          }
+        }
+      };
+    }
+
+    return filters;
+  }
+
+  /**
+   * Re-match auto-generated albums with a date range after the capture times of some
+   * photos changed: photos now outside an album's criteria leave it, photos now inside join it.
+   */
+  static async refreshDateRanges(userId: string, photoIds: string[]): Promise<{ added: number; removed: number }> {
+    const albums = (await prisma.album.findMany({
+      where: { userId, isAutoGenerated: true },
+      select: { id: true, dateRange: true, location: true, peopleIds: true }
+    })).filter(album => album.dateRange);
+
+    let added = 0;
+    let removed = 0;
+
+    for (const album of albums) {
+      const [matching, members, last] = await Promise.all([
+        prisma.photo.findMany({
+          where: {
+            ...this.criteriaWhere(userId, album as AlbumCriteria),
+            id: { in: photoIds }
+          },
+          select: { id: true }
+        }),
+        prisma.albumPhoto.findMany({
+          where: { albumId: album.id, photoId: { in: photoIds } },
+          select: { photoId: true }
+        }),
+        prisma.albumPhoto.findFirst({
+          where: { albumId: album.id },
+          orderBy: { order: 'desc' },
+          select: { order: true }
+        })
+      ]);
+
+      const matchingIds = new Set(matching.map(photo => photo.id));
+      const memberIds = new Set(members.map(member => member.photoId));
+      const leaving = members.filter(member => !matchingIds.has(member.photoId)).map(member => member.photoId);
+      const joining = matching.filter(photo => !memberIds.has(photo.id)).map(photo => photo.id);
+
+      if (leaving.length > 0) {
+        await prisma.albumPhoto.deleteMany({
+          where: { albumId: album.id, photoId: { in: leaving } }
+        });
+      }
+
+      if (joining.length > 0) {
+        const nextOrder = (last?.order ?? -1) + 1;
+        await prisma.albumPhoto.createMany({
+          data: joining.map((photoId, index) => ({
+            albumId: album.id,
+            photoId,
+            order: nextOrder + index
+          })),
+          skipDuplicates: true
+        });
+      }
+
+      added += joining.length;
+      removed += leaving.length;
+    }
+
+    return { added, removed };
+  }
+}
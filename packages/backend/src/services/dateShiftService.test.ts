@@ -0,0 +1,120 @@
+import { DateShift } from '@prisma/client';
+import { DateShiftService } from './dateShiftService';
+import { AlbumService } from './albumService';
+import { LocationInferenceService } from './locationInferenceService';
+import { StackService } from './stackService';
+import { prisma } from '../index';
+
+jest.mock('../index', () => ({
+  prisma: {
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+    photo: {
+      findMany: jest.fn(),
+      update: jest.fn()
+    },
+    dateShift: {
+      update: jest.fn()
+    },
+    locationProposal: {
+      count: jest.fn()
+    }
+  }
+}));
+
+const db = prisma as unknown as {
+  photo: { findMany: jest.Mock; update: jest.Mock };
+  dateShift: { update: jest.Mock };
+  locationProposal: { count: jest.Mock };
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Three photos shifted forward by an hour
+function shift(overrides: Partial<DateShift> = {}): DateShift {
+  return {
+    id: 'shift-1',
+    userId: 'user-1',
+    offsetSeconds: 3600,
+    status: 'applied',
+    photoCount: 3,
+    changes: ['photo-1', 'photo-2', 'photo-3'].map(photoId => ({
+      photoId,
+      dateTaken: '2024-06-01T10:00:00.000Z',
+      dateTakenLocal: '2024-06-01T12:00:00.000Z'
+    })),
+    createdAt: new Date(),
+    undoneAt: null,
+    ...overrides
+  } as DateShift;
+}
+
+describe('DateShiftService', () => {
+  let run: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(StackService, 'removeFromStack').mockResolvedValue(undefined as any);
+    jest.spyOn(StackService, 'assignStack').mockResolvedValue(null as any);
+    jest.spyOn(AlbumService, 'refreshDateRanges').mockResolvedValue(undefined as any);
+    run = jest.spyOn(LocationInferenceService, 'run').mockResolvedValue({ scanned: 0, proposed: 0 });
+    db.photo.update.mockResolvedValue({});
+    db.dateShift.update.mockResolvedValue({});
+    db.locationProposal.count.mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('undo', () => {
+    it('restores photos still at their shifted time and skips the rest', async () => {
+      const shifted = new Date(Date.parse('2024-06-01T10:00:00Z') + HOUR_MS);
+      db.photo.findMany
+        .mockResolvedValueOnce([
+          { id: 'photo-1', dateTaken: shifted },
+          // Changed again after the shift
+          { id: 'photo-2', dateTaken: new Date(shifted.getTime() + HOUR_MS) }
+          // photo-3 was deleted
+        ])
+        .mockResolvedValueOnce([{ id: 'photo-1' }]);
+
+      await expect(DateShiftService.undo(shift())).resolves.toEqual({
+        restored: 1,
+        skipped: ['photo-2', 'photo-3']
+      });
+
+      expect(db.photo.update).toHaveBeenCalledTimes(1);
+      expect(db.photo.update).toHaveBeenCalledWith({
+        where: { id: 'photo-1' },
+        data: {
+          dateTaken: new Date('2024-06-01T10:00:00.000Z'),
+          dateTakenLocal: new Date('2024-06-01T12:00:00.000Z')
+        }
+      });
+      expect(db.dateShift.update).toHaveBeenCalledWith({
+        where: { id: 'shift-1' },
+        data: { status: 'undone', undoneAt: expect.any(Date) }
+      });
+    });
+
+    it('re-matches stacks, albums and pending proposals for the restored photos', async () => {
+      const shifted = new Date(Date.parse('2024-06-01T10:00:00Z') + HOUR_MS);
+      db.photo.findMany
+        .mockResolvedValueOnce([{ id: 'photo-1', dateTaken: shifted }])
+        .mockResolvedValueOnce([{ id: 'photo-1' }]);
+      db.locationProposal.count.mockResolvedValue(2);
+
+      await DateShiftService.undo(shift());
+
+      expect(StackService.removeFromStack).toHaveBeenCalledWith('photo-1');
+      expect(StackService.assignStack).toHaveBeenCalledWith({ id: 'photo-1' });
+      expect(AlbumService.refreshDateRanges).toHaveBeenCalledWith('user-1', ['photo-1']);
+      expect(run).toHaveBeenCalledWith('user-1');
+    });
+
+    it('refuses to undo a shift twice', async () => {
+      await expect(DateShiftService.undo(shift({ status: 'undone' }))).rejects.toMatchObject({ statusCode: 409 });
+      expect(db.photo.update).not.toHaveBeenCalled();
+    });
+  });
+});
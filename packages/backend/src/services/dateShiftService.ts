@@ -0,0 +1,244 @@
+import { DateShift, Prisma } from '@prisma/client';
+import { AlbumService } from './albumService';
+import { LocationInferenceService } from './locationInferenceService';
+import { StackService } from './stackService';
+import { CaptureTime } from '../utils/captureTime';
+import { createError } from '../middleware/errorHandler';
+import { prisma } from '../index';
+import { DateShiftChange, DateShiftPreview, DateShiftRequest } from '../types';
+
+const MAX_DATE_SHIFT_PHOTOS = parseInt(process.env.MAX_DATE_SHIFT_PHOTOS || '5000');
+
+/**
+ * Shifts the capture times of many photos at once, e.g. when a camera clock was
+ * set to the wrong time zone for a trip. Every shift can be undone.
+ */
+export class DateShiftService {
+  /**
+   * Show how a shift would change each selected photo, without writing anything
+   */
+  static async preview(userId: string, request: DateShiftRequest): Promise<DateShiftPreview> {
+    const offsetSeconds = await this.resolveOffset(userId, request);
+    const photos = await this.selectPhotos(userId, request);
+    const shift = (date: Date | null) => date && new Date(date.getTime() + offsetSeconds * 1000);
+
+    return {
+      offsetSeconds,
+      photos: photos.map(photo => ({
+        photoId: photo.id,
+        fileName: photo.fileName,
+        before: {
+          dateTaken: photo.dateTaken!,
+          dateTakenLocal: photo.dateTakenLocal
+        },
+        after: {
+          dateTaken: shift(photo.dateTaken)!,
+          dateTakenLocal: shift(photo.dateTakenLocal)
+        }
+      }))
+    };
+  }
+
+  /**
+   * Shift the selected photos' capture times and re-match everything that depends on them
+   */
+  static async apply(userId: string, request: DateShiftRequest): Promise<DateShift> {
+    const { offsetSeconds, photos } = await this.preview(userId, request);
+
+    if (offsetSeconds === 0) {
+      throw createError('The offset is zero; nothing to shift', 400);
+    }
+
+    if (photos.length === 0) {
+      throw createError('No photos with a capture date match the selection', 400);
+    }
+
+    const changes: DateShiftChange[] = photos.map(photo => ({
+      photoId: photo.photoId,
+      dateTaken: photo.before.dateTaken.toISOString(),
+      dateTakenLocal: photo.before.dateTakenLocal?.toISOString() || null
+    }));
+
+    const [shift] = await prisma.$transaction([
+      prisma.dateShift.create({
+        data: {
+          userId,
+          offsetSeconds,
+          changes: changes as unknown as Prisma.InputJsonValue,
+          photoCount: changes.length
+        }
+      }),
+      ...photos.map(photo => prisma.photo.update({
+        where: { id: photo.photoId },
+        data: photo.after
+      }))
+    ]);
+
+    await this.rematch(userId, photos.map(photo => photo.photoId));
+    return shift;
+  }
+
+  /**
+   * Restore the capture times from before a shift. Photos whose time was changed
+   * again since, or that were deleted, are skipped.
+   */
+  static async undo(shift: DateShift): Promise<{ restored: number; skipped: string[] }> {
+    if (shift.status === 'undone') {
+      throw createError('This date shift was already undone', 409);
+    }
+
+    const changes = shift.changes as unknown as DateShiftChange[];
+    const current = await prisma.photo.findMany({
+      where: { id: { in: changes.map(change => change.photoId) } },
+      select: { id: true, dateTaken: true }
+    });
+    const currentTimes = new Map(current.map(photo => [photo.id, photo.dateTaken?.getTime()]));
+
+    const restorable = changes.filter(change =>
+      currentTimes.get(change.photoId) === new Date(change.dateTaken).getTime() + shift.offsetSeconds * 1000
+    );
+    const skipped = changes
+      .filter(change => !restorable.includes(change))
+      .map(change => change.photoId);
+
+    await prisma.$transaction([
+      ...restorable.map(change => prisma.photo.update({
+        where: { id: change.photoId },
+        data: {
+          dateTaken: new Date(change.dateTaken),
+          dateTakenLocal: change.dateTakenLocal ? new Date(change.dateTakenLocal) : null
+        }
+      })),
+      prisma.dateShift.update({
+        where: { id: shift.id },
+        data: { status: 'undone', undoneAt: new Date() }
+      })
+    ]);
+
+    await this.rematch(shift.userId, restorable.map(change => change.photoId));
+    return { restored: restorable.length, skipped };
+  }
+
+  /**
+   * Offset in seconds: given directly, or the difference between a photo and a reference
+   * photo (or time) taken at the same moment. Alignment compares local capture times
+   * when both have one, since that is what the camera clock showed.
+   */
+  private static async resolveOffset(userId: string, request: DateShiftRequest): Promise<number> {
+    if (!request.align) {
+      if (typeof request.offsetSeconds !== 'number' || !Number.isFinite(request.offsetSeconds)) {
+        throw createError('offsetSeconds or align is required', 400);
+      }
+      return Math.round(request.offsetSeconds);
+    }
+
+    const { photoId, referencePhotoId, dateTaken } = request.align;
+    const findPhoto = (id: string) => prisma.photo.findFirst({
+      where: { id, userId, deletedAt: null },
+      select: { dateTaken: true, dateTakenLocal: true }
+    });
+
+    const photo = await findPhoto(photoId);
+    if (!photo?.dateTaken) {
+      throw createError('Photo to align not found or has no capture date', 404);
+    }
+
+    if (referencePhotoId) {
+      const reference = await findPhoto(referencePhotoId);
+      if (!reference?.dateTaken) {
+        throw createError('Reference photo not found or has no capture date', 404);
+      }
+
+      const [from, to] = photo.dateTakenLocal && reference.dateTakenLocal
+        ? [photo.dateTakenLocal, reference.dateTakenLocal]
+        : [photo.dateTaken, reference.dateTaken];
+      return Math.round((to.getTime() - from.getTime()) / 1000);
+    }
+
+    const target = dateTaken ? new Date(dateTaken) : null;
+    if (!target || isNaN(target.getTime())) {
+      throw createError('align needs a referencePhotoId or a valid dateTaken', 400);
+    }
+
+    return Math.round((target.getTime() - photo.dateTaken.getTime()) / 1000);
+  }
+
+  /**
+   * Photos with a capture date matching `photoIds` or `filter` (camera and local date range)
+   */
+  private static async selectPhotos(userId: string, request: DateShiftRequest) {
+    const where: any = {
+      userId,
+      deletedAt: null,
+      dateTaken: { not: null }
+    };
+
+    if (request.photoIds !== undefined) {
+      if (!Array.isArray(request.photoIds) || request.photoIds.length === 0) {
+        throw createError('photoIds must be a non-empty array', 400);
+      }
+      where.id = { in: request.photoIds };
+    } else if (request.filter) {
+      const { cameraMake, cameraModel, dateFrom, dateTo } = request.filter;
+      if (!cameraMake && !cameraModel && !dateFrom && !dateTo) {
+        throw createError('filter needs a camera or a date range', 400);
+      }
+
+      if (cameraMake) {
+        where.cameraMake = { equals: cameraMake, mode: 'insensitive' };
+      }
+      if (cameraModel) {
+        where.cameraModel = { equals: cameraModel, mode: 'insensitive' };
+      }
+      if (dateFrom || dateTo) {
+        where.dateTakenLocal = CaptureTime.localDateFilter(dateFrom, dateTo);
+      }
+    } else {
+      throw createError('photoIds or filter is required', 400);
+    }
+
+    const photos = await prisma.photo.findMany({
+      where,
+      select: { id: true, fileName: true, dateTaken: true, dateTakenLocal: true },
+      orderBy: { dateTaken: 'asc' },
+      take: MAX_DATE_SHIFT_PHOTOS + 1
+    });
+
+    if (photos.length > MAX_DATE_SHIFT_PHOTOS) {
+      throw createError(`The selection matches more than ${MAX_DATE_SHIFT_PHOTOS} photos; narrow it down`, 400);
+    }
+
+    return photos;
+  }
+
+  /**
+   * Re-match what depends on capture time: burst stacks, auto-generated album date
+   * ranges and pending location proposals. The timeline is computed on request.
+   */
+  private static async rematch(userId: string, photoIds: string[]): Promise<void> {
+    for (const photoId of photoIds) {
+      await StackService.removeFromStack(photoId);
+    }
+
+    const photos = await prisma.photo.findMany({
+      where: { id: { in: photoIds }, deletedAt: null }
+    });
+
+    for (const photo of photos) {
+      try {
+        await StackService.assignStack(photo);
+      } catch (error) {
+        console.error('Stack assignment error for photo:', photo.id, error);
+      }
+    }
+
+    await AlbumService.refreshDateRanges(userId, photoIds);
+
+    const pendingProposals = await prisma.locationProposal.count({
+      where: { userId, status: 'pending' }
+    });
+    if (pendingProposals > 0) {
+      await LocationInferenceService.run(userId);
+    }
+  }
+}
@@ -0,0 +1,241 @@
+import path from 'path';
+import { Writable } from 'stream';
+import archiver from 'archiver';
+import sharp from 'sharp';
+import { Face, Photo } from '@prisma/client';
+import { StorageService } from './storageService';
+import { ExifExtractor } from '../utils/exifExtractor';
+import { MetadataWriter } from '../utils/metadataWriter';
+import { TempFiles } from '../utils/tempFiles';
+import { VideoProcessor } from '../utils/videoProcessor';
+import { ExportFile, ExportMetadata, ExportMetadataMode, PersonRegion } from '../types';
+
+export type ExportPhoto = Photo & {
+  faces: Array<Face & { faceGroup: { name: string | null } | null }>;
+};
+
+/**
+ * Builds downloads and album exports that carry the library's curated metadata
+ * (capture time, location, captions, keywords, people), or for sharing, files with
+ * location and device metadata stripped.
+ *
+ * JPEGs are rewritten in place without re-encoding. Other originals can't be rewritten
+ * safely, so they come with an XMP sidecar instead; stripped, images are shared as JPEG
+ * and videos are copied without their container metadata.
+ */
+export class ExportService {
+  /**
+   * Prisma `include` for the faces and names written as person regions
+   */
+  static readonly photoInclude = {
+    faces: {
+      include: {
+        faceGroup: { select: { name: true } }
+      }
+    }
+  };
+
+  /**
+   * Parse the `metadata` query value (defaults to embed)
+   */
+  static parseMode(value: unknown): ExportMetadataMode | null {
+    if (value === undefined) return 'embed';
+    return value === 'embed' || value === 'strip' ? value : null;
+  }
+
+  /**
+   * The photo's file(s) for download: the (re)written file, followed by an XMP sidecar
+   * when the metadata couldn't be embedded. Video contents are temp file paths the
+   * caller removes.
+   */
+  static async exportPhoto(photo: ExportPhoto, mode: ExportMetadataMode): Promise<ExportFile[]> {
+    const metadata = this.metadataFor(photo, mode);
+    const strip = mode === 'strip';
+
+    if (photo.mediaType === 'video') {
+      return this.exportVideo(photo, metadata, strip);
+    }
+
+    if (photo.mimeType === 'image/jpeg') {
+      const original = await StorageService.getImageBuffer(photo.s3Key);
+      metadata.orientation = await ExifExtractor.getOrientation(original);
+
+      return [{
+        fileName: photo.fileName,
+        mimeType: photo.mimeType,
+        content: MetadataWriter.writeJpeg(original, metadata, strip)
+      }];
+    }
+
+    if (strip) {
+      // An upright JPEG of the display image, since the original can't be cleaned in place
+      const jpeg = await sharp(await StorageService.getDisplayImageBuffer(photo))
+        .rotate()
+        .jpeg({ quality: 92 })
+        .toBuffer();
+
+      return [{
+        fileName: `${path.parse(photo.fileName).name}.jpg`,
+        mimeType: 'image/jpeg',
+        content: MetadataWriter.writeJpeg(jpeg, metadata, true)
+      }];
+    }
+
+    return [
+      {
+        fileName: photo.fileName,
+        mimeType: photo.mimeType,
+        content: await StorageService.getImageBuffer(photo.s3Key)
+      },
+      this.sidecarFile(photo.fileName, metadata)
+    ];
+  }
+
+  /**
+   * XMP sidecar for a photo, named "<fileName>.xmp" so it matches only that file
+   */
+  static sidecar(photo: ExportPhoto, mode: ExportMetadataMode): ExportFile {
+    return this.sidecarFile(photo.fileName, this.metadataFor(photo, mode));
+  }
+
+  /**
+   * Stream a ZIP of the photos' exported files. Photos that fail are logged and left out.
+   */
+  static async writeArchive(photos: ExportPhoto[], mode: ExportMetadataMode, output: Writable): Promise<void> {
+    // JPEGs and videos are already compressed
+    const archive = archiver('zip', { store: true });
+    const failed = new Promise<never>((_, reject) => archive.on('error', reject));
+    failed.catch(() => undefined);
+    archive.pipe(output);
+
+    const usedNames = new Map<string, number>();
+    const uniqueName = (fileName: string) => {
+      const key = fileName.toLowerCase();
+      const count = (usedNames.get(key) || 0) + 1;
+      usedNames.set(key, count);
+      if (count === 1) return fileName;
+
+      const { name, ext } = path.parse(fileName);
+      return `${name} (${count})${ext}`;
+    };
+
+    for (const photo of photos) {
+      let files: ExportFile[] = [];
+      try {
+        files = await this.exportPhoto(photo, mode);
+
+        // A sidecar follows the name of the file it belongs to
+        const fileName = uniqueName(files[0].fileName);
+        for (const file of files) {
+          const name = file === files[0] ? fileName : `${fileName}.xmp`;
+          const written = new Promise(resolve => archive.once('entry', resolve));
+
+          if (typeof file.content === 'string') {
+            archive.file(file.content, { name });
+          } else {
+            archive.append(file.content, { name });
+          }
+
+          await Promise.race([written, failed]);
+        }
+      } catch (error) {
+        console.error('Export error for photo:', photo.id, error);
+      } finally {
+        const tempPaths = files
+          .map(file => file.content)
+          .filter((content): content is string => typeof content === 'string');
+        if (tempPaths.length > 0) {
+          await TempFiles.remove(...tempPaths).catch(error => console.error('Temp file cleanup error:', error));
+        }
+      }
+    }
+
+    await Promise.race([archive.finalize(), failed]);
+  }
+
+  /**
+   * Metadata to write for a photo. Stripping leaves out coordinates, place names and
+   * camera details; capture time, captions, keywords and people are kept.
+   */
+  private static metadataFor(photo: ExportPhoto, mode: ExportMetadataMode): ExportMetadata {
+    const optional = <T>(value: T | null) => value ?? undefined;
+
+    const people: PersonRegion[] = photo.faces
+      .filter(face => face.faceGroup?.name)
+      .map(face => {
+        const box = face.boundingBox as { x: number; y: number; width: number; height: number };
+        return { name: face.faceGroup!.name!, x: box.x, y: box.y, width: box.width, height: box.height };
+      });
+
+    const metadata: ExportMetadata = {
+      title: optional(photo.title),
+      caption: optional(photo.caption ?? photo.aiDescription),
+      keywords: photo.tags,
+      rating: optional(photo.rating),
+      colorLabel: optional(photo.colorLabel),
+      // Without a local time, dateTaken is the camera's local time itself
+      dateTakenLocal: optional(photo.dateTakenLocal ?? photo.dateTaken),
+      utcOffset: optional(photo.utcOffset),
+      width: optional(photo.width),
+      height: optional(photo.height),
+      people
+    };
+
+    if (mode === 'strip') {
+      return metadata;
+    }
+
+    return {
+      ...metadata,
+      latitude: optional(photo.latitude),
+      longitude: optional(photo.longitude),
+      altitude: optional(photo.altitude),
+      city: optional(photo.city),
+      country: optional(photo.country),
+      camera: {
+        make: optional(photo.cameraMake),
+        model: optional(photo.cameraModel),
+        lens: optional(photo.lens),
+        focalLength: optional(photo.focalLength),
+        aperture: optional(photo.aperture),
+        exposureTime: optional(photo.exposureTime),
+        iso: optional(photo.iso)
+      }
+    };
+  }
+
+  private static sidecarFile(fileName: string, metadata: ExportMetadata): ExportFile {
+    return {
+      fileName: `${fileName}.xmp`,
+      mimeType: 'application/rdf+xml',
+      content: Buffer.from(MetadataWriter.buildXmp(metadata), 'utf8')
+    };
+  }
+
+  /**
+   * A video original with an XMP sidecar, or a copy without its container metadata
+   */
+  private static async exportVideo(photo: ExportPhoto, metadata: ExportMetadata, strip: boolean): Promise<ExportFile[]> {
+    await TempFiles.ensureDir();
+    const extension = path.extname(photo.fileName);
+    const videoPath = path.join(TempFiles.dir, `${photo.id}-${Date.now()}${extension}`);
+    await StorageService.downloadOriginal(photo.s3Key, videoPath);
+
+    const file = { fileName: photo.fileName, mimeType: photo.mimeType };
+    if (!strip) {
+      return [{ ...file, content: videoPath }, this.sidecarFile(photo.fileName, metadata)];
+    }
+
+    const strippedPath = path.join(TempFiles.dir, `${photo.id}-${Date.now()}-stripped${extension}`);
+    try {
+      await VideoProcessor.stripMetadata(videoPath, strippedPath);
+    } catch (error) {
+      await TempFiles.remove(strippedPath);
+      throw error;
+    } finally {
+      await TempFiles.remove(videoPath);
+    }
+
+    return [{ ...file, content: strippedPath }];
+  }
+}
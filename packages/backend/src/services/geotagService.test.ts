@@ -0,0 +1,88 @@
+import { GeotagService } from './geotagService';
+import { JobQueueService } from './jobQueueService';
+import { prisma } from '../index';
+
+jest.mock('../index', () => ({
+  prisma: {
+    photo: {
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn()
+    }
+  }
+}));
+
+const db = prisma as unknown as {
+  photo: { findUniqueOrThrow: jest.Mock; update: jest.Mock };
+};
+
+const TOKYO = { latitude: 35.6762, longitude: 139.6503 };
+const LOCAL = new Date('2024-06-01T12:00:00Z');
+
+describe('GeotagService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(JobQueueService, 'wake').mockImplementation(() => {});
+    db.photo.update.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('setLocation', () => {
+    it('gives a capture time without an offset the offset of the new place', async () => {
+      db.photo.findUniqueOrThrow.mockResolvedValue({
+        dateTaken: LOCAL, dateTakenLocal: LOCAL, utcOffset: null, utcOffsetSource: null
+      });
+
+      await GeotagService.setLocation('photo-1', TOKYO, 'user');
+
+      expect(db.photo.update.mock.calls[0][0].data).toMatchObject({
+        latitude: TOKYO.latitude,
+        dateTaken: new Date('2024-06-01T03:00:00Z'),
+        dateTakenLocal: LOCAL,
+        utcOffset: 540,
+        timeZone: 'Asia/Tokyo',
+        utcOffsetSource: 'location'
+      });
+    });
+
+    it('replaces an offset looked up at the previous location', async () => {
+      db.photo.findUniqueOrThrow.mockResolvedValue({
+        dateTaken: new Date('2024-06-01T10:00:00Z'), dateTakenLocal: LOCAL, utcOffset: 120, utcOffsetSource: 'location'
+      });
+
+      await GeotagService.setLocation('photo-1', TOKYO, 'track');
+
+      expect(db.photo.update.mock.calls[0][0].data).toMatchObject({
+        dateTaken: new Date('2024-06-01T03:00:00Z'),
+        utcOffset: 540
+      });
+    });
+
+    it('keeps an offset recorded by the camera', async () => {
+      db.photo.findUniqueOrThrow.mockResolvedValue({
+        dateTaken: new Date('2024-06-01T10:00:00Z'), dateTakenLocal: LOCAL, utcOffset: 120, utcOffsetSource: 'exif'
+      });
+
+      await GeotagService.setLocation('photo-1', TOKYO, 'inferred');
+
+      expect(db.photo.update.mock.calls[0][0].data).toMatchObject({
+        dateTaken: new Date('2024-06-01T10:00:00Z'),
+        utcOffset: 120,
+        timeZone: 'Asia/Tokyo',
+        utcOffsetSource: 'exif'
+      });
+    });
+
+    it('leaves photos without a capture time alone', async () => {
+      db.photo.findUniqueOrThrow.mockResolvedValue({
+        dateTaken: null, dateTakenLocal: null, utcOffset: null, utcOffsetSource: null
+      });
+
+      await GeotagService.setLocation('photo-1', TOKYO, 'user');
+
+      expect(db.photo.update.mock.calls[0][0].data).not.toHaveProperty('dateTaken');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { Photo } from '@prisma/client';
+import { GeocodingService } from './geocodingService';
+import { JobQueueService } from './jobQueueService';
+import { PhotoProcessingService } from './photoProcessingService';
+import { CaptureTime } from '../utils/captureTime';
+import { createError } from '../middleware/errorHandler';
+import { prisma } from '../index';
+import { LocationEdit, LocationSource } from '../types';
+
+type Coordinates = { latitude: number; longitude: number; altitude?: number | null };
+
+export class GeotagService {
+  /**
+   * Set a photo's coordinates and queue reverse geocoding for the new place.
+   * The previous place name is cleared until geocoding replaces it, and a capture time
+   * without a recorded UTC offset is re-read in the time zone of the new place.
+   */
+  static async setLocation(photoId: string, location: Coordinates, source: LocationSource): Promise<Photo> {
+    const current = await prisma.photo.findUniqueOrThrow({
+      where: { id: photoId },
+      select: { dateTaken: true, dateTakenLocal: true, utcOffset: true, utcOffsetSource: true }
+    });
+    const captureTime = CaptureTime.relocate(current, location.latitude, location.longitude);
+
+    const photo = await prisma.photo.update({
+      where: { id: photoId },
+      data: {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        altitude: location.altitude ?? null,
+        locationSource: source,
+        location: null,
+        country: null,
+        city: null,
+        ...(captureTime && {
+          dateTaken: captureTime.dateTaken,
+          dateTakenLocal: captureTime.dateTakenLocal,
+          utcOffset: captureTime.utcOffset ?? null,
+          timeZone: captureTime.timeZone ?? null,
+          utcOffsetSource: captureTime.utcOffsetSource ?? null
+        }),
+        ...PhotoProcessingService.statusUpdate(['geocode'], 'pending'),
+        processingJobs: JobQueueService.photoJob(['geocode'])
+      }
+    });
+
+    JobQueueService.wake();
+    return photo;
+  }
+
+  /**
+   * Remove a photo's coordinates and place name
+   */
+  static async clearLocation(photoId: string): Promise<Photo> {
+    return prisma.photo.update({
+      where: { id: photoId },
+      data: {
+        latitude: null,
+        longitude: null,
+        altitude: null,
+        locationSource: null,
+        location: null,
+        country: null,
+        city: null,
+        // Nothing left to geocode
+        ...PhotoProcessingService.statusUpdate(['geocode'], 'done')
+      }
+    });
+  }
+
+  /**
+   * Resolve a user's location edit into coordinates (null to clear). A place name
+   * is looked up with forward geocoding.
+   */
+  static async resolveEdit(edit: LocationEdit): Promise<Coordinates | null> {
+    if (typeof edit.place === 'string' && edit.place.trim()) {
+      const coordinates = await GeocodingService.forwardGeocode(edit.place.trim());
+      if (!coordinates) {
+        throw createError(`Place not found: ${edit.place}`, 404);
+      }
+      return coordinates;
+    }
+
+    if (edit.latitude === null && edit.longitude === null) {
+      return null;
+    }
+
+    const { latitude, longitude, altitude } = edit;
+    if (typeof latitude !== 'number' || !Number.isFinite(latitude) || Math.abs(latitude) > 90 ||
+      typeof longitude !== 'number' || !Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+      throw createError('Provide latitude (-90 to 90) and longitude (-180 to 180), a place, or null coordinates to clear', 400);
+    }
+
+    if (altitude !== undefined && altitude !== null && (typeof altitude !== 'number' || !Number.isFinite(altitude))) {
+      throw createError('altitude must be a number', 400);
+    }
+
+    return { latitude, longitude, altitude };
+  }
+
+  /**
+   * Apply a user's location (or clear it) on photos. Pending location proposals
+   * for them are dropped, since the user decided.
+   */
+  static async applyEdit(photoIds: string[], location: Coordinates | null): Promise<Photo[]> {
+    const photos: Photo[] = [];
+
+    for (const photoId of photoIds) {
+      photos.push(location
+        ? await this.setLocation(photoId, location, 'user')
+        : await this.clearLocation(photoId));
+    }
+
+    await prisma.locationProposal.deleteMany({
+      where: {
+        photoId: { in: photoIds },
+        status: 'pending'
+      }
+    });
+
+    return photos;
+  }
+}
@@ -0,0 +1,93 @@
+import { GpsTrack } from '@prisma/client';
+import { GpsTrackService } from './gpsTrackService';
+import { prisma } from '../index';
+
+jest.mock('../index', () => ({
+  prisma: {
+    photo: {
+      findMany: jest.fn()
+    }
+  }
+}));
+
+const db = prisma as unknown as {
+  photo: { findMany: jest.Mock };
+};
+
+// A walk in Tokyo (UTC+9) from 12:00 to 12:10 local time
+const POINTS = [
+  { latitude: 35.6800, longitude: 139.7600, time: Date.parse('2024-06-01T03:00:00Z') },
+  { latitude: 35.6900, longitude: 139.7700, time: Date.parse('2024-06-01T03:10:00Z') }
+];
+
+const TRACK = {
+  id: 'track-1',
+  userId: 'user-1',
+  points: POINTS,
+  startTime: new Date(POINTS[0].time),
+  endTime: new Date(POINTS[1].time)
+} as unknown as GpsTrack;
+
+const OPTIONS = { maxGapSeconds: 600, clockOffsetSeconds: 0 };
+
+function photo(id: string, dateTakenLocal: string, utcOffset: number | null) {
+  const local = new Date(dateTakenLocal);
+  return {
+    id,
+    fileName: `${id}.jpg`,
+    dateTaken: new Date(local.getTime() - (utcOffset || 0) * 60000),
+    dateTakenLocal: local,
+    utcOffset
+  };
+}
+
+describe('GpsTrackService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findMatches', () => {
+    it('matches photos with a known offset on their UTC instant', async () => {
+      db.photo.findMany.mockResolvedValue([photo('offset', '2024-06-01T12:05:00Z', 540)]);
+
+      const [match] = await GpsTrackService.findMatches(TRACK, OPTIONS);
+
+      expect(match).toMatchObject({ photoId: 'offset', interpolated: true, timeDelta: 300 });
+      expect(match.latitude).toBeCloseTo(35.685, 6);
+    });
+
+    it('reads local times without an offset in the time zone of the track', async () => {
+      db.photo.findMany.mockResolvedValue([
+        photo('local', '2024-06-01T12:05:00Z', null),
+        // 03:05 is the track's UTC time, but 18:05 UTC the day before in Tokyo
+        photo('utc-lookalike', '2024-06-01T03:05:00Z', null)
+      ]);
+
+      const matches = await GpsTrackService.findMatches(TRACK, OPTIONS);
+
+      expect(matches.map(match => match.photoId)).toEqual(['local']);
+      expect(matches[0].latitude).toBeCloseTo(35.685, 6);
+      expect(matches[0].longitude).toBeCloseTo(139.765, 6);
+    });
+
+    it('applies the camera clock offset to local times too', async () => {
+      // Camera clock two minutes slow: 12:03 on the camera was 12:05 on the track
+      db.photo.findMany.mockResolvedValue([photo('slow', '2024-06-01T12:03:00Z', null)]);
+
+      const [match] = await GpsTrackService.findMatches(TRACK, { ...OPTIONS, clockOffsetSeconds: 120 });
+
+      expect(match.latitude).toBeCloseTo(35.685, 6);
+    });
+
+    it('searches local times across every UTC offset', async () => {
+      db.photo.findMany.mockResolvedValue([]);
+
+      await GpsTrackService.findMatches(TRACK, OPTIONS);
+
+      const [withOffset, localOnly] = db.photo.findMany.mock.calls[0][0].where.OR;
+      expect(withOffset.dateTaken.gte.toISOString()).toBe('2024-06-01T02:50:00.000Z');
+      expect(localOnly.dateTakenLocal.gte.toISOString()).toBe('2024-05-31T12:50:00.000Z');
+      expect(localOnly.dateTakenLocal.lte.toISOString()).toBe('2024-06-01T17:20:00.000Z');
+    });
+  });
+});
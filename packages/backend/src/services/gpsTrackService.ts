@@ -0,0 +1,186 @@
+import path from 'path';
+import { GpsTrack, Prisma } from '@prisma/client';
+import { GeotagService } from './geotagService';
+import { CaptureTime } from '../utils/captureTime';
+import { TrackParser } from '../utils/trackParser';
+import { createError } from '../middleware/errorHandler';
+import { prisma } from '../index';
+import { GeotagMatch, GeotagOptions, TrackPoint } from '../types';
+
+const GEOTAG_MAX_GAP_SECONDS = parseInt(process.env.GEOTAG_MAX_GAP_SECONDS || '600');
+
+// Widest UTC offsets in use (UTC-12 to UTC+14), for searching local times
+const MAX_UTC_OFFSET_MS = 14 * 60 * 60 * 1000;
+
+/**
+ * Geotags photos without GPS from uploaded tracks, by matching capture times
+ * against track timestamps
+ */
+export class GpsTrackService {
+  /**
+   * Default matching options (GEOTAG_MAX_GAP_SECONDS, no clock offset)
+   */
+  static defaultOptions(): GeotagOptions {
+    return {
+      maxGapSeconds: GEOTAG_MAX_GAP_SECONDS,
+      clockOffsetSeconds: 0
+    };
+  }
+
+  /**
+   * Parse and store a GPX, KML or GeoJSON track
+   */
+  static async create(userId: string, fileName: string, content: string): Promise<GpsTrack> {
+    let parsed;
+    try {
+      parsed = TrackParser.parse(content, fileName);
+    } catch (error) {
+      throw createError(error instanceof Error ? error.message : 'Invalid track file', 400);
+    }
+
+    const { points } = parsed;
+
+    return prisma.gpsTrack.create({
+      data: {
+        name: parsed.name || path.basename(fileName, path.extname(fileName)),
+        fileName,
+        format: parsed.format,
+        points: points as unknown as Prisma.InputJsonValue,
+        pointCount: points.length,
+        startTime: new Date(points[0].time),
+        endTime: new Date(points[points.length - 1].time),
+        userId
+      }
+    });
+  }
+
+  /**
+   * Find the user's photos without coordinates taken along a track.
+   * Nothing is written; the result is a preview of what `apply` would do.
+   */
+  static async findMatches(track: GpsTrack, options: GeotagOptions): Promise<GeotagMatch[]> {
+    const points = track.points as unknown as TrackPoint[];
+    const maxGapMs = options.maxGapSeconds * 1000;
+    const clockOffsetMs = options.clockOffsetSeconds * 1000;
+    const from = track.startTime.getTime() - maxGapMs - clockOffsetMs;
+    const to = track.endTime.getTime() + maxGapMs - clockOffsetMs;
+
+    const photos = await prisma.photo.findMany({
+      where: {
+        userId: track.userId,
+        deletedAt: null,
+        latitude: null,
+        OR: [
+          {
+            utcOffset: { not: null },
+            dateTaken: { gte: new Date(from), lte: new Date(to) }
+          },
+          {
+            // Only the local time is known; it can be off the track's UTC times by any offset
+            utcOffset: null,
+            dateTakenLocal: { gte: new Date(from - MAX_UTC_OFFSET_MS), lte: new Date(to + MAX_UTC_OFFSET_MS) }
+          }
+        ]
+      },
+      select: { id: true, fileName: true, dateTaken: true, dateTakenLocal: true, utcOffset: true },
+      orderBy: { dateTaken: 'asc' }
+    });
+
+    const matches: GeotagMatch[] = [];
+    for (const photo of photos) {
+      const taken = photo.utcOffset !== null
+        ? photo.dateTaken!.getTime()
+        : this.localTimeOnTrack(points, photo.dateTakenLocal!, clockOffsetMs);
+      const position = this.locate(points, taken + clockOffsetMs, maxGapMs);
+      if (position) {
+        matches.push({
+          photoId: photo.id,
+          fileName: photo.fileName,
+          dateTaken: photo.dateTaken!,
+          ...position
+        });
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Geotag the matched photos (optionally only `photoIds` from a preview) and
+   * queue them for reverse geocoding
+   */
+  static async apply(track: GpsTrack, options: GeotagOptions, photoIds?: string[]): Promise<GeotagMatch[]> {
+    const selected = photoIds ? new Set(photoIds) : null;
+    const matches = (await this.findMatches(track, options))
+      .filter(match => !selected || selected.has(match.photoId));
+
+    for (const match of matches) {
+      await GeotagService.setLocation(match.photoId, match, 'track');
+    }
+
+    return matches;
+  }
+
+  /**
+   * UTC instant of a camera local time, read in the time zone along the track: first where
+   * the track starts, then where that guess places the photo (in case the track crosses zones)
+   */
+  private static localTimeOnTrack(points: TrackPoint[], localTime: Date, clockOffsetMs: number): number {
+    const start = points[0];
+    const guess = CaptureTime.fromLocalTime(localTime, undefined, start.latitude, start.longitude).dateTaken;
+    const nearby = this.locate(points, guess.getTime() + clockOffsetMs, Infinity) || start;
+
+    return CaptureTime.fromLocalTime(localTime, undefined, nearby.latitude, nearby.longitude).dateTaken.getTime();
+  }
+
+  /**
+   * Position on a track at a time. Between two points no more than `maxGapMs` apart the
+   * position is interpolated; otherwise the nearest point is used if within `maxGapMs`.
+   */
+  private static locate(
+    points: TrackPoint[],
+    time: number,
+    maxGapMs: number
+  ): Omit<GeotagMatch, 'photoId' | 'fileName' | 'dateTaken'> | null {
+    // First point at or after `time`
+    let low = 0;
+    let high = points.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (points[mid].time < time) low = mid + 1;
+      else high = mid;
+    }
+
+    const before = low > 0 ? points[low - 1] : undefined;
+    const after = low < points.length ? points[low] : undefined;
+
+    if (before && after && after.time - before.time <= maxGapMs && after.time > before.time) {
+      const ratio = (time - before.time) / (after.time - before.time);
+      const altitude = before.altitude !== undefined && after.altitude !== undefined
+        ? before.altitude + (after.altitude - before.altitude) * ratio
+        : undefined;
+
+      return {
+        latitude: before.latitude + (after.latitude - before.latitude) * ratio,
+        longitude: before.longitude + (after.longitude - before.longitude) * ratio,
+        altitude,
+        timeDelta: Math.round(Math.min(time - before.time, after.time - time) / 1000),
+        interpolated: true
+      };
+    }
+
+    const nearest = [before, after]
+      .filter((point): point is TrackPoint => !!point)
+      .sort((a, b) => Math.abs(a.time - time) - Math.abs(b.time - time))[0];
+
+    if (!nearest || Math.abs(nearest.time - time) > maxGapMs) return null;
+
+    return {
+      latitude: nearest.latitude,
+      longitude: nearest.longitude,
+      altitude: nearest.altitude,
+      timeDelta: Math.round(Math.abs(nearest.time - time) / 1000),
+      interpolated: false
+    };
+  }
+}
@@ -0,0 +1,155 @@
+import { ProcessingJob } from '@prisma/client';
+import { JobQueueService } from './jobQueueService';
+import { PhotoProcessingService } from './photoProcessingService';
+import { prisma } from '../index';
+
+jest.mock('../index', () => ({
+  prisma: {
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+    processingJob: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn()
+    },
+    photo: {
+      update: jest.fn()
+    }
+  }
+}));
+
+const db = prisma as unknown as {
+  processingJob: { findMany: jest.Mock; updateMany: jest.Mock; update: jest.Mock };
+  photo: { update: jest.Mock };
+};
+
+function job(overrides: Partial<ProcessingJob> = {}): ProcessingJob {
+  return {
+    id: 'job-1',
+    photoId: 'photo-1',
+    status: 'pending',
+    steps: { ai: 'pending', faces: 'pending', geocode: 'pending' },
+    attempts: 0,
+    maxAttempts: 5,
+    runAt: new Date(),
+    lockedAt: null,
+    lastError: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  } as ProcessingJob;
+}
+
+// Claims made by poll(): the abandoned-job release matches running jobs, claims match pending ones
+function claimResult(count: number) {
+  db.processingJob.updateMany.mockImplementation(({ where }) =>
+    Promise.resolve({ count: where.status === 'pending' ? count : 0 })
+  );
+}
+
+async function poll(): Promise<void> {
+  await (JobQueueService as any).poll();
+  // Let the claimed job's execute() settle
+  for (let i = 0; i < 5; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('JobQueueService', () => {
+  let run: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    run = jest.spyOn(PhotoProcessingService, 'run').mockResolvedValue();
+    db.processingJob.update.mockImplementation(({ data }) => Promise.resolve(job(data)));
+    db.photo.update.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('poll', () => {
+    it('claims due jobs with a conditional update and completes them', async () => {
+      db.processingJob.findMany.mockResolvedValue([job()]);
+      claimResult(1);
+
+      await poll();
+
+      expect(db.processingJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: 'pending' },
+        data: expect.objectContaining({ status: 'running', attempts: { increment: 1 } })
+      });
+      expect(run).toHaveBeenCalledWith('job-1', 'photo-1', job().steps);
+      expect(db.processingJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: { status: 'completed', lockedAt: null, lastError: null }
+      });
+    });
+
+    it('skips jobs another worker claimed first', async () => {
+      db.processingJob.findMany.mockResolvedValue([job()]);
+      claimResult(0);
+
+      await poll();
+
+      expect(run).not.toHaveBeenCalled();
+      expect(db.processingJob.update).not.toHaveBeenCalled();
+    });
+
+    it('reschedules a failed job with exponential backoff', async () => {
+      db.processingJob.findMany.mockResolvedValue([job({ attempts: 2 })]);
+      claimResult(1);
+      run.mockRejectedValue(new Error('Rekognition unavailable'));
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const before = Date.now();
+      await poll();
+
+      const { data } = db.processingJob.update.mock.calls[0][0];
+      expect(data).toMatchObject({ status: 'pending', lockedAt: null, lastError: 'Rekognition unavailable' });
+      // Third attempt: 4x the 5s base, plus up to one base of jitter
+      expect(data.runAt.getTime() - before).toBeGreaterThanOrEqual(20000);
+      expect(data.runAt.getTime() - Date.now()).toBeLessThanOrEqual(25000);
+    });
+
+    it('dead-letters a job that used its last attempt', async () => {
+      db.processingJob.findMany.mockResolvedValue([job({ attempts: 4 })]);
+      claimResult(1);
+      run.mockRejectedValue(new Error('Still failing'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await poll();
+
+      expect(db.processingJob.update.mock.calls[0][0].data).toMatchObject({
+        status: 'dead',
+        runAt: undefined,
+        lastError: 'Still failing'
+      });
+    });
+  });
+
+  describe('retry', () => {
+    it('re-queues unfinished steps and resets their photo status to pending', async () => {
+      await JobQueueService.retry(job({
+        status: 'dead',
+        attempts: 5,
+        steps: { ai: 'failed', faces: 'done', geocode: 'pending' },
+        lastError: 'Still failing'
+      }));
+
+      expect(db.processingJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({
+          status: 'pending',
+          steps: { ai: 'pending', faces: 'done', geocode: 'pending' },
+          attempts: 0,
+          lastError: null
+        })
+      });
+      expect(db.photo.update).toHaveBeenCalledWith({
+        where: { id: 'photo-1' },
+        data: { aiStatus: 'pending', geocodeStatus: 'pending' }
+      });
+    });
+  });
+});
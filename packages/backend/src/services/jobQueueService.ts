@@ -0,0 +1,252 @@
+import { ProcessingJob } from '@prisma/client';
+import { PhotoProcessingService } from './photoProcessingService';
+import { prisma } from '../index';
+import { JobSteps, ProcessingStep } from '../types';
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000');
+const CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '2');
+const MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '5');
+const BACKOFF_BASE_MS = parseInt(process.env.JOB_BACKOFF_BASE_MS || '5000');
+const BACKOFF_MAX_MS = 60 * 60 * 1000; // 1 hour
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000; // Running jobs older than this are considered abandoned
+
+let timer: NodeJS.Timeout | null = null;
+let polling = false;
+const activeJobs = new Set<string>();
+
+export class JobQueueService {
+  /**
+   * Queue photo enrichment (AI analysis, faces, geocoding).
+   * Pass the result as the `processingJobs` field of a photo create/update
+   * so the photo and its job are written in the same transaction.
+   */
+  static photoJob(steps?: ProcessingStep[]) {
+    return {
+      create: {
+        steps: PhotoProcessingService.initialSteps(steps),
+        maxAttempts: MAX_ATTEMPTS
+      }
+    };
+  }
+
+  /**
+   * Queue enrichment for an existing photo and reset the queued steps to pending
+   */
+  static async enqueuePhoto(photoId: string, steps?: ProcessingStep[]): Promise<ProcessingJob> {
+    const jobSteps = PhotoProcessingService.initialSteps(steps);
+
+    const [job] = await prisma.$transaction([
+      prisma.processingJob.create({
+        data: {
+          photoId,
+          steps: jobSteps,
+          maxAttempts: MAX_ATTEMPTS
+        }
+      }),
+      prisma.photo.update({
+        where: { id: photoId },
+        data: PhotoProcessingService.statusUpdate(
+          Object.keys(jobSteps) as ProcessingStep[],
+          'pending'
+        )
+      })
+    ]);
+
+    this.wake();
+    return job;
+  }
+
+  /**
+   * Check if a photo already has a queued or running job
+   */
+  static async hasActiveJob(photoId: string): Promise<boolean> {
+    const count = await prisma.processingJob.count({
+      where: {
+        photoId,
+        status: { in: ['pending', 'running'] }
+      }
+    });
+    return count > 0;
+  }
+
+  /**
+   * Start the worker loop
+   */
+  static start(): void {
+    if (timer) return;
+
+    timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.poll();
+    console.log(`⚙️  Job worker started (concurrency ${CONCURRENCY})`);
+  }
+
+  /**
+   * Stop picking up new jobs and wait for running ones to finish
+   */
+  static async stop(timeoutMs: number = 10000): Promise<void> {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+
+    const deadline = Date.now() + timeoutMs;
+    while (activeJobs.size > 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+
+  /**
+   * Poll immediately instead of waiting for the next tick
+   */
+  static wake(): void {
+    if (timer) {
+      setImmediate(() => this.poll());
+    }
+  }
+
+  /**
+   * Move a dead-lettered job back into the queue and reset its unfinished steps to pending
+   */
+  static async retry(job: ProcessingJob): Promise<ProcessingJob> {
+    const steps: JobSteps = { ...(job.steps as JobSteps) };
+    const retried = (Object.keys(steps) as ProcessingStep[]).filter(step => steps[step] !== 'done');
+    retried.forEach(step => {
+      steps[step] = 'pending';
+    });
+
+    const [updatedJob] = await prisma.$transaction([
+      prisma.processingJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'pending',
+          steps,
+          attempts: 0,
+          runAt: new Date(),
+          lockedAt: null,
+          lastError: null
+        }
+      }),
+      prisma.photo.update({
+        where: { id: job.photoId },
+        data: PhotoProcessingService.statusUpdate(retried, 'pending')
+      })
+    ]);
+
+    this.wake();
+    return updatedJob;
+  }
+
+  /**
+   * Claim due jobs up to the concurrency limit and run them
+   */
+  private static async poll(): Promise<void> {
+    if (polling) return;
+    polling = true;
+
+    try {
+      await this.releaseAbandonedJobs();
+
+      const capacity = CONCURRENCY - activeJobs.size;
+      if (capacity <= 0) return;
+
+      const candidates = await prisma.processingJob.findMany({
+        where: {
+          status: 'pending',
+          runAt: { lte: new Date() },
+          id: { notIn: Array.from(activeJobs) }
+        },
+        orderBy: { runAt: 'asc' },
+        take: capacity
+      });
+
+      for (const candidate of candidates) {
+        // Conditional update so that only one worker can claim a job
+        const claimed = await prisma.processingJob.updateMany({
+          where: { id: candidate.id, status: 'pending' },
+          data: {
+            status: 'running',
+            lockedAt: new Date(),
+            attempts: { increment: 1 }
+          }
+        });
+
+        if (claimed.count === 1) {
+          activeJobs.add(candidate.id);
+          this.execute({ ...candidate, attempts: candidate.attempts + 1 })
+            .finally(() => activeJobs.delete(candidate.id));
+        }
+      }
+    } catch (error) {
+      console.error('Job queue poll error:', error);
+    } finally {
+      polling = false;
+    }
+  }
+
+  /**
+   * Run a claimed job and record the outcome
+   */
+  private static async execute(job: ProcessingJob): Promise<void> {
+    try {
+      await PhotoProcessingService.run(job.id, job.photoId, job.steps as JobSteps);
+
+      await prisma.processingJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'completed',
+          lockedAt: null,
+          lastError: null
+        }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const isDead = job.attempts >= job.maxAttempts;
+
+      if (isDead) {
+        console.error(`Job ${job.id} dead-lettered after ${job.attempts} attempts:`, error);
+      } else {
+        console.warn(`Job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, message);
+      }
+
+      try {
+        await prisma.processingJob.update({
+          where: { id: job.id },
+          data: {
+            status: isDead ? 'dead' : 'pending',
+            runAt: isDead ? undefined : new Date(Date.now() + this.backoff(job.attempts)),
+            lockedAt: null,
+            lastError: message
+          }
+        });
+      } catch (updateError) {
+        // The photo (and with it the job) may have been deleted meanwhile
+        console.error('Failed to record job failure:', job.id, updateError);
+      }
+    }
+  }
+
+  /**
+   * Put jobs whose worker died mid-run (e.g. a process restart) back in the queue
+   */
+  private static async releaseAbandonedJobs(): Promise<void> {
+    await prisma.processingJob.updateMany({
+      where: {
+        status: 'running',
+        lockedAt: { lt: new Date(Date.now() - LOCK_TIMEOUT_MS) },
+        id: { notIn: Array.from(activeJobs) }
+      },
+      data: {
+        status: 'pending',
+        lockedAt: null
+      }
+    });
+  }
+
+  /**
+   * Exponential backoff delay with jitter for the given attempt number
+   */
+  private static backoff(attempt: number): number {
+    const delay = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS);
+    return delay + Math.floor(Math.random() * BACKOFF_BASE_MS);
+  }
+}
@@ -0,0 +1,61 @@
+import { LocationInferenceService } from './locationInferenceService';
+import { GeotagService } from './geotagService';
+import { prisma } from '../index';
+
+jest.mock('../index', () => ({
+  prisma: {
+    locationProposal: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn()
+    }
+  }
+}));
+
+const db = prisma as unknown as {
+  locationProposal: { findMany: jest.Mock; updateMany: jest.Mock; update: jest.Mock; delete: jest.Mock };
+};
+
+describe('LocationInferenceService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('accept', () => {
+    it('only geotags photos outside the trash', async () => {
+      const setLocation = jest.spyOn(GeotagService, 'setLocation').mockResolvedValue({} as any);
+      db.locationProposal.findMany.mockResolvedValue([
+        { id: 'proposal-1', photoId: 'photo-1', latitude: 1, longitude: 2, photo: { latitude: null } }
+      ]);
+
+      await expect(LocationInferenceService.accept('user-1', { ids: ['proposal-1'] }))
+        .resolves.toEqual({ accepted: 1, skipped: 0 });
+
+      expect(db.locationProposal.findMany.mock.calls[0][0].where).toMatchObject({
+        userId: 'user-1',
+        status: 'pending',
+        photo: { deletedAt: null }
+      });
+      expect(setLocation).toHaveBeenCalledWith('photo-1', expect.objectContaining({ latitude: 1 }), 'inferred');
+    });
+  });
+
+  describe('reject', () => {
+    it('only rejects proposals for photos outside the trash', async () => {
+      db.locationProposal.updateMany.mockResolvedValue({ count: 2 });
+
+      await expect(LocationInferenceService.reject('user-1', { minConfidence: 0.5 })).resolves.toBe(2);
+
+      expect(db.locationProposal.updateMany.mock.calls[0][0].where).toMatchObject({
+        status: 'pending',
+        photo: { deletedAt: null },
+        confidence: { gte: 0.5 }
+      });
+    });
+  });
+});
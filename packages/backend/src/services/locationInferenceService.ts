@@ -0,0 +1,219 @@
+import { GeocodingService } from './geocodingService';
+import { GeotagService } from './geotagService';
+import { prisma } from '../index';
+import { LocationProposalFilter } from '../types';
+
+const INFERENCE_MAX_GAP_MINUTES = parseFloat(process.env.INFERENCE_MAX_GAP_MINUTES || '30');
+const INFERENCE_MAX_DISTANCE_KM = parseFloat(process.env.INFERENCE_MAX_DISTANCE_KM || '5');
+const INFERENCE_MIN_CONFIDENCE = parseFloat(process.env.INFERENCE_MIN_CONFIDENCE || '0.1');
+
+interface TimedPhoto {
+  id: string;
+  time: number;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+interface Inference {
+  latitude: number;
+  longitude: number;
+  confidence: number;
+  sourcePhotoIds: string[];
+}
+
+/**
+ * Proposes locations for photos without GPS from the located photos taken just
+ * before and after them (e.g. a camera shot minutes after a phone shot)
+ */
+export class LocationInferenceService {
+  /**
+   * Replace the user's pending proposals with a fresh inference pass.
+   * Photos whose proposal was rejected are not proposed again.
+   */
+  static async run(userId: string): Promise<{ scanned: number; proposed: number }> {
+    const photos = await prisma.photo.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        dateTaken: { not: null }
+      },
+      select: {
+        id: true,
+        dateTaken: true,
+        dateTakenLocal: true,
+        latitude: true,
+        longitude: true,
+        locationSource: true,
+        locationProposal: { select: { status: true } }
+      }
+    });
+
+    // Compare local capture times: cameras without a UTC offset only know local time.
+    // Inferred locations are never used to infer others.
+    const timeline: TimedPhoto[] = photos
+      .map(photo => ({
+        id: photo.id,
+        time: (photo.dateTakenLocal || photo.dateTaken!).getTime(),
+        latitude: photo.locationSource === 'inferred' ? null : photo.latitude,
+        longitude: photo.locationSource === 'inferred' ? null : photo.longitude
+      }))
+      .sort((a, b) => a.time - b.time);
+
+    const candidates = new Set(
+      photos
+        .filter(photo => photo.latitude === null && photo.locationProposal?.status !== 'rejected')
+        .map(photo => photo.id)
+    );
+
+    // Nearest located photo after each position
+    const nextLocated: Array<TimedPhoto | undefined> = new Array(timeline.length);
+    for (let i = timeline.length - 1, next: TimedPhoto | undefined; i >= 0; i--) {
+      nextLocated[i] = next;
+      if (timeline[i].latitude !== null) next = timeline[i];
+    }
+
+    const proposals: Array<Inference & { photoId: string }> = [];
+    let previous: TimedPhoto | undefined;
+
+    timeline.forEach((photo, index) => {
+      if (photo.latitude !== null) {
+        previous = photo;
+        return;
+      }
+      if (!candidates.has(photo.id)) return;
+
+      const inference = this.infer(photo, previous, nextLocated[index]);
+      if (inference && inference.confidence >= INFERENCE_MIN_CONFIDENCE) {
+        proposals.push({ photoId: photo.id, ...inference });
+      }
+    });
+
+    // A photo has at most one proposal, so replace earlier decided ones too (e.g. an
+    // accepted location the user later cleared); rejected photos aren't proposed again
+    await prisma.$transaction([
+      prisma.locationProposal.deleteMany({
+        where: {
+          userId,
+          OR: [
+            { status: 'pending' },
+            { photoId: { in: proposals.map(proposal => proposal.photoId) } }
+          ]
+        }
+      }),
+      prisma.locationProposal.createMany({
+        data: proposals.map(proposal => ({ ...proposal, userId }))
+      })
+    ]);
+
+    return { scanned: photos.length, proposed: proposals.length };
+  }
+
+  /**
+   * Geotag the photos of matching pending proposals with their inferred location.
+   * Photos that got a location since the pass are skipped and their proposals dropped.
+   */
+  static async accept(userId: string, filter: LocationProposalFilter): Promise<{ accepted: number; skipped: number }> {
+    const proposals = await prisma.locationProposal.findMany({
+      where: this.pendingWhere(userId, filter),
+      include: {
+        photo: { select: { latitude: true } }
+      }
+    });
+
+    let accepted = 0;
+    let skipped = 0;
+
+    for (const proposal of proposals) {
+      if (proposal.photo.latitude !== null) {
+        await prisma.locationProposal.delete({ where: { id: proposal.id } });
+        skipped++;
+        continue;
+      }
+
+      await GeotagService.setLocation(proposal.photoId, proposal, 'inferred');
+      await prisma.locationProposal.update({
+        where: { id: proposal.id },
+        data: { status: 'accepted', decidedAt: new Date() }
+      });
+      accepted++;
+    }
+
+    return { accepted, skipped };
+  }
+
+  /**
+   * Reject matching pending proposals; their photos are left out of later passes
+   */
+  static async reject(userId: string, filter: LocationProposalFilter): Promise<number> {
+    const { count } = await prisma.locationProposal.updateMany({
+      where: this.pendingWhere(userId, filter),
+      data: { status: 'rejected', decidedAt: new Date() }
+    });
+
+    return count;
+  }
+
+  /**
+   * Infer a photo's location from the nearest located photos before and after it.
+   * Neighbours that agree are interpolated by time; otherwise the nearest one in time
+   * is used at lower confidence.
+   */
+  private static infer(
+    photo: TimedPhoto,
+    previous: TimedPhoto | undefined,
+    next: TimedPhoto | undefined
+  ): Inference | null {
+    const maxGapMs = INFERENCE_MAX_GAP_MINUTES * 60 * 1000;
+    const before = previous && photo.time - previous.time <= maxGapMs ? previous : undefined;
+    const after = next && next.time - photo.time <= maxGapMs ? next : undefined;
+    if (!before && !after) return null;
+
+    // 1 at the same moment, 0 at the maximum gap
+    const timeScore = (neighbour: TimedPhoto) => 1 - Math.abs(neighbour.time - photo.time) / maxGapMs;
+    const round = (confidence: number) => Math.round(confidence * 100) / 100;
+
+    if (before && after) {
+      const spread = GeocodingService.calculateDistance(
+        before.latitude!, before.longitude!, after.latitude!, after.longitude!
+      );
+
+      if (spread <= INFERENCE_MAX_DISTANCE_KM) {
+        const ratio = after.time > before.time ? (photo.time - before.time) / (after.time - before.time) : 0.5;
+        return {
+          latitude: before.latitude! + (after.latitude! - before.latitude!) * ratio,
+          longitude: before.longitude! + (after.longitude! - before.longitude!) * ratio,
+          confidence: round(Math.max(timeScore(before), timeScore(after)) * (1 - 0.5 * spread / INFERENCE_MAX_DISTANCE_KM)),
+          sourcePhotoIds: [before.id, after.id]
+        };
+      }
+    }
+
+    const nearest = [before, after]
+      .filter((neighbour): neighbour is TimedPhoto => !!neighbour)
+      .sort((a, b) => timeScore(b) - timeScore(a))[0];
+
+    return {
+      latitude: nearest.latitude!,
+      longitude: nearest.longitude!,
+      confidence: round(timeScore(nearest) * 0.5),
+      sourcePhotoIds: [nearest.id]
+    };
+  }
+
+  /**
+   * Where clause for a user's pending proposals matching a bulk filter, leaving out
+   * proposals for photos in the trash
+   */
+  private static pendingWhere(userId: string, filter: LocationProposalFilter) {
+    return {
+      userId,
+      status: 'pending',
+      photo: { deletedAt: null },
+      id: filter.ids ? { in: filter.ids } : undefined,
+      confidence: {
+        gte: filter.minConfidence,
+        lte: filter.maxConfidence
+      }
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { Photo } from '@prisma/client';
+import { XmpMetadata } from '../utils/xmpMetadata';
+import { createError } from '../middleware/errorHandler';
+import { prisma } from '../index';
+import { DescriptiveMetadata, SidecarImport } from '../types';
+
+/**
+ * Imports titles, captions, keywords, ratings and color labels written by photo
+ * managers such as Lightroom. Keywords are kept apart from AI tags (`keywords` vs
+ * `aiTags`) and both are merged into `tags`, which filters and search match.
+ */
+export class MetadataImportService {
+  /**
+   * Merge imported keywords and AI tags, keywords first, dropping case-insensitive duplicates
+   */
+  static mergeTags(keywords: string[], aiTags: string[]): string[] {
+    const seen = new Set<string>();
+    return [...keywords, ...aiTags].filter(tag => {
+      const key = tag.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Photo fields for descriptive metadata read at upload
+   */
+  static createData(metadata: DescriptiveMetadata = {}) {
+    return {
+      title: metadata.title,
+      caption: metadata.caption,
+      rating: metadata.rating,
+      colorLabel: metadata.colorLabel,
+      keywords: metadata.keywords || [],
+      tags: metadata.keywords || []
+    };
+  }
+
+  /**
+   * Apply an .xmp sidecar to the photos its file name matches among `photoIds` (e.g. the
+   * files of the same upload, or photos the user picked). Without `photoIds` it is applied
+   * across the library only if exactly one photo matches: names like IMG_0001 repeat
+   * across cards and years, so several matches are returned as `candidates` instead.
+   * Fields the sidecar has replace the photo's; fields it lacks are left alone.
+   */
+  static async applySidecar(
+    userId: string,
+    fileName: string,
+    content: Buffer,
+    photoIds?: string[]
+  ): Promise<SidecarImport> {
+    let metadata: DescriptiveMetadata;
+    try {
+      metadata = await XmpMetadata.fromSidecar(content);
+    } catch (error) {
+      throw createError(`Invalid XMP sidecar: ${fileName}`, 400);
+    }
+
+    // Narrow by prefix in the database, then match the exact name rules
+    const base = fileName.slice(0, -'.xmp'.length);
+    const photos = (await prisma.photo.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        id: photoIds ? { in: photoIds } : undefined,
+        fileName: { startsWith: base, mode: 'insensitive' }
+      }
+    })).filter(photo => XmpMetadata.matchesSidecar(fileName, photo.fileName));
+
+    if (!photoIds && photos.length > 1) {
+      return { fileName, photoIds: [], candidates: photos.map(photo => photo.id) };
+    }
+
+    for (const photo of photos) {
+      await prisma.photo.update({
+        where: { id: photo.id },
+        data: this.updateData(photo, metadata)
+      });
+    }
+
+    return { fileName, photoIds: photos.map(photo => photo.id) };
+  }
+
+  /**
+   * Photo fields for imported metadata, re-merging tags when the keywords change
+   */
+  private static updateData(photo: Photo, metadata: DescriptiveMetadata) {
+    const { keywords, ...fields } = metadata;
+    if (!keywords) return fields;
+
+    // Photos analysed before AI tags were kept apart only have them in `tags`
+    const aiTags = photo.aiTags.length > 0
+      ? photo.aiTags
+      : photo.tags.filter(tag => !photo.keywords.includes(tag));
+
+    return {
+      ...fields,
+      keywords,
+      tags: this.mergeTags(keywords, aiTags)
+    };
+  }
+}
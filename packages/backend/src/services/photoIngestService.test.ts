@@ -0,0 +1,131 @@
+import { Prisma } from '@prisma/client';
+import sharp from 'sharp';
+import { PhotoIngestService } from './photoIngestService';
+import { JobQueueService } from './jobQueueService';
+import { StackService } from './stackService';
+import { StorageService } from './storageService';
+import { StorageUsageService } from './storageUsageService';
+import { TrashService } from './trashService';
+import { createError } from '../middleware/errorHandler';
+import { prisma } from '../index';
+
+jest.mock('../index', () => ({
+  prisma: {
+    photo: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      create: jest.fn()
+    }
+  }
+}));
+
+const db = prisma as unknown as {
+  photo: { findUnique: jest.Mock; findUniqueOrThrow: jest.Mock; create: jest.Mock };
+};
+
+const UPLOAD = { key: 'new.jpg', renditionKey: null, thumbnailSize: 100, renditionSize: 0 };
+
+function image(): Promise<Buffer> {
+  return sharp({
+    create: { width: 32, height: 24, channels: 3, background: { r: 10, g: 120, b: 200 } }
+  }).jpeg().toBuffer();
+}
+
+describe('PhotoIngestService', () => {
+  let uploadImage: jest.SpyInstance;
+  let deleteImage: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    uploadImage = jest.spyOn(StorageService, 'uploadImage').mockResolvedValue(UPLOAD as any);
+    deleteImage = jest.spyOn(StorageService, 'deleteImage').mockResolvedValue();
+    jest.spyOn(StorageUsageService, 'assertWithinQuota').mockResolvedValue();
+    jest.spyOn(StackService, 'assignStack').mockResolvedValue(null as any);
+    jest.spyOn(JobQueueService, 'wake').mockImplementation(() => {});
+    db.photo.findUnique.mockResolvedValue(null);
+    db.photo.create.mockImplementation(async ({ data }) => ({ id: 'photo-new', ...data }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('deduplication', () => {
+    it('stores a new file with its content hash and a processing job', async () => {
+      const { photo, duplicate } = await PhotoIngestService.ingest(await image(), 'beach.jpg', 'user-1');
+
+      expect(duplicate).toBe(false);
+      expect(uploadImage).toHaveBeenCalled();
+      const { data } = db.photo.create.mock.calls[0][0];
+      expect(data.contentHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(data.userId).toBe('user-1');
+      expect(data.processingJobs.create.steps).toEqual({ ai: 'pending', faces: 'pending', geocode: 'pending' });
+      expect(photo.id).toBe('photo-new');
+    });
+
+    it('returns the existing photo for a file the user already uploaded', async () => {
+      const existing = { id: 'photo-1', deletedAt: null };
+      db.photo.findUnique.mockResolvedValue(existing);
+
+      const result = await PhotoIngestService.ingest(await image(), 'beach.jpg', 'user-1');
+
+      expect(result).toEqual({ photo: existing, duplicate: true });
+      expect(db.photo.findUnique.mock.calls[0][0].where.userId_contentHash.userId).toBe('user-1');
+      expect(uploadImage).not.toHaveBeenCalled();
+      expect(db.photo.create).not.toHaveBeenCalled();
+    });
+
+    it('restores a trashed duplicate', async () => {
+      const trashed = { id: 'photo-1', deletedAt: new Date() };
+      const restored = { id: 'photo-1', deletedAt: null };
+      const restore = jest.spyOn(TrashService, 'restore').mockResolvedValue(restored as any);
+      db.photo.findUnique.mockResolvedValue(trashed);
+
+      const result = await PhotoIngestService.ingest(await image(), 'beach.jpg', 'user-1');
+
+      expect(restore).toHaveBeenCalledWith(trashed);
+      expect(result).toEqual({ photo: restored, duplicate: true });
+    });
+
+    it('returns the winning photo and removes its own files when a concurrent upload won (P2002)', async () => {
+      const winner = { id: 'photo-winner', deletedAt: null };
+      db.photo.create.mockRejectedValue(new Prisma.PrismaClientKnownRequestError(
+        'Unique constraint failed on the fields: (`userId`,`contentHash`)',
+        { code: 'P2002', clientVersion: Prisma.prismaVersion.client }
+      ));
+      db.photo.findUniqueOrThrow.mockResolvedValue(winner);
+
+      const result = await PhotoIngestService.ingest(await image(), 'beach.jpg', 'user-1');
+
+      expect(result).toEqual({ photo: winner, duplicate: true });
+      expect(deleteImage).toHaveBeenCalledWith('new.jpg');
+    });
+
+    it('rejects new files over the quota before storing them', async () => {
+      jest.spyOn(StorageUsageService, 'assertWithinQuota')
+        .mockRejectedValue(createError('Storage quota exceeded', 413));
+
+      await expect(PhotoIngestService.ingest(await image(), 'beach.jpg', 'user-1'))
+        .rejects.toMatchObject({ statusCode: 413 });
+      expect(uploadImage).not.toHaveBeenCalled();
+      expect(db.photo.create).not.toHaveBeenCalled();
+    });
+
+    it('accepts duplicates of stored files even when over the quota', async () => {
+      const assertWithinQuota = jest.spyOn(StorageUsageService, 'assertWithinQuota')
+        .mockRejectedValue(createError('Storage quota exceeded', 413));
+      db.photo.findUnique.mockResolvedValue({ id: 'photo-1', deletedAt: null });
+
+      await expect(PhotoIngestService.ingest(await image(), 'beach.jpg', 'user-1'))
+        .resolves.toMatchObject({ duplicate: true });
+      expect(assertWithinQuota).not.toHaveBeenCalled();
+    });
+
+    it('rethrows other database errors', async () => {
+      db.photo.create.mockRejectedValue(new Error('Connection lost'));
+
+      await expect(PhotoIngestService.ingest(await image(), 'beach.jpg', 'user-1')).rejects.toThrow('Connection lost');
+      expect(db.photo.findUniqueOrThrow).not.toHaveBeenCalled();
+    });
+  });
+});
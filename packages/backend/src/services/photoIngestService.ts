@@ -0,0 +1,216 @@
+import crypto from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import sharp from 'sharp';
+import { Photo, Prisma } from '@prisma/client';
+import { StorageService } from './storageService';
+import { JobQueueService } from './jobQueueService';
+import { StackService } from './stackService';
+import { StorageUsageService } from './storageUsageService';
+import { TrashService } from './trashService';
+import { MetadataImportService } from './metadataImportService';
+import { ExifExtractor } from '../utils/exifExtractor';
+import { PerceptualHash } from '../utils/perceptualHash';
+import { ImageConverter } from '../utils/imageConverter';
+import { VideoProcessor } from '../utils/videoProcessor';
+import { ConcurrencyLimiter } from '../utils/concurrencyLimiter';
+import { prisma } from '../index';
+import { ImageSource, PhotoMetadata, VideoMetadata } from '../types';
+
+// Files processed at once across all requests; the rest wait on disk
+const ingestLimiter = new ConcurrencyLimiter(parseInt(process.env.INGEST_CONCURRENCY || '2'));
+
+export class PhotoIngestService {
+  /**
+   * Extract metadata, store the image and create its photo record.
+   * Enrichment (AI analysis, faces, geocoding) is queued in the same write
+   * and picked up by the background job worker.
+   * A file the user already uploaded returns the existing photo instead,
+   * restoring it if it's in the trash.
+   * New files that don't fit in the user's storage quota are rejected with a 413.
+   *
+   * Pass a file path to stream the image from disk. At most INGEST_CONCURRENCY
+   * images are processed at once; further calls wait for a free slot.
+   */
+  static ingest(
+    image: ImageSource,
+    fileName: string,
+    userId: string
+  ): Promise<{ photo: Photo; duplicate: boolean }> {
+    return ingestLimiter.run(() => this.ingestNow(image, fileName, userId));
+  }
+
+  /**
+   * SHA-256 of an image, streaming files from disk
+   */
+  private static async contentHash(image: ImageSource): Promise<string> {
+    const hash = crypto.createHash('sha256');
+
+    if (typeof image === 'string') {
+      for await (const chunk of createReadStream(image)) {
+        hash.update(chunk);
+      }
+    } else {
+      hash.update(image);
+    }
+
+    return hash.digest('hex');
+  }
+
+  private static async ingestNow(
+    image: ImageSource,
+    fileName: string,
+    userId: string
+  ): Promise<{ photo: Photo; duplicate: boolean }> {
+    const contentHash = await this.contentHash(image);
+
+    const existingPhoto = await prisma.photo.findUnique({
+      where: { userId_contentHash: { userId, contentHash } }
+    });
+
+    if (existingPhoto) {
+      const photo = existingPhoto.deletedAt ? await TrashService.restore(existingPhoto) : existingPhoto;
+      return { photo, duplicate: true };
+    }
+
+    const fileSize = typeof image === 'string' ? (await fs.stat(image)).size : image.length;
+    await StorageUsageService.assertWithinQuota(userId, fileSize);
+
+    let metadata: PhotoMetadata;
+    let rendition: Buffer | undefined;
+
+    if (ExifExtractor.getMimeTypeFromFileName(fileName).startsWith('video/')) {
+      // Videos are kept as-is; the poster frame is used for display, thumbnails and faces
+      ({ metadata, poster: rendition } = await this.prepareVideo(image, fileName));
+    } else {
+      // Extract EXIF metadata
+      metadata = await ExifExtractor.extractMetadata(image, fileName);
+
+      // HEIC and RAW originals are kept as-is; display, thumbnails and AI use a JPEG rendition
+      if (ImageConverter.needsRendition(metadata.mimeType)) {
+        rendition = await ImageConverter.createRendition(image, metadata.mimeType, metadata.orientation);
+
+        const { width, height } = await sharp(rendition).metadata();
+        metadata.width = width;
+        metadata.height = height;
+      } else {
+        Object.assign(metadata, await ImageConverter.getDisplaySize(image));
+      }
+    }
+
+    // Perceptual hash for near-duplicate and burst stacking (photos only)
+    let perceptualHash: string | null = null;
+    if (metadata.mediaType !== 'video') {
+      try {
+        perceptualHash = await PerceptualHash.compute(rendition || image);
+      } catch (error) {
+        console.error('Perceptual hash error:', fileName, error);
+      }
+    }
+
+    // Upload to storage
+    const uploadResult = await StorageService.uploadImage(
+      image,
+      fileName,
+      metadata.mimeType,
+      rendition
+    );
+
+    try {
+      // Create photo record together with its processing job
+      const photo = await prisma.photo.create({
+        data: {
+          fileName: metadata.fileName,
+          s3Key: uploadResult.key,
+          renditionKey: uploadResult.renditionKey,
+          mimeType: metadata.mimeType,
+          fileSize: metadata.fileSize,
+          thumbnailSize: uploadResult.thumbnailSize,
+          renditionSize: uploadResult.renditionSize,
+          mediaType: metadata.mediaType,
+          duration: metadata.duration,
+          contentHash,
+          perceptualHash,
+          width: metadata.width,
+          height: metadata.height,
+          latitude: metadata.latitude,
+          longitude: metadata.longitude,
+          altitude: metadata.altitude,
+          locationSource: metadata.latitude !== undefined ? 'exif' : undefined,
+          cameraMake: metadata.camera?.make,
+          cameraModel: metadata.camera?.model,
+          lens: metadata.camera?.lens,
+          focalLength: metadata.camera?.focalLength,
+          aperture: metadata.camera?.aperture,
+          exposureTime: metadata.camera?.exposureTime,
+          iso: metadata.camera?.iso,
+          dateTaken: metadata.dateTaken,
+          dateTakenLocal: metadata.dateTakenLocal,
+          utcOffset: metadata.utcOffset,
+          timeZone: metadata.timeZone,
+          utcOffsetSource: metadata.utcOffsetSource,
+          ...MetadataImportService.createData(metadata.descriptive),
+          userId,
+          processingJobs: JobQueueService.photoJob()
+        }
+      });
+
+      JobQueueService.wake();
+
+      try {
+        photo.stackId = await StackService.assignStack(photo);
+      } catch (error) {
+        console.error('Stack assignment error for photo:', photo.id, error);
+      }
+
+      return { photo, duplicate: false };
+    } catch (error) {
+      // The same file was uploaded concurrently and won the race
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        await StorageService.deleteImage(uploadResult.key);
+        const photo = await prisma.photo.findUniqueOrThrow({
+          where: { userId_contentHash: { userId, contentHash } }
+        });
+        return { photo, duplicate: true };
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Read a video's container metadata and grab its poster frame
+   */
+  private static async prepareVideo(
+    video: ImageSource,
+    fileName: string
+  ): Promise<{ metadata: PhotoMetadata; poster: Buffer }> {
+    if (typeof video !== 'string') {
+      throw new Error('Videos can only be ingested from a file');
+    }
+
+    let videoMetadata: VideoMetadata = {};
+    try {
+      videoMetadata = await VideoProcessor.extractMetadata(video);
+    } catch (error) {
+      console.error('Video metadata error:', fileName, error);
+    }
+
+    const poster = await VideoProcessor.extractPoster(video, videoMetadata.duration);
+
+    // The poster is upright, so its size is the display resolution even for rotated clips
+    const { width, height } = await sharp(poster).metadata();
+
+    return {
+      metadata: {
+        ...videoMetadata,
+        fileName,
+        mimeType: ExifExtractor.getMimeTypeFromFileName(fileName),
+        fileSize: (await fs.stat(video)).size,
+        mediaType: 'video',
+        width: width || videoMetadata.width,
+        height: height || videoMetadata.height
+      },
+      poster
+    };
+  }
+}
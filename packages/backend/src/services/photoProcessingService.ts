@@ -0,0 +1,244 @@
+import path from 'path';
+import { Face, Photo } from '@prisma/client';
+import { AIService } from './aiService';
+import { GeocodingService } from './geocodingService';
+import { StorageService } from './storageService';
+import { MetadataImportService } from './metadataImportService';
+import { TempFiles } from '../utils/tempFiles';
+import { VideoProcessor } from '../utils/videoProcessor';
+import { prisma } from '../index';
+import { FaceDetection, JobSteps, PhotoProcessingStatus, ProcessingStep } from '../types';
+
+// Photo column holding the processing status of each step
+const STATUS_FIELDS: Record<ProcessingStep, 'aiStatus' | 'facesStatus' | 'geocodeStatus'> = {
+  ai: 'aiStatus',
+  faces: 'facesStatus',
+  geocode: 'geocodeStatus'
+};
+
+// A re-detected face overlapping an existing one at least this much is taken to be the same face
+const FACE_MATCH_MIN_IOU = 0.5;
+
+export class PhotoProcessingService {
+  static readonly STEPS: ProcessingStep[] = ['ai', 'faces', 'geocode'];
+
+  /**
+   * Build the initial step map for an enrichment job
+   */
+  static initialSteps(steps: ProcessingStep[] = this.STEPS): JobSteps {
+    return steps.reduce((acc, step) => {
+      acc[step] = 'pending';
+      return acc;
+    }, {} as JobSteps);
+  }
+
+  /**
+   * Build a photo update setting the status of the given steps
+   */
+  static statusUpdate(steps: ProcessingStep[], status: PhotoProcessingStatus) {
+    return steps.reduce((acc, step) => {
+      acc[STATUS_FIELDS[step]] = status;
+      return acc;
+    }, {} as Partial<Record<typeof STATUS_FIELDS[ProcessingStep], PhotoProcessingStatus>>);
+  }
+
+  /**
+   * Check if a value is a known processing step
+   */
+  static isStep(value: unknown): value is ProcessingStep {
+    return typeof value === 'string' && (this.STEPS as string[]).includes(value);
+  }
+
+  /**
+   * Run every step of a job that hasn't completed yet.
+   * Step status is persisted after each step so a retry resumes where it stopped.
+   */
+  static async run(jobId: string, photoId: string, jobSteps: JobSteps): Promise<void> {
+    const photo = await prisma.photo.findUnique({
+      where: { id: photoId }
+    });
+
+    if (!photo) {
+      // Photo was deleted after the job was queued; nothing left to do
+      return;
+    }
+
+    const steps: JobSteps = { ...jobSteps };
+    let imageBuffer: Buffer | null = null;
+    const loadImage = async () => {
+      if (!imageBuffer) {
+        imageBuffer = await StorageService.getDisplayImageBuffer(photo);
+      }
+      return imageBuffer;
+    };
+
+    for (const step of this.STEPS) {
+      if (!steps[step] || steps[step] === 'done') continue;
+
+      await this.setStatus(photo.id, step, 'processing');
+
+      try {
+        await this.runStep(step, photo, loadImage);
+        steps[step] = 'done';
+      } catch (error) {
+        steps[step] = 'failed';
+        throw error;
+      } finally {
+        await prisma.processingJob.update({
+          where: { id: jobId },
+          data: { steps }
+        });
+        await this.setStatus(photo.id, step, steps[step] === 'done' ? 'done' : 'failed');
+      }
+    }
+  }
+
+  /**
+   * Record the processing status of one step on the photo
+   */
+  private static async setStatus(
+    photoId: string,
+    step: ProcessingStep,
+    status: PhotoProcessingStatus
+  ): Promise<void> {
+    await prisma.photo.update({
+      where: { id: photoId },
+      data: this.statusUpdate([step], status)
+    });
+  }
+
+  /**
+   * Run a single enrichment step for a photo
+   */
+  private static async runStep(
+    step: ProcessingStep,
+    photo: Photo,
+    loadImage: () => Promise<Buffer>
+  ): Promise<void> {
+    switch (step) {
+      case 'ai': {
+        const analysis = photo.mediaType === 'video'
+          ? await AIService.describeVideo(await this.loadKeyframes(photo))
+          : await AIService.describeImage(await loadImage());
+
+        // Re-read keywords: a sidecar may have been imported while the analysis ran
+        const { keywords } = await prisma.photo.findUniqueOrThrow({
+          where: { id: photo.id },
+          select: { keywords: true }
+        });
+        await prisma.photo.update({
+          where: { id: photo.id },
+          data: {
+            aiDescription: analysis.description,
+            aiTags: analysis.tags,
+            tags: MetadataImportService.mergeTags(keywords, analysis.tags)
+          }
+        });
+        break;
+      }
+
+      case 'faces': {
+        const detections = await AIService.detectFaces(await loadImage());
+        const existing = await prisma.face.findMany({ where: { photoId: photo.id } });
+
+        // Update faces found again in place so people assignments survive a re-analysis;
+        // never append, so a retried step doesn't duplicate faces
+        const matched = new Set<string>();
+        const updates = [];
+        const created: FaceDetection[] = [];
+
+        for (const detection of detections) {
+          const face = this.closestFace(detection, existing.filter(candidate => !matched.has(candidate.id)));
+          if (!face) {
+            created.push(detection);
+            continue;
+          }
+
+          matched.add(face.id);
+          updates.push(prisma.face.update({
+            where: { id: face.id },
+            data: { boundingBox: detection.boundingBox, confidence: detection.confidence }
+          }));
+        }
+
+        // Faces no longer detected go, unless the user assigned them to a person
+        const stale = existing.filter(face => !matched.has(face.id) && !face.faceGroupId);
+
+        await prisma.$transaction([
+          prisma.face.deleteMany({ where: { id: { in: stale.map(face => face.id) } } }),
+          ...updates,
+          prisma.face.createMany({
+            data: created.map(faceDetection => ({
+              photoId: photo.id,
+              boundingBox: faceDetection.boundingBox,
+              confidence: faceDetection.confidence
+            }))
+          })
+        ]);
+        break;
+      }
+
+      case 'geocode': {
+        if (photo.latitude === null || photo.longitude === null) break;
+
+        const geoData = await GeocodingService.reverseGeocode(photo.latitude, photo.longitude);
+        if (geoData) {
+          await prisma.photo.update({
+            where: { id: photo.id },
+            data: {
+              location: geoData.location,
+              country: geoData.country,
+              city: geoData.city
+            }
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * The existing face a detection overlaps most, if they overlap enough to be the same face
+   */
+  private static closestFace(detection: FaceDetection, faces: Face[]): Face | null {
+    let closest: Face | null = null;
+    let bestOverlap = FACE_MATCH_MIN_IOU;
+
+    for (const face of faces) {
+      const overlap = this.intersectionOverUnion(detection.boundingBox, face.boundingBox as FaceDetection['boundingBox']);
+      if (overlap >= bestOverlap) {
+        closest = face;
+        bestOverlap = overlap;
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Overlap of two boxes: intersection area over union area (0 = disjoint, 1 = identical)
+   */
+  private static intersectionOverUnion(a: FaceDetection['boundingBox'], b: FaceDetection['boundingBox']): number {
+    const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+    const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+    if (width <= 0 || height <= 0) return 0;
+
+    const intersection = width * height;
+    return intersection / (a.width * a.height + b.width * b.height - intersection);
+  }
+
+  /**
+   * Download a video original to a temp file and extract representative keyframes
+   */
+  private static async loadKeyframes(photo: Photo): Promise<Buffer[]> {
+    await TempFiles.ensureDir();
+    const videoPath = path.join(TempFiles.dir, `${photo.id}-${Date.now()}.video`);
+
+    try {
+      await StorageService.downloadOriginal(photo.s3Key, videoPath);
+      return await VideoProcessor.extractKeyframes(videoPath, photo.duration);
+    } finally {
+      await TempFiles.remove(videoPath);
+    }
+  }
+}
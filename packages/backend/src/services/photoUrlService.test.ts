@@ -0,0 +1,39 @@
+import { PhotoUrlService } from './photoUrlService';
+import { StorageService } from './storageService';
+
+const OPTIONS = { width: 800, height: 800, fit: 'inside', format: 'webp' } as const;
+
+describe('PhotoUrlService', () => {
+  beforeAll(() => {
+    process.env.URL_SIGNING_SECRET = 'test-secret';
+  });
+
+  describe('imageUrl', () => {
+    it('carries the image version, so re-rendered images get a new URL', () => {
+      const first = new URL(PhotoUrlService.imageUrl({ id: 'photo-1', imageVersion: 0 }));
+      const second = new URL(PhotoUrlService.imageUrl({ id: 'photo-1', imageVersion: 1 }));
+
+      expect(first.pathname).toBe('/api/photos/photo-1/image');
+      expect(first.searchParams.get('v')).toBe('0');
+      expect(second.searchParams.get('v')).toBe('1');
+      expect(second.searchParams.get('signature')).toBe(first.searchParams.get('signature'));
+    });
+
+    it('leaves the version out when it is unknown', () => {
+      const url = new URL(PhotoUrlService.imageUrl({ id: 'photo-1' }));
+      expect(url.searchParams.has('v')).toBe(false);
+    });
+  });
+});
+
+describe('StorageService.getVariantKey', () => {
+  it('keeps the original key for version 0 and versions later renders', () => {
+    expect(StorageService.getVariantKey('abc.jpg', OPTIONS)).toBe('variants/abc/800x800_inside.webp');
+    expect(StorageService.getVariantKey('abc.jpg', OPTIONS, 2)).toBe('variants/abc/800x800_inside_v2.webp');
+  });
+
+  it('keeps every version under the photo variant prefix', () => {
+    expect(StorageService.getVariantKey('abc.jpg', OPTIONS, 2).startsWith(StorageService.getVariantPrefix('abc.jpg')))
+      .toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+import { StorageService } from './storageService';
+import { UrlSigner } from '../utils/urlSigner';
+
+const SIGNED_URL_TTL_SECONDS = parseInt(process.env.SIGNED_URL_TTL_SECONDS || '3600');
+
+export interface PhotoUrls {
+  originalUrl: string;
+  thumbnailUrl: string;
+  imageUrl: string;
+}
+
+/**
+ * Stored objects are private; API responses carry short-lived signed URLs
+ * generated here at response time instead of persisted public URLs.
+ */
+export class PhotoUrlService {
+  /**
+   * Resource name signed into image URLs for a photo
+   */
+  static imageResource(photoId: string): string {
+    return `photo-image:${photoId}`;
+  }
+
+  /**
+   * Signed URL of the on-demand image route. Clients append w, h, fit and format.
+   * The image version in the URL changes when the photo's images are re-rendered,
+   * so browsers can cache each version for good.
+   */
+  static imageUrl(photo: { id: string; imageVersion?: number }): string {
+    const baseUrl = (process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/$/, '');
+    const version = photo.imageVersion !== undefined ? `?v=${photo.imageVersion}` : '';
+    return UrlSigner.signUrl(
+      `${baseUrl}/api/photos/${photo.id}/image${version}`,
+      this.imageResource(photo.id),
+      SIGNED_URL_TTL_SECONDS
+    );
+  }
+
+  /**
+   * Signed URLs for a photo's original, thumbnail and resizable image
+   */
+  static urls(photo: { id: string; s3Key: string; imageVersion?: number }): PhotoUrls {
+    return {
+      originalUrl: StorageService.getSignedUrl(photo.s3Key, SIGNED_URL_TTL_SECONDS),
+      thumbnailUrl: StorageService.getSignedThumbnailUrl(photo.s3Key, SIGNED_URL_TTL_SECONDS),
+      imageUrl: this.imageUrl(photo)
+    };
+  }
+
+  /**
+   * Add signed URLs to a photo for API responses
+   */
+  static withUrls<T extends { id: string; s3Key: string; imageVersion?: number }>(photo: T): T & PhotoUrls {
+    return {
+      ...photo,
+      ...this.urls(photo)
+    };
+  }
+
+  /**
+   * Signed URL for any stored key (e.g. a face group thumbnail)
+   */
+  static signedKeyUrl(key: string | null | undefined): string | null {
+    return key ? StorageService.signKey(key, SIGNED_URL_TTL_SECONDS) : null;
+  }
+}
@@ -0,0 +1,208 @@
+import { Prisma, ReconciliationRun } from '@prisma/client';
+import { StorageService } from './storageService';
+import { createError } from '../middleware/errorHandler';
+import { prisma } from '../index';
+import { ReconciliationReport } from '../types';
+
+// Prefixes holding per-photo objects; face thumbnails are managed separately
+const PHOTO_OBJECT_PREFIXES = ['photos/', 'thumbnails/', 'renditions/', 'variants/'];
+
+let activeRunId: string | null = null;
+
+/**
+ * Compares stored objects against photo rows. Failed uploads and deletes can leave
+ * objects nothing refers to, or photos whose files are missing.
+ */
+export class ReconciliationService {
+  /**
+   * Start a reconciliation run in the background. Only one run at a time.
+   */
+  static async start(dryRun: boolean): Promise<ReconciliationRun> {
+    if (activeRunId) {
+      throw createError('A reconciliation run is already in progress', 409);
+    }
+
+    // Runs left "running" by a restart will never finish
+    await prisma.reconciliationRun.updateMany({
+      where: { status: 'running' },
+      data: {
+        status: 'failed',
+        error: 'Interrupted by a server restart',
+        finishedAt: new Date()
+      }
+    });
+
+    const run = await prisma.reconciliationRun.create({
+      data: { dryRun }
+    });
+
+    activeRunId = run.id;
+    this.reconcile(dryRun)
+      .then(report => prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'completed',
+          report: report as unknown as Prisma.InputJsonValue,
+          finishedAt: new Date()
+        }
+      }))
+      .catch(error => {
+        console.error('Reconciliation error:', error);
+        return prisma.reconciliationRun.update({
+          where: { id: run.id },
+          data: {
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+            finishedAt: new Date()
+          }
+        });
+      })
+      .catch(error => console.error('Reconciliation status error:', run.id, error))
+      .finally(() => {
+        activeRunId = null;
+      });
+
+    return run;
+  }
+
+  /**
+   * Diff stored objects against photo rows. Unless `dryRun`, orphaned objects are
+   * deleted and missing thumbnails regenerated.
+   */
+  static async reconcile(dryRun: boolean): Promise<ReconciliationReport> {
+    const storage = StorageService.getDriver();
+
+    // List storage before reading rows, so objects of photos created meanwhile aren't flagged
+    const keys = (await Promise.all(PHOTO_OBJECT_PREFIXES.map(prefix => storage.list(prefix)))).flat();
+    const stored = new Set(keys);
+
+    const photos = await prisma.photo.findMany({
+      select: { id: true, s3Key: true, renditionKey: true }
+    });
+
+    const referenced = new Set<string>();
+    const variantPrefixes = new Set<string>();
+
+    const report: ReconciliationReport = {
+      scannedObjects: keys.length,
+      scannedPhotos: photos.length,
+      orphanedObjects: [],
+      missingOriginals: [],
+      missingThumbnails: [],
+      missingRenditions: []
+    };
+
+    for (const photo of photos) {
+      const originalKey = `photos/${photo.s3Key}`;
+      const thumbnailKey = StorageService.getThumbnailKey(photo.s3Key);
+
+      referenced.add(originalKey);
+      referenced.add(thumbnailKey);
+      variantPrefixes.add(StorageService.getVariantPrefix(photo.s3Key));
+
+      if (!stored.has(originalKey)) {
+        report.missingOriginals.push({ photoId: photo.id, key: originalKey });
+      }
+
+      if (!stored.has(thumbnailKey)) {
+        report.missingThumbnails.push({ photoId: photo.id, key: thumbnailKey });
+      }
+
+      if (photo.renditionKey) {
+        referenced.add(photo.renditionKey);
+        if (!stored.has(photo.renditionKey)) {
+          report.missingRenditions.push({ photoId: photo.id, key: photo.renditionKey });
+        }
+      }
+    }
+
+    report.orphanedObjects = keys.filter(key => {
+      if (key.startsWith('variants/')) {
+        return !variantPrefixes.has(key.slice(0, key.lastIndexOf('/') + 1));
+      }
+      return !referenced.has(key);
+    });
+
+    if (!dryRun) {
+      report.repairs = await this.repair(report, photos, stored);
+    }
+
+    return report;
+  }
+
+  /**
+   * Delete orphaned objects and regenerate missing thumbnails
+   */
+  private static async repair(
+    report: ReconciliationReport,
+    photos: Array<{ id: string; s3Key: string; renditionKey: string | null }>,
+    stored: Set<string>
+  ): Promise<NonNullable<ReconciliationReport['repairs']>> {
+    const repairs: NonNullable<ReconciliationReport['repairs']> = {
+      deletedObjects: 0,
+      regeneratedThumbnails: 0,
+      failures: []
+    };
+
+    // A photo may have been created for an object since the scan; never delete its files
+    const orphans = await this.stillUnreferenced(report.orphanedObjects);
+    if (orphans.length > 0) {
+      try {
+        await StorageService.getDriver().delete(orphans);
+        repairs.deletedObjects = orphans.length;
+      } catch (error) {
+        repairs.failures.push({
+          key: orphans[0],
+          error: `Failed to delete ${orphans.length} orphaned objects: ${error instanceof Error ? error.message : error}`
+        });
+      }
+    }
+
+    const photosById = new Map(photos.map(photo => [photo.id, photo]));
+
+    for (const issue of report.missingThumbnails) {
+      const photo = photosById.get(issue.photoId)!;
+      const sourceKey = photo.renditionKey || `photos/${photo.s3Key}`;
+
+      if (!stored.has(sourceKey)) {
+        repairs.failures.push({ key: issue.key, error: `Source image ${sourceKey} is missing` });
+        continue;
+      }
+
+      try {
+        const thumbnailSize = await StorageService.regenerateThumbnail(photo);
+        await prisma.photo.update({
+          where: { id: photo.id },
+          data: { thumbnailSize, variantsSize: 0, imageVersion: { increment: 1 } }
+        });
+        repairs.regeneratedThumbnails++;
+      } catch (error) {
+        repairs.failures.push({ key: issue.key, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return repairs;
+  }
+
+  /**
+   * Filter out objects that belong to a photo created after the scan
+   */
+  private static async stillUnreferenced(keys: string[]): Promise<string[]> {
+    // Every per-photo key has the photo's storage base name as its second segment
+    const baseName = (key: string) => key.split('/')[1].replace(/^thumb_/, '').split('.')[0];
+    const bases = Array.from(new Set(keys.map(baseName)));
+    const referencedBases = new Set<string>();
+
+    for (let i = 0; i < bases.length; i += 500) {
+      const photos = await prisma.photo.findMany({
+        where: {
+          OR: bases.slice(i, i + 500).map(base => ({ s3Key: { startsWith: `${base}.` } }))
+        },
+        select: { s3Key: true }
+      });
+      photos.forEach(photo => referencedBases.add(photo.s3Key.split('.')[0]));
+    }
+
+    return keys.filter(key => !referencedBases.has(baseName(key)));
+  }
+}
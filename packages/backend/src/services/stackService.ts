@@ -0,0 +1,137 @@
+import { Photo } from '@prisma/client';
+import { PerceptualHash } from '../utils/perceptualHash';
+import { prisma } from '../index';
+
+const STACK_TIME_WINDOW_SECONDS = parseInt(process.env.STACK_TIME_WINDOW_SECONDS || '10');
+const STACK_HASH_THRESHOLD = parseInt(process.env.STACK_HASH_THRESHOLD || '10');
+
+type StackCandidate = Pick<Photo, 'id' | 'width' | 'height' | 'fileSize'>;
+
+export class StackService {
+  /**
+   * Put a photo into a stack with a near-identical photo taken within a few seconds.
+   * Joins the match's existing stack or starts a new one. Returns the stack ID, if any.
+   */
+  static async assignStack(photo: Photo): Promise<string | null> {
+    if (!photo.perceptualHash || !photo.dateTaken) {
+      return null;
+    }
+
+    const windowMs = STACK_TIME_WINDOW_SECONDS * 1000;
+    const candidates = await prisma.photo.findMany({
+      where: {
+        userId: photo.userId,
+        id: { not: photo.id },
+        perceptualHash: { not: null },
+        deletedAt: null,
+        dateTaken: {
+          gte: new Date(photo.dateTaken.getTime() - windowMs),
+          lte: new Date(photo.dateTaken.getTime() + windowMs)
+        }
+      },
+      select: {
+        id: true,
+        perceptualHash: true,
+        stackId: true,
+        width: true,
+        height: true,
+        fileSize: true
+      }
+    });
+
+    const closest = candidates
+      .map(candidate => ({
+        candidate,
+        distance: PerceptualHash.distance(photo.perceptualHash!, candidate.perceptualHash!)
+      }))
+      .filter(match => match.distance <= STACK_HASH_THRESHOLD)
+      .sort((a, b) => a.distance - b.distance)[0];
+
+    if (!closest) {
+      return null;
+    }
+
+    const match = closest.candidate;
+
+    if (match.stackId) {
+      await prisma.photo.update({
+        where: { id: photo.id },
+        data: { stackId: match.stackId }
+      });
+      return match.stackId;
+    }
+
+    const stack = await prisma.photoStack.create({
+      data: {
+        userId: photo.userId,
+        bestPhotoId: this.pickBest([match, photo]).id,
+        photos: {
+          connect: [{ id: match.id }, { id: photo.id }]
+        }
+      }
+    });
+
+    return stack.id;
+  }
+
+  /**
+   * Take a photo out of its stack. Stacks left with a single photo are dissolved,
+   * and a new best shot is chosen if the removed photo was the best one.
+   */
+  static async removeFromStack(photoId: string): Promise<void> {
+    const photo = await prisma.photo.findUnique({
+      where: { id: photoId },
+      select: { stackId: true }
+    });
+
+    if (!photo?.stackId) return;
+
+    await prisma.photo.update({
+      where: { id: photoId },
+      data: { stackId: null }
+    });
+
+    await this.repairStack(photo.stackId, photoId);
+  }
+
+  /**
+   * Dissolve a stack with fewer than two photos, or re-pick its best shot if missing
+   */
+  static async repairStack(stackId: string, removedPhotoId?: string): Promise<void> {
+    const stack = await prisma.photoStack.findUnique({
+      where: { id: stackId },
+      include: {
+        photos: {
+          where: removedPhotoId ? { id: { not: removedPhotoId } } : undefined,
+          select: { id: true, width: true, height: true, fileSize: true }
+        }
+      }
+    });
+
+    if (!stack) return;
+
+    if (stack.photos.length < 2) {
+      await prisma.photoStack.delete({ where: { id: stackId } });
+      return;
+    }
+
+    const bestIsMember = stack.photos.some(photo => photo.id === stack.bestPhotoId);
+    if (!bestIsMember) {
+      await prisma.photoStack.update({
+        where: { id: stackId },
+        data: { bestPhotoId: this.pickBest(stack.photos).id }
+      });
+    }
+  }
+
+  /**
+   * Default best shot: highest resolution, then largest file (least compressed)
+   */
+  static pickBest<T extends StackCandidate>(photos: T[]): T {
+    return [...photos].sort((a, b) => {
+      const pixelsA = (a.width || 0) * (a.height || 0);
+      const pixelsB = (b.width || 0) * (b.height || 0);
+      return pixelsB - pixelsA || b.fileSize - a.fileSize;
+    })[0];
+  }
+}
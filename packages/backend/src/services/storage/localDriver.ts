@@ -0,0 +1,153 @@
+import express from 'express';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StorageDriver, StoragePutOptions } from '../../types';
+import { UrlSigner } from '../../utils/urlSigner';
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  private rootDir: string;
+  private baseUrl: string;
+
+  constructor() {
+    this.rootDir = path.resolve(process.env.LOCAL_STORAGE_PATH || 'uploads');
+    this.baseUrl = (
+      process.env.LOCAL_STORAGE_URL || `http://localhost:${process.env.PORT || 3001}/uploads`
+    ).replace(/\/$/, '');
+  }
+
+  /**
+   * Write an object to disk
+   */
+  async put(key: string, body: Buffer | Readable, options: StoragePutOptions): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    if (Buffer.isBuffer(body)) {
+      await fs.writeFile(filePath, body);
+    } else {
+      await pipeline(body, createWriteStream(filePath));
+    }
+  }
+
+  /**
+   * Read an object from disk
+   */
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolvePath(key));
+  }
+
+  /**
+   * Stream an object from disk
+   */
+  getStream(key: string): Readable {
+    return createReadStream(this.resolvePath(key));
+  }
+
+  /**
+   * Delete a set of objects, ignoring ones that are already gone
+   */
+  async delete(keys: string[]): Promise<void> {
+    await Promise.all(keys.map(async (key) => {
+      try {
+        await fs.unlink(this.resolvePath(key));
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }));
+  }
+
+  /**
+   * Get a URL carrying an expiry and HMAC signature
+   */
+  getSignedUrl(key: string, expiresIn: number): string {
+    return UrlSigner.signUrl(this.getUrl(key), `storage:${key}`, expiresIn);
+  }
+
+  /**
+   * List all object keys under a prefix
+   */
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return;
+        throw error;
+      }
+
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else {
+          keys.push(path.relative(this.rootDir, fullPath).split(path.sep).join('/'));
+        }
+      }
+    };
+
+    await walk(this.rootDir);
+    return keys.filter(key => key.startsWith(prefix)).sort();
+  }
+
+  /**
+   * Create the storage directory if necessary
+   */
+  async ensureReady(): Promise<void> {
+    await fs.mkdir(this.rootDir, { recursive: true });
+  }
+
+  /**
+   * Express handlers serving stored files that are requested with a valid signed URL
+   */
+  staticHandler(): express.RequestHandler[] {
+    const verifySignature: express.RequestHandler = (req, res, next) => {
+      const key = decodeURIComponent(req.path).replace(/^\//, '');
+      const { expires, signature } = req.query;
+
+      if (
+        typeof expires !== 'string' ||
+        typeof signature !== 'string' ||
+        !UrlSigner.verify(`storage:${key}`, parseInt(expires), signature)
+      ) {
+        return res.status(403).json({
+          success: false,
+          error: 'Invalid or expired signature'
+        });
+      }
+
+      next();
+    };
+
+    return [
+      verifySignature,
+      express.static(this.rootDir, {
+        index: false,
+        dotfiles: 'deny',
+        setHeaders: (res) => {
+          // Allow the frontend (a different origin) to embed served images
+          res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+          res.setHeader('Cache-Control', 'private, max-age=3600');
+        }
+      })
+    ];
+  }
+
+  private getUrl(key: string): string {
+    return `${this.baseUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,141 @@
+import { Readable } from 'stream';
+import AWS from 'aws-sdk';
+import { StorageDriver, StoragePutOptions } from '../../types';
+
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+
+  private s3: AWS.S3;
+  private bucketName: string;
+
+  constructor() {
+    this.s3 = new AWS.S3({
+      region: process.env.AWS_REGION || 'us-east-1',
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+    });
+    this.bucketName = process.env.AWS_S3_BUCKET || 'travel-memory-photos';
+  }
+
+  /**
+   * Upload a private object. Streams are sent as a multipart upload.
+   */
+  async put(key: string, body: Buffer | Readable, options: StoragePutOptions): Promise<void> {
+    await this.s3.upload({
+      Bucket: this.bucketName,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      ACL: 'private',
+      Metadata: options.metadata
+    }).promise();
+  }
+
+  /**
+   * Download an object into memory
+   */
+  async get(key: string): Promise<Buffer> {
+    const result = await this.s3.getObject({
+      Bucket: this.bucketName,
+      Key: key
+    }).promise();
+
+    return result.Body as Buffer;
+  }
+
+  /**
+   * Stream an object (for large files such as videos)
+   */
+  getStream(key: string): Readable {
+    return this.s3.getObject({
+      Bucket: this.bucketName,
+      Key: key
+    }).createReadStream();
+  }
+
+  /**
+   * Delete a set of objects, batched into DeleteObjects requests
+   */
+  async delete(keys: string[]): Promise<void> {
+    // DeleteObjects accepts at most 1000 keys per request
+    for (let i = 0; i < keys.length; i += 1000) {
+      await this.s3.deleteObjects({
+        Bucket: this.bucketName,
+        Delete: {
+          Objects: keys.slice(i, i + 1000).map(key => ({ Key: key }))
+        }
+      }).promise();
+    }
+  }
+
+  /**
+   * Get a pre-signed GET URL for an object
+   */
+  getSignedUrl(key: string, expiresIn: number): string {
+    return this.s3.getSignedUrl('getObject', {
+      Bucket: this.bucketName,
+      Key: key,
+      Expires: expiresIn
+    });
+  }
+
+  /**
+   * List all object keys under a prefix
+   */
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const result = await this.s3.listObjectsV2({
+        Bucket: this.bucketName,
+        Prefix: prefix,
+        ContinuationToken: continuationToken
+      }).promise();
+
+      for (const object of result.Contents || []) {
+        if (object.Key) keys.push(object.Key);
+      }
+
+      continuationToken = result.IsTruncated ? result.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return keys;
+  }
+
+  /**
+   * Reset an object's ACL to private (for objects uploaded as public-read)
+   */
+  async makePrivate(key: string): Promise<void> {
+    await this.s3.putObjectAcl({
+      Bucket: this.bucketName,
+      Key: key,
+      ACL: 'private'
+    }).promise();
+  }
+
+  /**
+   * Check if bucket exists and create if necessary
+   */
+  async ensureReady(): Promise<void> {
+    try {
+      await this.s3.headBucket({ Bucket: this.bucketName }).promise();
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        try {
+          await this.s3.createBucket({
+            Bucket: this.bucketName,
+            CreateBucketConfiguration: {
+              LocationConstraint: process.env.AWS_REGION || 'us-east-1'
+            }
+          }).promise();
+          console.log(`Created S3 bucket: ${this.bucketName}`);
+        } catch (createError) {
+          console.error('Failed to create S3 bucket:', createError);
+        }
+      } else {
+        console.error('Error checking S3 bucket:', error);
+      }
+    }
+  }
+}
@@ -1,77 +1,88 @@
-import AWS from 'aws-sdk';
+import { createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
 import sharp from 'sharp';
 import { v4 as uuidv4 } from 'uuid';
-import { S3UploadResult } from '../types';
+import { ImageSource, ImageVariant, ImageVariantOptions, S3UploadResult, StorageDriver } from '../types';
+import { S3StorageDriver } from './storage/s3Driver';
+import { LocalStorageDriver } from './storage/localDriver';
 
-// Initialize S3
-const s3 = new AWS.S3({
-  region: process.env.AWS_REGION || 'us-east-1',
-  accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-  secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
-});
-
-const BUCKET_NAME = process.env.AWS_S3_BUCKET || 'travel-memory-photos';
+let driver: StorageDriver | null = null;
 
 export class StorageService {
   /**
-   * Upload image to S3 with thumbnail generation
+   * Get the configured storage driver (STORAGE_DRIVER=s3|local)
+   */
+  static getDriver(): StorageDriver {
+    if (!driver) {
+      const driverName = process.env.STORAGE_DRIVER || 's3';
+      switch (driverName) {
+        case 's3':
+          driver = new S3StorageDriver();
+          break;
+        case 'local':
+          driver = new LocalStorageDriver();
+          break;
+        default:
+          throw new Error(`Unknown storage driver: ${driverName}`);
+      }
+    }
+    return driver;
+  }
+
+  /**
+   * Upload image to storage with thumbnail generation.
+   * Images on disk are streamed to storage rather than read into memory.
+   * A rendition (for HEIC/RAW originals) is stored alongside and used for the thumbnail.
    */
   static async uploadImage(
-    imageBuffer: Buffer,
+    image: ImageSource,
     fileName: string,
-    mimeType: string
+    mimeType: string,
+    rendition?: Buffer
   ): Promise<S3UploadResult> {
     try {
       const fileExtension = fileName.split('.').pop() || 'jpg';
       const uniqueFileName = `${uuidv4()}.${fileExtension}`;
-      const thumbnailFileName = `thumb_${uniqueFileName}`;
+      const thumbnailKey = this.getThumbnailKey(uniqueFileName);
+      const renditionKey = rendition ? this.getRenditionKey(uniqueFileName) : undefined;
 
-      // Generate thumbnail
-      const thumbnailBuffer = await sharp(imageBuffer)
-        .resize(400, 400, {
-          fit: 'inside',
-          withoutEnlargement: true
+      const thumbnailBuffer = await this.renderThumbnail(rendition || image);
+
+      const storage = this.getDriver();
+
+      // Upload original image and thumbnail
+      await Promise.all([
+        storage.put(`photos/${uniqueFileName}`, typeof image === 'string' ? createReadStream(image) : image, {
+          contentType: mimeType,
+          metadata: {
+            originalFileName: fileName,
+            uploadedAt: new Date().toISOString()
+          }
+        }),
+        storage.put(thumbnailKey, thumbnailBuffer, {
+          contentType: 'image/jpeg',
+          metadata: {
+            originalFileName: fileName,
+            type: 'thumbnail',
+            uploadedAt: new Date().toISOString()
+          }
+        }),
+        rendition && storage.put(renditionKey!, rendition, {
+          contentType: 'image/jpeg',
+          metadata: {
+            originalFileName: fileName,
+            type: 'rendition',
+            uploadedAt: new Date().toISOString()
+          }
         })
-        .jpeg({ quality: 80 })
-        .toBuffer();
-
-      // Upload original image
-      const originalUpload = s3.upload({
-        Bucket: BUCKET_NAME,
-        Key: `photos/${uniqueFileName}`,
-        Body: imageBuffer,
-        ContentType: mimeType,
-        ACL: 'public-read',
-        Metadata: {
-          originalFileName: fileName,
-          uploadedAt: new Date().toISOString()
-        }
-      }).promise();
-
-      // Upload thumbnail
-      const thumbnailUpload = s3.upload({
-        Bucket: BUCKET_NAME,
-        Key: `thumbnails/${thumbnailFileName}`,
-        Body: thumbnailBuffer,
-        ContentType: 'image/jpeg',
-        ACL: 'public-read',
-        Metadata: {
-          originalFileName: fileName,
-          type: 'thumbnail',
-          uploadedAt: new Date().toISOString()
-        }
-      }).promise();
-
-      // Wait for both uploads
-      const [originalResult, thumbnailResult] = await Promise.all([
-        originalUpload,
-        thumbnailUpload
       ]);
 
       return {
         key: uniqueFileName,
-        url: originalResult.Location,
-        thumbnailUrl: thumbnailResult.Location
+        thumbnailKey,
+        renditionKey,
+        thumbnailSize: thumbnailBuffer.length,
+        renditionSize: rendition ? rendition.length : 0
       };
     } catch (error) {
       console.error('Storage upload error:', error);
@@ -80,39 +91,97 @@ export class StorageService {
   }
 
   /**
-   * Delete image and thumbnail from S3
+   * Delete image, thumbnail and cached variants from storage
    */
   static async deleteImage(s3Key: string): Promise<void> {
     try {
-      const thumbnailKey = `thumb_${s3Key}`;
-
-      const deleteParams = {
-        Bucket: BUCKET_NAME,
-        Delete: {
-          Objects: [
-            { Key: `photos/${s3Key}` },
-            { Key: `thumbnails/${thumbnailKey}` }
-          ]
-        }
-      };
+      const storage = this.getDriver();
+      const variantKeys = await storage.list(this.getVariantPrefix(s3Key));
 
-      await s3.deleteObjects(deleteParams).promise();
+      await storage.delete([
+        `photos/${s3Key}`,
+        this.getThumbnailKey(s3Key),
+        this.getRenditionKey(s3Key),
+        ...variantKeys
+      ]);
     } catch (error) {
       console.error('Storage delete error:', error);
       // Don't throw error for delete operations
     }
   }
 
+  /**
+   * Storage key of a photo's thumbnail
+   */
+  static getThumbnailKey(s3Key: string): string {
+    return `thumbnails/thumb_${s3Key}`;
+  }
+
+  /**
+   * Regenerate a photo's thumbnail from its display image. Returns the thumbnail's size in bytes.
+   * Cached variants are deleted so the image route renders them again from the same source;
+   * callers reset the photo's `variantsSize` and bump its `imageVersion` so browsers refetch.
+   */
+  static async regenerateThumbnail(
+    photo: { s3Key: string; renditionKey: string | null },
+    displayImage?: Buffer
+  ): Promise<number> {
+    const thumbnailBuffer = await this.renderThumbnail(displayImage || await this.getDisplayImageBuffer(photo));
+
+    await this.getDriver().put(this.getThumbnailKey(photo.s3Key), thumbnailBuffer, {
+      contentType: 'image/jpeg',
+      metadata: {
+        type: 'thumbnail',
+        uploadedAt: new Date().toISOString()
+      }
+    });
+    await this.deleteVariants(photo.s3Key);
+
+    return thumbnailBuffer.length;
+  }
+
+  /**
+   * Delete every cached variant of a photo
+   */
+  static async deleteVariants(s3Key: string): Promise<void> {
+    const storage = this.getDriver();
+    await storage.delete(await storage.list(this.getVariantPrefix(s3Key)));
+  }
+
+  /**
+   * Storage key of a photo's JPEG rendition (HEIC/RAW originals only)
+   */
+  static getRenditionKey(s3Key: string): string {
+    return `renditions/${s3Key.split('.')[0]}.jpg`;
+  }
+
   /**
    * Get signed URL for temporary access
    */
   static getSignedUrl(s3Key: string, expiresIn: number = 3600): string {
+    return this.signKey(`photos/${s3Key}`, expiresIn);
+  }
+
+  /**
+   * Get signed URL for temporary access to a photo's thumbnail
+   */
+  static getSignedThumbnailUrl(s3Key: string, expiresIn: number = 3600): string {
+    return this.signKey(this.getThumbnailKey(s3Key), expiresIn);
+  }
+
+  /**
+   * Get signed URL for temporary access to a generated variant
+   */
+  static getSignedVariantUrl(s3Key: string, options: ImageVariantOptions, expiresIn: number = 3600): string {
+    return this.signKey(this.getVariantKey(s3Key, options), expiresIn);
+  }
+
+  /**
+   * Get signed URL for any stored object key
+   */
+  static signKey(key: string, expiresIn: number = 3600): string {
     try {
-      return s3.getSignedUrl('getObject', {
-        Bucket: BUCKET_NAME,
-        Key: `photos/${s3Key}`,
-        Expires: expiresIn
-      });
+      return this.getDriver().getSignedUrl(key, expiresIn);
     } catch (error) {
       console.error('Error generating signed URL:', error);
       return '';
@@ -120,72 +189,122 @@ export class StorageService {
   }
 
   /**
-   * Get image buffer from S3 for AI processing
+   * Get image buffer from storage for AI processing
    */
   static async getImageBuffer(s3Key: string): Promise<Buffer> {
     try {
-      const params = {
-        Bucket: BUCKET_NAME,
-        Key: `photos/${s3Key}`
-      };
+      return await this.getDriver().get(`photos/${s3Key}`);
+    } catch (error) {
+      console.error('Error fetching image from storage:', error);
+      throw new Error('Failed to fetch image');
+    }
+  }
 
-      const result = await s3.getObject(params).promise();
-      return result.Body as Buffer;
+  /**
+   * Download an original to a local file (e.g. a video for frame extraction)
+   */
+  static async downloadOriginal(s3Key: string, filePath: string): Promise<void> {
+    try {
+      await pipeline(this.getDriver().getStream(`photos/${s3Key}`), createWriteStream(filePath));
     } catch (error) {
-      console.error('Error fetching image from S3:', error);
+      console.error('Error downloading original from storage:', error);
+      throw new Error('Failed to fetch original');
+    }
+  }
+
+  /**
+   * Get the displayable image of a photo: its rendition if it has one, else the original
+   */
+  static async getDisplayImageBuffer(photo: { s3Key: string; renditionKey: string | null }): Promise<Buffer> {
+    if (!photo.renditionKey) {
+      return this.getImageBuffer(photo.s3Key);
+    }
+
+    try {
+      return await this.getDriver().get(photo.renditionKey);
+    } catch (error) {
+      console.error('Error fetching rendition from storage:', error);
       throw new Error('Failed to fetch image');
     }
   }
 
   /**
-   * Generate optimized image variants
+   * Storage key of a resized variant; identical options and image version always map to the same key
+   */
+  static getVariantKey(s3Key: string, options: ImageVariantOptions, imageVersion: number = 0): string {
+    const size = `${options.width || 'auto'}x${options.height || 'auto'}`;
+    const version = imageVersion ? `_v${imageVersion}` : '';
+    return `${this.getVariantPrefix(s3Key)}${size}_${options.fit}${version}.${options.format}`;
+  }
+
+  /**
+   * Storage key prefix shared by all variants of a photo
+   */
+  static getVariantPrefix(s3Key: string): string {
+    return `variants/${s3Key.split('.')[0]}/`;
+  }
+
+  /**
+   * Get a resized/re-encoded variant, generating and caching it in storage on first use
+   */
+  static async getImageVariant(
+    photo: { s3Key: string; renditionKey: string | null; imageVersion: number },
+    options: ImageVariantOptions
+  ): Promise<ImageVariant> {
+    const storage = this.getDriver();
+    const key = this.getVariantKey(photo.s3Key, options, photo.imageVersion);
+    const contentType = `image/${options.format}`;
+
+    try {
+      return { key, contentType, buffer: await storage.get(key), generated: false };
+    } catch (error) {
+      // Not generated yet
+    }
+
+    const originalBuffer = await this.getDisplayImageBuffer(photo);
+    const buffer = await this.renderVariant(originalBuffer, options);
+
+    let generated = false;
+    try {
+      await storage.put(key, buffer, {
+        contentType,
+        metadata: { type: 'variant' }
+      });
+      generated = true;
+    } catch (error) {
+      // Serving the variant matters more than caching it
+      console.error('Error caching image variant:', key, error);
+    }
+
+    return { key, contentType, buffer, generated };
+  }
+
+  /**
+   * Pre-generate the medium (1200px) and large (2400px) JPEG variants and return signed URLs
    */
   static async generateImageVariants(
     originalBuffer: Buffer,
     s3Key: string
   ): Promise<{ medium: string; large: string }> {
     try {
-      // Medium size (1200px)
-      const mediumBuffer = await sharp(originalBuffer)
-        .resize(1200, 1200, {
-          fit: 'inside',
-          withoutEnlargement: true
-        })
-        .jpeg({ quality: 85 })
-        .toBuffer();
-
-      // Large size (2400px)
-      const largeBuffer = await sharp(originalBuffer)
-        .resize(2400, 2400, {
-          fit: 'inside',
-          withoutEnlargement: true
+      const storage = this.getDriver();
+      const sizes = { medium: 1200, large: 2400 };
+
+      const [mediumUrl, largeUrl] = await Promise.all(
+        Object.values(sizes).map(async (size) => {
+          const options: ImageVariantOptions = { width: size, height: size, fit: 'inside', format: 'jpeg' };
+          const buffer = await this.renderVariant(originalBuffer, options);
+          await storage.put(this.getVariantKey(s3Key, options), buffer, {
+            contentType: 'image/jpeg',
+            metadata: { type: 'variant' }
+          });
+          return this.getSignedVariantUrl(s3Key, options);
         })
-        .jpeg({ quality: 90 })
-        .toBuffer();
-
-      const baseName = s3Key.split('.')[0];
-
-      // Upload variants
-      const [mediumResult, largeResult] = await Promise.all([
-        s3.upload({
-          Bucket: BUCKET_NAME,
-          Key: `variants/medium_${baseName}.jpg`,
-          Body: mediumBuffer,
-          ContentType: 'image/jpeg',
-          ACL: 'public-read'
-        }).promise(),
-        s3.upload({
-          Bucket: BUCKET_NAME,
-          Key: `variants/large_${baseName}.jpg`,
-          Body: largeBuffer,
-          ContentType: 'image/jpeg',
-          ACL: 'public-read'
-        }).promise()
-      ]);
+      );
 
       return {
-        medium: mediumResult.Location,
-        large: largeResult.Location
+        medium: mediumUrl,
+        large: largeUrl
       };
     } catch (error) {
       console.error('Error generating image variants:', error);
@@ -194,27 +313,53 @@ export class StorageService {
   }
 
   /**
-   * Check if bucket exists and create if necessary
+   * Render the 400px JPEG thumbnail of an image, upright per its EXIF orientation
    */
-  static async ensureBucketExists(): Promise<void> {
-    try {
-      await s3.headBucket({ Bucket: BUCKET_NAME }).promise();
-    } catch (error) {
-      if (error.statusCode === 404) {
-        try {
-          await s3.createBucket({
-            Bucket: BUCKET_NAME,
-            CreateBucketConfiguration: {
-              LocationConstraint: process.env.AWS_REGION || 'us-east-1'
-            }
-          }).promise();
-          console.log(`Created S3 bucket: ${BUCKET_NAME}`);
-        } catch (createError) {
-          console.error('Failed to create S3 bucket:', createError);
-        }
-      } else {
-        console.error('Error checking S3 bucket:', error);
-      }
+  private static async renderThumbnail(image: ImageSource): Promise<Buffer> {
+    return sharp(image)
+      .rotate()
+      .resize(400, 400, {
+        fit: 'inside',
+        withoutEnlargement: true
+      })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+  }
+
+  /**
+   * Resize and encode an image according to variant options
+   */
+  private static async renderVariant(imageBuffer: Buffer, options: ImageVariantOptions): Promise<Buffer> {
+    let image = sharp(imageBuffer).rotate();
+
+    if (options.width || options.height) {
+      image = image.resize(options.width, options.height, {
+        fit: options.fit,
+        withoutEnlargement: true
+      });
     }
+
+    switch (options.format) {
+      case 'avif':
+        return image.avif({ quality: 50 }).toBuffer();
+      case 'webp':
+        return image.webp({ quality: 80 }).toBuffer();
+      default:
+        return image.jpeg({ quality: 85, mozjpeg: true }).toBuffer();
+    }
+  }
+
+  /**
+   * List stored object keys under a prefix (e.g. `photos/`)
+   */
+  static async listKeys(prefix: string): Promise<string[]> {
+    return this.getDriver().list(prefix);
+  }
+
+  /**
+   * Make sure the storage backend is ready (bucket or directory exists)
+   */
+  static async ensureStorageReady(): Promise<void> {
+    await this.getDriver().ensureReady();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,58 @@
+import { StorageUsageService } from './storageUsageService';
+import { prisma } from '../index';
+
+jest.mock('../index', () => ({
+  prisma: {
+    user: {
+      findUniqueOrThrow: jest.fn()
+    },
+    photo: {
+      aggregate: jest.fn()
+    }
+  }
+}));
+
+const db = prisma as unknown as {
+  user: { findUniqueOrThrow: jest.Mock };
+  photo: { aggregate: jest.Mock };
+};
+
+const MB = 1024 * 1024;
+
+function usage(fileSize: number, thumbnailSize: number = 0) {
+  db.photo.aggregate.mockResolvedValue({
+    _sum: { fileSize, renditionSize: 0, thumbnailSize, variantsSize: 0 }
+  });
+}
+
+describe('StorageUsageService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('assertWithinQuota', () => {
+    it('accepts uploads that fit in the quota', async () => {
+      db.user.findUniqueOrThrow.mockResolvedValue({ storageQuota: BigInt(100 * MB) });
+      usage(60 * MB, 10 * MB);
+
+      await expect(StorageUsageService.assertWithinQuota('user-1', 30 * MB)).resolves.toBeUndefined();
+    });
+
+    it('rejects uploads that would go over the quota with a 413', async () => {
+      db.user.findUniqueOrThrow.mockResolvedValue({ storageQuota: BigInt(100 * MB) });
+      usage(60 * MB, 10 * MB);
+
+      await expect(StorageUsageService.assertWithinQuota('user-1', 31 * MB)).rejects.toMatchObject({
+        statusCode: 413,
+        message: 'Storage quota exceeded: 70.0 MB of 100.0 MB used, this upload needs 31.0 MB'
+      });
+    });
+
+    it('falls back to the default quota for users without their own', async () => {
+      db.user.findUniqueOrThrow.mockResolvedValue({ storageQuota: null });
+      usage(5 * 1024 * MB);
+
+      await expect(StorageUsageService.assertWithinQuota('user-1', 1)).rejects.toMatchObject({ statusCode: 413 });
+    });
+  });
+});
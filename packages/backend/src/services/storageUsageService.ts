@@ -0,0 +1,146 @@
+import { createError } from '../middleware/errorHandler';
+import { prisma } from '../index';
+import { StorageBreakdown, StorageUsage } from '../types';
+
+// Quota for users without one of their own; 0 means unlimited
+const DEFAULT_STORAGE_QUOTA = parseInt(process.env.DEFAULT_STORAGE_QUOTA || '5368709120'); // 5GB default
+
+/**
+ * Per-user storage accounting. Usage is the sum of each photo's original,
+ * rendition, thumbnail and cached variant sizes, so deleting a photo frees its space.
+ */
+export class StorageUsageService {
+  /**
+   * Effective quota of a user in bytes, or null when unlimited
+   */
+  static async getQuota(userId: string): Promise<number | null> {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { storageQuota: true }
+    });
+
+    if (user.storageQuota !== null) {
+      return Number(user.storageQuota);
+    }
+
+    return DEFAULT_STORAGE_QUOTA > 0 ? DEFAULT_STORAGE_QUOTA : null;
+  }
+
+  /**
+   * Total bytes stored for a user, by kind of object
+   */
+  static async getBreakdown(userId: string): Promise<StorageBreakdown> {
+    const { _sum } = await prisma.photo.aggregate({
+      where: { userId },
+      _sum: {
+        fileSize: true,
+        renditionSize: true,
+        thumbnailSize: true,
+        variantsSize: true
+      }
+    });
+
+    const originals = _sum.fileSize || 0;
+    const renditions = _sum.renditionSize || 0;
+    const thumbnails = _sum.thumbnailSize || 0;
+    const variants = _sum.variantsSize || 0;
+
+    return {
+      originals,
+      renditions,
+      thumbnails,
+      variants,
+      total: originals + renditions + thumbnails + variants
+    };
+  }
+
+  /**
+   * Usage summary with the quota and breakdowns by media type and by year taken
+   */
+  static async getUsage(userId: string): Promise<StorageUsage> {
+    const [breakdown, quota, mediaTypes, years] = await Promise.all([
+      this.getBreakdown(userId),
+      this.getQuota(userId),
+      prisma.photo.groupBy({
+        by: ['mediaType'],
+        where: { userId },
+        _count: { _all: true },
+        _sum: {
+          fileSize: true,
+          renditionSize: true,
+          thumbnailSize: true,
+          variantsSize: true
+        }
+      }),
+      // Photos without a capture date count towards the year they were uploaded
+      prisma.$queryRaw<Array<{ year: number | null; count: number; bytes: bigint | null }>>`
+        SELECT EXTRACT(YEAR FROM COALESCE("dateTakenLocal", "dateTaken", "createdAt"))::int AS year,
+               COUNT(*)::int AS count,
+               SUM("fileSize"::bigint + "renditionSize" + "thumbnailSize" + "variantsSize") AS bytes
+        FROM photos
+        WHERE "userId" = ${userId}
+        GROUP BY 1
+        ORDER BY 1 DESC
+      `
+    ]);
+
+    return {
+      ...breakdown,
+      quota,
+      remaining: quota === null ? null : Math.max(0, quota - breakdown.total),
+      byMediaType: mediaTypes.map(group => ({
+        mediaType: group.mediaType,
+        count: group._count._all,
+        bytes: (group._sum.fileSize || 0) + (group._sum.renditionSize || 0) +
+          (group._sum.thumbnailSize || 0) + (group._sum.variantsSize || 0)
+      })),
+      byYear: years.map(row => ({
+        year: row.year,
+        count: row.count,
+        bytes: Number(row.bytes || 0)
+      }))
+    };
+  }
+
+  /**
+   * Reject an upload of `bytes` that would take the user over their quota (413)
+   */
+  static async assertWithinQuota(userId: string, bytes: number): Promise<void> {
+    const quota = await this.getQuota(userId);
+    if (quota === null) return;
+
+    const { total } = await this.getBreakdown(userId);
+    if (total + bytes > quota) {
+      throw createError(
+        `Storage quota exceeded: ${this.formatBytes(total)} of ${this.formatBytes(quota)} used, ` +
+        `this upload needs ${this.formatBytes(bytes)}`,
+        413
+      );
+    }
+  }
+
+  /**
+   * Count a newly cached variant towards its photo's usage
+   */
+  static async recordVariant(photoId: string, bytes: number): Promise<void> {
+    await prisma.photo.update({
+      where: { id: photoId },
+      data: {
+        variantsSize: { increment: bytes }
+      }
+    });
+  }
+
+  private static formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+
+    while (value >= 1024 && unit < units.length - 1) {
+      value /= 1024;
+      unit++;
+    }
+
+    return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+  }
+}
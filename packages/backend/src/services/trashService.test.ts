@@ -0,0 +1,106 @@
+import { TrashService } from './trashService';
+import { StorageService } from './storageService';
+import { StackService } from './stackService';
+import { prisma } from '../index';
+
+jest.mock('../index', () => ({
+  prisma: {
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+    photo: {
+      delete: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn()
+    },
+    locationProposal: {
+      updateMany: jest.fn()
+    }
+  }
+}));
+
+const db = prisma as unknown as {
+  photo: { delete: jest.Mock; findMany: jest.Mock; update: jest.Mock };
+  locationProposal: { updateMany: jest.Mock };
+};
+
+const PHOTO = { id: 'photo-1', s3Key: 'abc.jpg', stackId: 'stack-1' };
+
+describe('TrashService', () => {
+  let deleteImage: jest.SpyInstance;
+  let repairStack: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    deleteImage = jest.spyOn(StorageService, 'deleteImage').mockResolvedValue();
+    repairStack = jest.spyOn(StackService, 'repairStack').mockResolvedValue(undefined as any);
+    db.photo.delete.mockResolvedValue(PHOTO);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('trash', () => {
+    it('leaves the stack and rejects the pending location proposal', async () => {
+      const removeFromStack = jest.spyOn(StackService, 'removeFromStack').mockResolvedValue(undefined as any);
+      db.photo.update.mockResolvedValue({ ...PHOTO, deletedAt: new Date() });
+      db.locationProposal.updateMany.mockResolvedValue({ count: 1 });
+
+      const trashed = await TrashService.trash(PHOTO);
+
+      expect(trashed.deletedAt).toBeInstanceOf(Date);
+      expect(removeFromStack).toHaveBeenCalledWith('photo-1');
+      expect(db.locationProposal.updateMany).toHaveBeenCalledWith({
+        where: { photoId: 'photo-1', status: 'pending' },
+        data: { status: 'rejected', decidedAt: expect.any(Date) }
+      });
+    });
+  });
+
+  describe('purge', () => {
+    it('deletes the row before the stored files, then repairs the stack', async () => {
+      const order: string[] = [];
+      db.photo.delete.mockImplementation(async () => { order.push('row'); });
+      deleteImage.mockImplementation(async () => { order.push('files'); });
+      repairStack.mockImplementation(async () => { order.push('stack'); });
+
+      await TrashService.purge(PHOTO);
+
+      expect(db.photo.delete).toHaveBeenCalledWith({ where: { id: 'photo-1' } });
+      expect(deleteImage).toHaveBeenCalledWith('abc.jpg');
+      expect(order).toEqual(['row', 'files', 'stack']);
+    });
+
+    it('keeps the stored files when the row cannot be deleted', async () => {
+      db.photo.delete.mockRejectedValue(new Error('Foreign key constraint failed'));
+
+      await expect(TrashService.purge(PHOTO)).rejects.toThrow('Foreign key constraint failed');
+      expect(deleteImage).not.toHaveBeenCalled();
+      expect(repairStack).not.toHaveBeenCalled();
+    });
+
+    it('skips the stack repair for unstacked photos', async () => {
+      await TrashService.purge({ ...PHOTO, stackId: null });
+      expect(repairStack).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('purges photos past retention and carries on after a failure', async () => {
+      db.photo.findMany.mockResolvedValue([
+        { id: 'photo-1', s3Key: 'a.jpg', stackId: null },
+        { id: 'photo-2', s3Key: 'b.jpg', stackId: null },
+        { id: 'photo-3', s3Key: 'c.jpg', stackId: null }
+      ]);
+      db.photo.delete.mockImplementation(async ({ where }) => {
+        if (where.id === 'photo-2') throw new Error('Row locked');
+      });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(TrashService.purgeExpired()).resolves.toBe(2);
+
+      const { deletedAt } = db.photo.findMany.mock.calls[0][0].where;
+      expect(Date.now() - deletedAt.lt.getTime()).toBeGreaterThanOrEqual(30 * 24 * 60 * 60 * 1000);
+      expect(deleteImage.mock.calls.map(([key]) => key)).toEqual(['a.jpg', 'c.jpg']);
+    });
+  });
+});
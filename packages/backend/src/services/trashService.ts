@@ -0,0 +1,102 @@
+import { Photo } from '@prisma/client';
+import { StorageService } from './storageService';
+import { StackService } from './stackService';
+import { prisma } from '../index';
+
+const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30');
+
+/**
+ * Soft-delete: trashed photos keep their faces, album memberships and stored
+ * files, but are hidden everywhere until restored or purged.
+ */
+export class TrashService {
+  /**
+   * Move a photo to the trash. It leaves its stack, which is repaired or dissolved, and
+   * its pending location proposal is rejected.
+   */
+  static async trash(photo: Pick<Photo, 'id'>): Promise<Photo> {
+    await StackService.removeFromStack(photo.id);
+
+    const now = new Date();
+    const [trashed] = await prisma.$transaction([
+      prisma.photo.update({
+        where: { id: photo.id },
+        data: { deletedAt: now }
+      }),
+      prisma.locationProposal.updateMany({
+        where: { photoId: photo.id, status: 'pending' },
+        data: { status: 'rejected', decidedAt: now }
+      })
+    ]);
+
+    return trashed;
+  }
+
+  /**
+   * Bring a photo back from the trash and re-stack it with its near-duplicates
+   */
+  static async restore(photo: Pick<Photo, 'id'>): Promise<Photo> {
+    const restored = await prisma.photo.update({
+      where: { id: photo.id },
+      data: { deletedAt: null }
+    });
+
+    try {
+      restored.stackId = await StackService.assignStack(restored);
+    } catch (error) {
+      console.error('Stack assignment error for photo:', restored.id, error);
+    }
+
+    return restored;
+  }
+
+  /**
+   * Permanently delete a photo and its stored files. The row goes first, so a failed
+   * delete leaves the photo intact in the trash; files left behind if storage fails
+   * afterwards are orphans that the next reconciliation run removes.
+   */
+  static async purge(photo: Pick<Photo, 'id' | 's3Key' | 'stackId'>): Promise<void> {
+    // Cascade removes faces, album memberships and processing jobs
+    await prisma.photo.delete({
+      where: { id: photo.id }
+    });
+
+    await StorageService.deleteImage(photo.s3Key);
+
+    if (photo.stackId) {
+      await StackService.repairStack(photo.stackId);
+    }
+  }
+
+  /**
+   * When a trashed photo will be purged automatically
+   */
+  static purgeAt(deletedAt: Date): Date {
+    return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Purge photos trashed longer than TRASH_RETENTION_DAYS. Returns the number purged.
+   */
+  static async purgeExpired(): Promise<number> {
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const expired = await prisma.photo.findMany({
+      where: {
+        deletedAt: { lt: cutoff }
+      },
+      select: { id: true, s3Key: true, stackId: true }
+    });
+
+    let purged = 0;
+    for (const photo of expired) {
+      try {
+        await this.purge(photo);
+        purged++;
+      } catch (error) {
+        console.error('Trash purge error for photo:', photo.id, error);
+      }
+    }
+
+    return purged;
+  }
+}
@@ -0,0 +1,190 @@
+import { createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Photo, UploadSession } from '@prisma/client';
+import { PhotoIngestService } from './photoIngestService';
+import { createError } from '../middleware/errorHandler';
+import { TempFiles } from '../utils/tempFiles';
+import { prisma } from '../index';
+
+const UPLOAD_SESSION_TTL_HOURS = parseInt(process.env.UPLOAD_SESSION_TTL_HOURS || '24');
+
+// Sessions currently receiving a chunk or being finalized; concurrent requests would corrupt the temp file
+const busySessions = new Set<string>();
+
+/**
+ * Resumable uploads: a session is created with the file's size, chunks are
+ * appended to a temp file at the session's offset, and the completed file
+ * is finalized into a photo through the regular ingest path.
+ */
+export class UploadSessionService {
+  /**
+   * Start an upload session
+   */
+  static async create(
+    userId: string,
+    file: { fileName: string; fileSize: number; mimeType: string }
+  ): Promise<UploadSession> {
+    await TempFiles.ensureDir();
+
+    const session = await prisma.uploadSession.create({
+      data: {
+        fileName: file.fileName,
+        mimeType: file.mimeType,
+        totalSize: file.fileSize,
+        expiresAt: this.expiresAt(),
+        userId
+      }
+    });
+
+    await fs.writeFile(this.partPath(session.id), Buffer.alloc(0));
+    return session;
+  }
+
+  /**
+   * Append a chunk at the session's current offset. Bytes received before the
+   * client disconnects are kept, so the upload resumes from wherever it stopped.
+   * Returns the new offset.
+   */
+  static async appendChunk(session: UploadSession, chunk: NodeJS.ReadableStream): Promise<number> {
+    if (busySessions.has(session.id)) {
+      throw createError('Another request is writing to this upload', 409);
+    }
+
+    busySessions.add(session.id);
+    const partPath = this.partPath(session.id);
+
+    try {
+      // Drop bytes written past the recorded offset by an interrupted request
+      await this.ensurePartFile(session, () => fs.truncate(partPath, session.offset));
+
+      let remaining = session.totalSize - session.offset;
+      const limit = new Transform({
+        transform(data: Buffer, encoding, callback) {
+          remaining -= data.length;
+          if (remaining < 0) {
+            callback(createError('Chunk exceeds the declared upload length', 413));
+          } else {
+            callback(null, data);
+          }
+        }
+      });
+
+      let writeError: unknown = null;
+      try {
+        await pipeline(chunk, limit, createWriteStream(partPath, { flags: 'a' }));
+      } catch (error) {
+        writeError = error;
+      }
+
+      const { size } = await fs.stat(partPath);
+      const offset = Math.min(size, session.totalSize);
+
+      await prisma.uploadSession.update({
+        where: { id: session.id },
+        data: {
+          offset,
+          expiresAt: this.expiresAt()
+        }
+      });
+
+      if (writeError) {
+        throw writeError;
+      }
+
+      return offset;
+    } finally {
+      busySessions.delete(session.id);
+    }
+  }
+
+  /**
+   * Turn a fully received upload into a photo and clean up its temp file
+   */
+  static async finalize(session: UploadSession): Promise<{ photo: Photo; duplicate: boolean }> {
+    if (session.offset !== session.totalSize) {
+      throw createError('Upload is incomplete', 409);
+    }
+
+    if (busySessions.has(session.id)) {
+      throw createError('Another request is writing to this upload', 409);
+    }
+
+    busySessions.add(session.id);
+
+    try {
+      await this.ensurePartFile(session, () => fs.access(this.partPath(session.id)));
+      const result = await PhotoIngestService.ingest(this.partPath(session.id), session.fileName, session.userId);
+
+      await prisma.uploadSession.update({
+        where: { id: session.id },
+        data: {
+          status: 'completed',
+          photoId: result.photo.id
+        }
+      });
+
+      await TempFiles.remove(this.partPath(session.id));
+      return result;
+    } finally {
+      busySessions.delete(session.id);
+    }
+  }
+
+  /**
+   * Cancel an upload and discard the received bytes
+   */
+  static async abort(sessionId: string): Promise<void> {
+    await prisma.uploadSession.delete({
+      where: { id: sessionId }
+    });
+    await TempFiles.remove(this.partPath(sessionId));
+  }
+
+  /**
+   * Remove expired sessions and their temp files. Returns the number removed.
+   */
+  static async purgeExpired(): Promise<number> {
+    const expired = await prisma.uploadSession.findMany({
+      where: {
+        expiresAt: { lt: new Date() }
+      },
+      select: { id: true }
+    });
+
+    await TempFiles.remove(...expired.map(session => this.partPath(session.id)));
+
+    const { count } = await prisma.uploadSession.deleteMany({
+      where: {
+        id: { in: expired.map(session => session.id) }
+      }
+    });
+
+    return count;
+  }
+
+  /**
+   * Run a file operation on a session's temp file. If the file is gone (e.g. the OS
+   * cleaned its temp dir), the session is expired with a 410 so the client starts over
+   * instead of retrying.
+   */
+  private static async ensurePartFile(session: UploadSession, operation: () => Promise<void>): Promise<void> {
+    try {
+      await operation();
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+
+      await prisma.uploadSession.deleteMany({ where: { id: session.id } });
+      throw createError('Upload data was lost; start a new upload', 410);
+    }
+  }
+
+  private static partPath(sessionId: string): string {
+    return path.join(TempFiles.dir, `${sessionId}.part`);
+  }
+
+  private static expiresAt(): Date {
+    return new Date(Date.now() + UPLOAD_SESSION_TTL_HOURS * 60 * 60 * 1000);
+  }
+}
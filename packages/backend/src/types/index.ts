@@ -1,24 +1,95 @@
+import { Readable } from 'stream';
 import { Request } from 'express';
 import { User } from '@prisma/client';
 
 // Extend Express Request type to include user
 export interface AuthenticatedRequest extends Request {
   user?: User;
+  signedUrl?: boolean; // Request was authorized by a signed URL instead of a token
 }
 
 // Photo upload types
+export type MediaType = 'image' | 'video';
+
 export interface PhotoMetadata {
   fileName: string;
   mimeType: string;
   fileSize: number;
+  mediaType?: MediaType; // Defaults to image
+  duration?: number; // Seconds (videos)
   width?: number;
   height?: number;
+  orientation?: number; // EXIF orientation (1-8)
   dateTaken?: Date;
+  dateTakenLocal?: Date;
+  utcOffset?: number;
+  timeZone?: string;
+  utcOffsetSource?: UtcOffsetSource;
   latitude?: number;
   longitude?: number;
   altitude?: number;
+  camera?: CameraInfo;
+  descriptive?: DescriptiveMetadata;
+}
+
+// Title, caption, keywords, rating and label from IPTC/XMP, as written by e.g. Lightroom
+export interface DescriptiveMetadata {
+  title?: string;
+  caption?: string;
+  keywords?: string[];
+  rating?: number; // Stars 0-5; -1 marks a reject
+  colorLabel?: string;
+}
+
+// An .xmp sidecar and the photos it was applied to (none if no file name matched)
+export interface SidecarImport {
+  fileName: string;
+  photoIds: string[];
+  // Photos the name matched when it was ambiguous; nothing was written, pass photoIds to choose
+  candidates?: string[];
+}
+
+// Camera and exposure settings read from EXIF
+export interface CameraInfo {
+  make?: string;
+  model?: string;
+  lens?: string;
+  focalLength?: number; // Millimetres
+  aperture?: number; // f-number
+  exposureTime?: number; // Seconds
+  iso?: number;
 }
 
+// Metadata read from an MP4/MOV container
+export interface VideoMetadata {
+  duration?: number;
+  width?: number;
+  height?: number;
+  dateTaken?: Date;
+  dateTakenLocal?: Date;
+  utcOffset?: number;
+  timeZone?: string;
+  utcOffsetSource?: UtcOffsetSource;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+}
+
+// When a photo was taken: the UTC instant and the camera's local wall-clock time,
+// stored as if it were UTC so photos group by the day they were taken locally
+export interface CaptureTimestamp {
+  dateTaken: Date;
+  dateTakenLocal: Date;
+  utcOffset?: number; // Minutes east of UTC; unknown without an EXIF offset or GPS
+  timeZone?: string; // IANA zone at the GPS coordinates
+  utcOffsetSource?: UtcOffsetSource;
+}
+
+// Where a capture time's UTC offset came from: recorded with it (exif), the time zone at
+// the GPS coordinates (location), or a UTC capture instant with its local time from the
+// time zone (instant). Only the latter two follow location edits.
+export type UtcOffsetSource = 'exif' | 'location' | 'instant';
+
 // AI Analysis types
 export interface AIAnalysisResult {
   description: string;
@@ -36,6 +107,66 @@ export interface FaceDetection {
   confidence: number;
 }
 
+// AI provider types
+// Caption and search tags for a photo, or for a video from its keyframes
+export interface ImageAnalysis {
+  description: string;
+  tags: string[];
+}
+
+// Why a model reply couldn't be used: no JSON object in it, malformed JSON, or JSON not matching the schema
+export type AIParseFailure = 'no_json' | 'invalid_json' | 'schema';
+
+export type AIParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; failure: AIParseFailure; error: string };
+
+// Response parsing counters for one caption provider since the server started
+export interface AIResponseMetrics {
+  provider: string;
+  analyses: number; // Analyses that got at least one reply
+  responses: number; // Model replies, including retries
+  parseFailures: Record<AIParseFailure, number>;
+  parseFailureRate: number; // Share of replies that couldn't be used
+  repaired: number; // Analyses that succeeded after a corrective retry
+  failed: number; // Analyses that ended without a usable reply
+  failureRate: number; // Share of analyses without a usable reply
+}
+
+// A face in the match index similar to a searched face
+export interface FaceMatch {
+  faceId: string;
+  externalImageId?: string;
+  similarity: number; // 0-100
+}
+
+export interface CaptionProvider {
+  readonly name: string;
+  // One display image for a photo; a video's keyframes in playback order
+  analyze(images: Buffer[], mediaType: MediaType): Promise<ImageAnalysis>;
+}
+
+export interface FaceDetectionProvider {
+  readonly name: string;
+  detectFaces(image: Buffer): Promise<FaceDetection[]>;
+}
+
+export interface FaceMatchingProvider {
+  readonly name: string;
+  ensureReady(): Promise<void>;
+  indexFace(image: Buffer, externalImageId: string): Promise<string | null>;
+  searchFaces(image: Buffer): Promise<FaceMatch[]>;
+}
+
+// Background processing types
+export type ProcessingStep = 'ai' | 'faces' | 'geocode';
+
+export type StepStatus = 'pending' | 'done' | 'failed';
+
+export type PhotoProcessingStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+export type JobSteps = Partial<Record<ProcessingStep, StepStatus>>;
+
 // Search types
 export interface SearchFilters {
   query?: string;
@@ -73,6 +204,14 @@ export interface AlbumCreationParams {
   photoIds?: string[];
 }
 
+// Criteria an auto-generated album was built from; the date range bounds local capture time
+export interface AlbumCriteria {
+  dateRange?: { start: Date | string; end: Date | string } | null;
+  location?: string | null;
+  tags?: string[];
+  peopleIds?: string[];
+}
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -90,11 +229,89 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   };
 }
 
-// AWS S3 types
+// Storage upload types
 export interface S3UploadResult {
+  key: string; // Original is stored at photos/<key>
+  thumbnailKey: string;
+  renditionKey?: string; // JPEG rendition of originals that can't be displayed directly
+  thumbnailSize: number;
+  renditionSize: number;
+}
+
+// Storage driver types
+
+// Image data held in memory or a path to a file on disk (streamed, never fully buffered)
+export type ImageSource = Buffer | string;
+
+export interface StoragePutOptions {
+  contentType: string;
+  metadata?: Record<string, string>;
+}
+
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, body: Buffer | Readable, options: StoragePutOptions): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  getStream(key: string): Readable;
+  delete(keys: string[]): Promise<void>;
+  getSignedUrl(key: string, expiresIn: number): string;
+  list(prefix: string): Promise<string[]>;
+  ensureReady(): Promise<void>;
+}
+
+// Image variant types
+export type ImageFit = 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+
+export type ImageFormat = 'avif' | 'webp' | 'jpeg';
+
+export interface ImageVariantOptions {
+  width?: number;
+  height?: number;
+  fit: ImageFit;
+  format: ImageFormat;
+}
+
+export interface ImageVariant {
   key: string;
-  url: string;
-  thumbnailUrl?: string;
+  contentType: string;
+  buffer: Buffer;
+  generated: boolean; // Newly rendered and added to the variant cache
+}
+
+// Storage usage types
+export interface StorageBreakdown {
+  originals: number;
+  renditions: number;
+  thumbnails: number;
+  variants: number;
+  total: number;
+}
+
+export interface StorageUsage extends StorageBreakdown {
+  quota: number | null; // null when unlimited
+  remaining: number | null;
+  byMediaType: Array<{ mediaType: string; count: number; bytes: number }>;
+  byYear: Array<{ year: number | null; count: number; bytes: number }>;
+}
+
+// Storage reconciliation types
+export interface ReconciliationIssue {
+  photoId: string;
+  key: string;
+}
+
+export interface ReconciliationReport {
+  scannedObjects: number;
+  scannedPhotos: number;
+  orphanedObjects: string[]; // Stored objects that no photo refers to
+  missingOriginals: ReconciliationIssue[]; // Reported only; the photo can't be recovered
+  missingThumbnails: ReconciliationIssue[];
+  missingRenditions: ReconciliationIssue[]; // Reported only
+  repairs?: {
+    deletedObjects: number;
+    regeneratedThumbnails: number;
+    failures: Array<{ key: string; error: string }>;
+  };
 }
 
 // Geolocation types
@@ -104,4 +321,130 @@ export interface GeolocationData {
   location: string;
   country: string;
   city: string;
-}
\ No newline at end of file
+}
+// Where a photo's coordinates came from
+export type LocationSource = 'exif' | 'track' | 'inferred' | 'user';
+
+// A user's location edit: coordinates, a place name to look up, or null coordinates to clear
+export interface LocationEdit {
+  latitude?: number | null;
+  longitude?: number | null;
+  altitude?: number | null;
+  place?: string;
+}
+
+// Location inference types
+export type LocationProposalStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface LocationProposalFilter {
+  ids?: string[];
+  minConfidence?: number;
+  maxConfidence?: number;
+}
+
+// GPS track types
+export type TrackFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  time: number; // Milliseconds since epoch (UTC)
+}
+
+export interface ParsedTrack {
+  name?: string;
+  format: TrackFormat;
+  points: TrackPoint[]; // Sorted by time
+}
+
+export interface GeotagOptions {
+  maxGapSeconds: number; // Furthest a photo may be from a track point in time
+  clockOffsetSeconds: number; // Added to dateTaken to correct the camera clock
+}
+
+export interface GeotagMatch {
+  photoId: string;
+  fileName: string;
+  dateTaken: Date;
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  timeDelta: number; // Seconds between the corrected photo time and the nearest track point
+  interpolated: boolean; // Position interpolated between the two surrounding points
+}
+
+// Date shift types
+export interface DateShiftRequest {
+  photoIds?: string[];
+  filter?: {
+    cameraMake?: string;
+    cameraModel?: string;
+    dateFrom?: string; // Local capture day
+    dateTo?: string;
+  };
+  offsetSeconds?: number;
+  // Shift so that `photoId` gets the time of `referencePhotoId`, or `dateTaken`
+  align?: {
+    photoId: string;
+    referencePhotoId?: string;
+    dateTaken?: string;
+  };
+}
+
+export interface DateShiftChange {
+  photoId: string;
+  dateTaken: string;
+  dateTakenLocal: string | null;
+}
+
+export interface DateShiftPreview {
+  offsetSeconds: number;
+  photos: Array<{
+    photoId: string;
+    fileName: string;
+    before: { dateTaken: Date; dateTakenLocal: Date | null };
+    after: { dateTaken: Date; dateTakenLocal: Date | null };
+  }>;
+}
+
+// Export types
+// embed: write the library's metadata into exported files; strip: drop location and device metadata for sharing
+export type ExportMetadataMode = 'embed' | 'strip';
+
+// A named person's face, normalized to the upright image (top-left origin)
+export interface PersonRegion {
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Metadata written into an exported file
+export interface ExportMetadata {
+  title?: string;
+  caption?: string;
+  keywords: string[];
+  rating?: number;
+  colorLabel?: string;
+  dateTakenLocal?: Date; // Camera wall-clock time, as UTC
+  utcOffset?: number; // Minutes east of UTC
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+  city?: string;
+  country?: string;
+  camera?: CameraInfo;
+  orientation?: number; // EXIF orientation of the pixels as stored
+  width?: number; // Displayed size, for person regions
+  height?: number;
+  people: PersonRegion[];
+}
+
+// A file in a download or export: in memory, or a temp file the caller removes
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: ImageSource;
+}
@@ -0,0 +1,72 @@
+import { AIResponseParser } from './aiResponseParser';
+
+describe('AIResponseParser', () => {
+  describe('extractJson', () => {
+    it('returns a bare object', () => {
+      expect(AIResponseParser.extractJson('{"a": 1}')).toBe('{"a": 1}');
+    });
+
+    it('prefers a fenced block over braces in the surrounding prose', () => {
+      const content = 'Here it is {as requested}:\n```json\n{"a": 1}\n```\nDone.';
+      expect(AIResponseParser.extractJson(content)).toBe('{"a": 1}');
+    });
+
+    it('finds the object inside prose', () => {
+      expect(AIResponseParser.extractJson('Sure! {"a": {"b": 2}} Hope that helps.')).toBe('{"a": {"b": 2}}');
+    });
+
+    it('ignores braces and escaped quotes inside strings', () => {
+      const json = '{"description": "a \\"}\\" sign {", "tags": ["x"]}';
+      expect(AIResponseParser.extractJson(`${json} trailing }`)).toBe(json);
+    });
+
+    it('returns null without a complete object', () => {
+      expect(AIResponseParser.extractJson('I cannot see the image.')).toBeNull();
+      expect(AIResponseParser.extractJson('{"description": "cut off')).toBeNull();
+    });
+  });
+
+  describe('parseAnalysis', () => {
+    it('accepts a valid reply and normalizes tags', () => {
+      const result = AIResponseParser.parseAnalysis(
+        '```json\n{"description": "  A beach at sunset. ", "tags": ["Beach", " sunset ", "beach", ""]}\n```'
+      );
+
+      expect(result).toEqual({
+        ok: true,
+        value: { description: 'A beach at sunset.', tags: ['beach', 'sunset'] }
+      });
+    });
+
+    it('reports a reply without JSON', () => {
+      expect(AIResponseParser.parseAnalysis('A beach at sunset.')).toMatchObject({ ok: false, failure: 'no_json' });
+    });
+
+    it('reports malformed JSON', () => {
+      expect(AIResponseParser.parseAnalysis('{"description": "A beach", "tags": [beach]}'))
+        .toMatchObject({ ok: false, failure: 'invalid_json' });
+    });
+
+    it('reports replies that do not match the schema', () => {
+      const schemaFailure = { ok: false, failure: 'schema' };
+
+      expect(AIResponseParser.parseAnalysis('{"tags": ["beach"]}')).toMatchObject(schemaFailure);
+      expect(AIResponseParser.parseAnalysis('{"description": "  ", "tags": ["beach"]}')).toMatchObject(schemaFailure);
+      expect(AIResponseParser.parseAnalysis('{"description": "A beach", "tags": "beach"}')).toMatchObject(schemaFailure);
+      expect(AIResponseParser.parseAnalysis('{"description": "A beach", "tags": ["beach", 3]}')).toMatchObject(schemaFailure);
+      expect(AIResponseParser.parseAnalysis('{"description": "A beach", "tags": [" "]}')).toMatchObject(schemaFailure);
+    });
+
+    it('caps the description and tags', () => {
+      const result = AIResponseParser.parseAnalysis(JSON.stringify({
+        description: 'x'.repeat(1500),
+        tags: [...Array.from({ length: 40 }, (_, index) => `tag${index}`), 'y'.repeat(51)]
+      }));
+
+      if (!result.ok) throw new Error(result.error);
+      expect(result.value.description).toHaveLength(1000);
+      expect(result.value.tags).toHaveLength(30);
+      expect(result.value.tags).not.toContain('y'.repeat(51));
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { AIParseResult, ImageAnalysis } from '../types';
+
+// Limits that keep a rambling reply from flooding captions and tag filters
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_TAGS = 30;
+const MAX_TAG_LENGTH = 50;
+
+export class AIResponseParser {
+  /**
+   * The JSON object in a model reply. Tolerates Markdown code fences and prose around
+   * the object; returns null if there is none.
+   */
+  static extractJson(content: string): string | null {
+    // Prefer a fenced block, since prose outside it may contain braces
+    const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const text = fenced && fenced[1].includes('{') ? fenced[1] : content;
+
+    const start = text.indexOf('{');
+    if (start === -1) return null;
+
+    // Find the matching closing brace, skipping braces inside strings
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+
+      if (inString) {
+        if (char === '\\') i++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        return text.slice(start, i + 1);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse and validate a caption/tags reply: `{"description": string, "tags": string[]}`.
+   * Tags are trimmed, lowercased and de-duplicated.
+   */
+  static parseAnalysis(content: string): AIParseResult<ImageAnalysis> {
+    const json = this.extractJson(content);
+    if (!json) {
+      return { ok: false, failure: 'no_json', error: 'the reply contains no JSON object' };
+    }
+
+    let value: any;
+    try {
+      value = JSON.parse(json);
+    } catch (error: any) {
+      return { ok: false, failure: 'invalid_json', error: `the JSON is malformed (${error.message})` };
+    }
+
+    const description = typeof value.description === 'string' ? value.description.trim() : '';
+    if (!description) {
+      return { ok: false, failure: 'schema', error: '"description" must be a non-empty string' };
+    }
+
+    if (!Array.isArray(value.tags) || value.tags.some((tag: unknown) => typeof tag !== 'string')) {
+      return { ok: false, failure: 'schema', error: '"tags" must be an array of strings' };
+    }
+
+    const tags = Array.from(new Set(
+      (value.tags as string[])
+        .map(tag => tag.trim().toLowerCase())
+        .filter(tag => tag && tag.length <= MAX_TAG_LENGTH)
+    )).slice(0, MAX_TAGS);
+
+    if (tags.length === 0) {
+      return { ok: false, failure: 'schema', error: '"tags" must contain at least one tag' };
+    }
+
+    return {
+      ok: true,
+      value: {
+        description: description.slice(0, MAX_DESCRIPTION_LENGTH),
+        tags
+      }
+    };
+  }
+}
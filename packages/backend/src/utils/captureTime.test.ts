@@ -0,0 +1,188 @@
+import { CaptureTime } from './captureTime';
+
+const TOKYO = { latitude: 35.6762, longitude: 139.6503 };
+const PARIS = { latitude: 48.8566, longitude: 2.3522 };
+const NEW_YORK = { latitude: 40.7128, longitude: -74.006 };
+
+describe('CaptureTime', () => {
+  describe('fromLocalTime', () => {
+    it('uses the EXIF offset when present', () => {
+      const local = new Date('2024-03-01T09:30:00Z');
+      const capture = CaptureTime.fromLocalTime(local, '-05:00');
+
+      expect(capture.dateTaken.toISOString()).toBe('2024-03-01T14:30:00.000Z');
+      expect(capture.dateTakenLocal).toBe(local);
+      expect(capture.utcOffset).toBe(-300);
+      expect(capture.timeZone).toBeUndefined();
+    });
+
+    it('prefers the EXIF offset over the time zone at the location', () => {
+      const capture = CaptureTime.fromLocalTime(
+        new Date('2024-03-01T09:30:00Z'), 60, TOKYO.latitude, TOKYO.longitude
+      );
+
+      expect(capture.utcOffset).toBe(60);
+      expect(capture.timeZone).toBe('Asia/Tokyo');
+      expect(capture.dateTaken.toISOString()).toBe('2024-03-01T08:30:00.000Z');
+    });
+
+    it('derives the offset from the time zone at the GPS coordinates', () => {
+      const capture = CaptureTime.fromLocalTime(
+        new Date('2024-03-01T09:30:00Z'), undefined, TOKYO.latitude, TOKYO.longitude
+      );
+
+      expect(capture.utcOffset).toBe(540);
+      expect(capture.dateTaken.toISOString()).toBe('2024-03-01T00:30:00.000Z');
+    });
+
+    it('applies daylight saving time at the capture date', () => {
+      const winter = CaptureTime.fromLocalTime(
+        new Date('2024-01-15T12:00:00Z'), undefined, PARIS.latitude, PARIS.longitude
+      );
+      const summer = CaptureTime.fromLocalTime(
+        new Date('2024-07-15T12:00:00Z'), undefined, PARIS.latitude, PARIS.longitude
+      );
+
+      expect(winter.utcOffset).toBe(60);
+      expect(summer.utcOffset).toBe(120);
+    });
+
+    it('treats the local time as the instant without an offset or location', () => {
+      const local = new Date('2024-03-01T09:30:00Z');
+      const capture = CaptureTime.fromLocalTime(local);
+
+      expect(capture.dateTaken.getTime()).toBe(local.getTime());
+      expect(capture.utcOffset).toBeUndefined();
+      expect(capture.timeZone).toBeUndefined();
+    });
+  });
+
+  describe('fromInstant', () => {
+    it('derives the local time from the time zone at the GPS coordinates', () => {
+      const instant = new Date('2024-01-15T17:00:00Z');
+      const capture = CaptureTime.fromInstant(instant, NEW_YORK.latitude, NEW_YORK.longitude);
+
+      expect(capture.dateTaken).toBe(instant);
+      expect(capture.dateTakenLocal.toISOString()).toBe('2024-01-15T12:00:00.000Z');
+      expect(capture.utcOffset).toBe(-300);
+      expect(capture.timeZone).toBe('America/New_York');
+    });
+
+    it('keeps the instant as the local time without a location', () => {
+      const instant = new Date('2024-01-15T17:00:00Z');
+      const capture = CaptureTime.fromInstant(instant);
+
+      expect(capture.dateTakenLocal.getTime()).toBe(instant.getTime());
+      expect(capture.utcOffset).toBeUndefined();
+    });
+  });
+
+  describe('relocate', () => {
+    const local = new Date('2024-03-01T09:30:00Z');
+
+    it('reads a local time in the time zone of the new coordinates', () => {
+      const capture = CaptureTime.relocate(
+        { dateTaken: local, dateTakenLocal: local, utcOffset: null, utcOffsetSource: null },
+        TOKYO.latitude, TOKYO.longitude
+      );
+
+      expect(capture?.dateTaken.toISOString()).toBe('2024-03-01T00:30:00.000Z');
+      expect(capture?.utcOffsetSource).toBe('location');
+    });
+
+    it('keeps recorded offsets, including those stored before sources were', () => {
+      const dateTaken = new Date('2024-03-01T14:30:00Z');
+      const capture = CaptureTime.relocate(
+        { dateTaken, dateTakenLocal: local, utcOffset: -300, utcOffsetSource: null },
+        TOKYO.latitude, TOKYO.longitude
+      );
+
+      expect(capture?.dateTaken.getTime()).toBe(dateTaken.getTime());
+      expect(capture?.utcOffset).toBe(-300);
+      expect(capture?.timeZone).toBe('Asia/Tokyo');
+      expect(capture?.utcOffsetSource).toBe('exif');
+    });
+
+    it('keeps a UTC instant and moves its local time', () => {
+      const instant = new Date('2024-01-15T17:00:00Z');
+      const capture = CaptureTime.relocate(
+        { dateTaken: instant, dateTakenLocal: instant, utcOffset: null, utcOffsetSource: 'instant' },
+        NEW_YORK.latitude, NEW_YORK.longitude
+      );
+
+      expect(capture?.dateTaken).toBe(instant);
+      expect(capture?.dateTakenLocal.toISOString()).toBe('2024-01-15T12:00:00.000Z');
+    });
+  });
+
+  describe('toWallClock', () => {
+    it('parses EXIF date strings as wall-clock time', () => {
+      expect(CaptureTime.toWallClock('2024:03:01 09:30:15')?.toISOString()).toBe('2024-03-01T09:30:15.000Z');
+      expect(CaptureTime.toWallClock('2024-03-01T09:30:15+09:00')?.toISOString()).toBe('2024-03-01T09:30:15.000Z');
+    });
+
+    it('reads dates revived in the server time zone with local getters', () => {
+      const revived = new Date(2024, 2, 1, 9, 30, 15);
+      expect(CaptureTime.toWallClock(revived)?.toISOString()).toBe('2024-03-01T09:30:15.000Z');
+    });
+
+    it('returns undefined for invalid dates', () => {
+      expect(CaptureTime.toWallClock('not a date')).toBeUndefined();
+      expect(CaptureTime.toWallClock(new Date(NaN))).toBeUndefined();
+    });
+  });
+
+  describe('parseOffset', () => {
+    it('parses offsets into minutes east of UTC', () => {
+      expect(CaptureTime.parseOffset('+09:00')).toBe(540);
+      expect(CaptureTime.parseOffset('-0530')).toBe(-330);
+      expect(CaptureTime.parseOffset(' +05:45 ')).toBe(345);
+      expect(CaptureTime.parseOffset('Z')).toBe(0);
+    });
+
+    it('returns undefined for malformed offsets', () => {
+      expect(CaptureTime.parseOffset('9')).toBeUndefined();
+      expect(CaptureTime.parseOffset('+9:00')).toBeUndefined();
+      expect(CaptureTime.parseOffset('')).toBeUndefined();
+    });
+  });
+
+  describe('timeZoneAt', () => {
+    it('looks up the IANA time zone', () => {
+      expect(CaptureTime.timeZoneAt(TOKYO.latitude, TOKYO.longitude)).toBe('Asia/Tokyo');
+    });
+
+    it('returns undefined without coordinates or for invalid ones', () => {
+      expect(CaptureTime.timeZoneAt(undefined, TOKYO.longitude)).toBeUndefined();
+      expect(CaptureTime.timeZoneAt(200, 500)).toBeUndefined();
+    });
+  });
+
+  describe('offsetAt', () => {
+    it('returns the offset in effect at an instant', () => {
+      expect(CaptureTime.offsetAt('America/New_York', new Date('2024-01-15T12:00:00Z'))).toBe(-300);
+      expect(CaptureTime.offsetAt('America/New_York', new Date('2024-07-15T12:00:00Z'))).toBe(-240);
+      expect(CaptureTime.offsetAt('Asia/Kolkata', new Date('2024-07-15T12:00:00Z'))).toBe(330);
+      expect(CaptureTime.offsetAt('UTC', new Date('2024-07-15T12:00:00.750Z'))).toBe(0);
+    });
+  });
+
+  describe('localDateFilter', () => {
+    it('returns undefined without a range', () => {
+      expect(CaptureTime.localDateFilter()).toBeUndefined();
+    });
+
+    it('includes the whole day for a date-only end', () => {
+      expect(CaptureTime.localDateFilter('2024-03-01', '2024-03-05')).toEqual({
+        gte: new Date('2024-03-01T00:00:00Z'),
+        lt: new Date('2024-03-06T00:00:00Z')
+      });
+    });
+
+    it('keeps an exact end time', () => {
+      expect(CaptureTime.localDateFilter(undefined, '2024-03-05T12:00:00Z')).toEqual({
+        lte: new Date('2024-03-05T12:00:00Z')
+      });
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import tzLookup from '@photostructure/tz-lookup';
+import { Photo } from '@prisma/client';
+import { CaptureTimestamp, UtcOffsetSource } from '../types';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Capture timestamps. Cameras record local wall-clock time, so a photo keeps both the
+ * UTC instant and its local time (stored as if it were UTC, for grouping by local day).
+ */
+export class CaptureTime {
+  /**
+   * Build a capture timestamp from the camera's local time. The UTC offset comes from the
+   * EXIF offset tag when present, otherwise from the time zone at the GPS coordinates.
+   * Without either, the local time is also used as the instant.
+   */
+  static fromLocalTime(
+    localTime: Date,
+    offset?: number | string,
+    latitude?: number,
+    longitude?: number
+  ): CaptureTimestamp {
+    const timeZone = this.timeZoneAt(latitude, longitude);
+    let utcOffset = typeof offset === 'string' ? this.parseOffset(offset) : offset;
+    let utcOffsetSource: UtcOffsetSource | undefined = utcOffset !== undefined ? 'exif' : undefined;
+
+    if (utcOffset === undefined && timeZone) {
+      // Offset at the local time, re-checked once in case the guess crossed a DST change
+      const guess = this.offsetAt(timeZone, localTime);
+      utcOffset = this.offsetAt(timeZone, new Date(localTime.getTime() - guess * 60000));
+      utcOffsetSource = 'location';
+    }
+
+    return {
+      dateTaken: new Date(localTime.getTime() - (utcOffset || 0) * 60000),
+      dateTakenLocal: localTime,
+      utcOffset,
+      timeZone,
+      utcOffsetSource
+    };
+  }
+
+  /**
+   * Build a capture timestamp from a UTC instant (e.g. an MP4 creation time), with the
+   * local time derived from the time zone at the GPS coordinates
+   */
+  static fromInstant(instant: Date, latitude?: number, longitude?: number): CaptureTimestamp {
+    const timeZone = this.timeZoneAt(latitude, longitude);
+    const utcOffset = timeZone ? this.offsetAt(timeZone, instant) : undefined;
+
+    return {
+      dateTaken: instant,
+      dateTakenLocal: new Date(instant.getTime() + (utcOffset || 0) * 60000),
+      utcOffset,
+      timeZone,
+      utcOffsetSource: 'instant'
+    };
+  }
+
+  /**
+   * A stored capture time re-read at new coordinates (undefined without one). Offsets
+   * recorded with the capture time are kept; otherwise a local time gets the offset at the
+   * new location, and a UTC instant its local time there.
+   */
+  static relocate(
+    photo: Pick<Photo, 'dateTaken' | 'dateTakenLocal' | 'utcOffset' | 'utcOffsetSource'>,
+    latitude: number,
+    longitude: number
+  ): CaptureTimestamp | undefined {
+    if (!photo.dateTaken || !photo.dateTakenLocal) return undefined;
+
+    if (photo.utcOffsetSource === 'instant') {
+      return this.fromInstant(photo.dateTaken, latitude, longitude);
+    }
+
+    const recorded = photo.utcOffsetSource === 'location' ? undefined : photo.utcOffset ?? undefined;
+    return this.fromLocalTime(photo.dateTakenLocal, recorded, latitude, longitude);
+  }
+
+  /**
+   * Read an EXIF date ("YYYY:MM:DD HH:MM:SS") as wall-clock time stored as UTC.
+   * exifr revives dates in the server's time zone, so those are read back with local getters.
+   */
+  static toWallClock(value: Date | string): Date | undefined {
+    if (value instanceof Date) {
+      if (isNaN(value.getTime())) return undefined;
+      return new Date(Date.UTC(
+        value.getFullYear(), value.getMonth(), value.getDate(),
+        value.getHours(), value.getMinutes(), value.getSeconds()
+      ));
+    }
+
+    const match = value.match(/^(\d{4})[-:](\d{2})[-:](\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return undefined;
+
+    const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  /**
+   * Parse a UTC offset ("+09:00", "-0530", "Z") into minutes east of UTC
+   */
+  static parseOffset(value: string): number | undefined {
+    const trimmed = value.trim();
+    if (trimmed === 'Z') return 0;
+
+    const match = trimmed.match(/^([+-])(\d{2}):?(\d{2})$/);
+    if (!match) return undefined;
+
+    const minutes = parseInt(match[2]) * 60 + parseInt(match[3]);
+    return match[1] === '-' ? -minutes : minutes;
+  }
+
+  /**
+   * IANA time zone at a location (offline lookup)
+   */
+  static timeZoneAt(latitude?: number, longitude?: number): string | undefined {
+    if (latitude === undefined || longitude === undefined) return undefined;
+
+    try {
+      return tzLookup(latitude, longitude);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * UTC offset of a time zone at an instant, in minutes east of UTC
+   */
+  static offsetAt(timeZone: string, instant: Date): number {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+      });
+      formatters.set(timeZone, formatter);
+    }
+
+    const parts = Object.fromEntries(
+      formatter.formatToParts(instant).map(part => [part.type, parseInt(part.value)])
+    );
+    const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+
+    return Math.round((local - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+  }
+
+  /**
+   * Filter on `dateTakenLocal` for a from/to range. Date-only values ("2024-03-01") are
+   * local days, so `to` includes that whole day.
+   */
+  static localDateFilter(from?: string, to?: string): { gte?: Date; lt?: Date; lte?: Date } | undefined {
+    if (!from && !to) return undefined;
+
+    const filter: { gte?: Date; lt?: Date; lte?: Date } = {};
+    if (from) {
+      filter.gte = new Date(from);
+    }
+    if (to) {
+      if (DATE_ONLY.test(to)) {
+        filter.lt = new Date(new Date(to).getTime() + DAY_MS);
+      } else {
+        filter.lte = new Date(to);
+      }
+    }
+
+    return filter;
+  }
+}
@@ -0,0 +1,106 @@
+import { ConcurrencyLimiter } from './concurrencyLimiter';
+
+// A task that resolves when the test says so
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void; reject: (error: Error) => void } {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ConcurrencyLimiter', () => {
+  it('runs at most `limit` tasks at a time', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const tasks = [deferred<void>(), deferred<void>(), deferred<void>()];
+    const started: number[] = [];
+
+    const runs = tasks.map((task, index) => limiter.run(() => {
+      started.push(index);
+      return task.promise;
+    }));
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+
+    tasks[0].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[1].resolve();
+    tasks[2].resolve();
+    await Promise.all(runs);
+  });
+
+  it('starts waiting tasks in FIFO order', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const blocker = deferred<void>();
+    const started: string[] = [];
+
+    const runs = [
+      limiter.run(() => blocker.promise),
+      ...['a', 'b', 'c'].map(name => limiter.run(async () => {
+        started.push(name);
+      }))
+    ];
+
+    await flush();
+    expect(started).toEqual([]);
+
+    blocker.resolve();
+    await Promise.all(runs);
+    expect(started).toEqual(['a', 'b', 'c']);
+  });
+
+  it('hands a released slot to the waiting task, not to a new caller', async () => {
+    // New callers arrive a varying number of microtasks after the first task finishes,
+    // including the moment its slot is released but the waiting task hasn't resumed yet
+    for (let ticks = 0; ticks < 10; ticks++) {
+      const limiter = new ConcurrencyLimiter(1);
+      const first = deferred<void>();
+      let running = 0;
+      let maxRunning = 0;
+
+      const track = (task: () => Promise<void>) => limiter.run(async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        try {
+          await task();
+        } finally {
+          running--;
+        }
+      });
+
+      const runs = [track(() => first.promise), track(async () => {})];
+
+      first.resolve();
+      for (let i = 0; i < ticks; i++) {
+        await Promise.resolve();
+      }
+      runs.push(track(async () => {}));
+
+      await Promise.all(runs);
+      expect({ ticks, maxRunning }).toEqual({ ticks, maxRunning: 1 });
+    }
+  });
+
+  it('returns task results', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    await expect(limiter.run(async () => 42)).resolves.toBe(42);
+  });
+
+  it('frees the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const failing = deferred<void>();
+
+    const first = limiter.run(() => failing.promise);
+    const second = limiter.run(async () => 'done');
+
+    failing.reject(new Error('boom'));
+    await expect(first).rejects.toThrow('boom');
+    await expect(second).resolves.toBe('done');
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Runs at most `limit` async tasks at a time; the rest wait in FIFO order.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  /**
+   * Run a task once a slot is free
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      // The finishing task hands its slot over, so `active` already counts this one
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
@@ -1,29 +1,50 @@
+import { promises as fs } from 'fs';
 import exifr from 'exifr';
-import { PhotoMetadata } from '../types';
+import { CaptureTime } from './captureTime';
+import { XmpMetadata } from './xmpMetadata';
+import { CameraInfo, ImageSource, PhotoMetadata } from '../types';
+
+// CR3 metadata boxes sit in the `moov` header at the start of the file
+const CR3_HEADER_BYTES = 1024 * 1024;
 
 export class ExifExtractor {
   /**
-   * Extract metadata from image buffer
+   * Extract metadata from an image buffer or file (only the EXIF segments of a file are read)
    */
-  static async extractMetadata(imageBuffer: Buffer, fileName: string): Promise<PhotoMetadata> {
+  static async extractMetadata(image: ImageSource, fileName: string): Promise<PhotoMetadata> {
+    const fileSize = typeof image === 'string' ? (await fs.stat(image)).size : image.length;
+    const mimeType = this.getMimeTypeFromFileName(fileName);
+
     try {
-      const exifData = await exifr.parse(imageBuffer, {
-        gps: true,
-        dates: true,
-        dimensions: true,
-        orientation: true
-      });
+      // exifr reads JPEG, HEIC and TIFF-based RAW (DNG, CR2, NEF, ARW); CR3 needs its own box lookup
+      const exifData = mimeType === 'image/x-canon-cr3'
+        ? await this.parseCr3(image)
+        : await exifr.parse(image, {
+          gps: true,
+          dates: true,
+          dimensions: true,
+          orientation: true
+        });
 
       const metadata: PhotoMetadata = {
         fileName,
-        mimeType: this.getMimeTypeFromFileName(fileName),
-        fileSize: imageBuffer.length
+        mimeType,
+        fileSize
       };
 
-      // Extract dimensions
+      // Extract orientation (numeric; exifr.parse translates it to text)
+      const orientation = mimeType === 'image/x-canon-cr3'
+        ? exifData?.Orientation
+        : await exifr.orientation(image).catch(() => undefined);
+      if (orientation) {
+        metadata.orientation = orientation;
+      }
+
+      // Extract dimensions as displayed; orientations 5-8 rotate by 90 degrees
       if (exifData?.ImageWidth && exifData?.ImageHeight) {
-        metadata.width = exifData.ImageWidth;
-        metadata.height = exifData.ImageHeight;
+        const rotated = !!orientation && orientation >= 5;
+        metadata.width = rotated ? exifData.ImageHeight : exifData.ImageWidth;
+        metadata.height = rotated ? exifData.ImageWidth : exifData.ImageHeight;
       }
 
       // Extract GPS coordinates
@@ -37,13 +58,33 @@ export class ExifExtractor {
         metadata.altitude = exifData.GPSAltitude;
       }
 
-      // Extract date taken
-      if (exifData?.DateTimeOriginal) {
-        metadata.dateTaken = new Date(exifData.DateTimeOriginal);
-      } else if (exifData?.DateTime) {
-        metadata.dateTaken = new Date(exifData.DateTime);
-      } else if (exifData?.CreateDate) {
-        metadata.dateTaken = new Date(exifData.CreateDate);
+      // Extract date taken (camera-local time) with its UTC offset, if recorded
+      const [taken, offset] = exifData?.DateTimeOriginal
+        ? [exifData.DateTimeOriginal, exifData.OffsetTimeOriginal]
+        : exifData?.DateTime
+          ? [exifData.DateTime, exifData.OffsetTime]
+          : [exifData?.CreateDate, exifData?.OffsetTimeDigitized];
+      const localTime = taken && CaptureTime.toWallClock(taken);
+      if (localTime) {
+        Object.assign(metadata, CaptureTime.fromLocalTime(localTime, offset, metadata.latitude, metadata.longitude));
+      }
+
+      // Extract camera, lens and exposure settings
+      const camera = this.toCameraInfo(exifData);
+      if (Object.keys(camera).length > 0) {
+        metadata.camera = camera;
+      }
+
+      // Extract title, caption, keywords, rating and label (IPTC/XMP). CR3 keeps XMP in
+      // its own box; raw workflows write it to a sidecar instead.
+      if (mimeType !== 'image/x-canon-cr3') {
+        const descriptive = await XmpMetadata.fromImage(image).catch(error => {
+          console.error('IPTC/XMP extraction error:', fileName, error);
+          return {};
+        });
+        if (Object.keys(descriptive).length > 0) {
+          metadata.descriptive = descriptive;
+        }
       }
 
       return metadata;
@@ -53,8 +94,8 @@ export class ExifExtractor {
       // Return basic metadata even if EXIF extraction fails
       return {
         fileName,
-        mimeType: this.getMimeTypeFromFileName(fileName),
-        fileSize: imageBuffer.length
+        mimeType,
+        fileSize
       };
     }
   }
@@ -62,7 +103,7 @@ export class ExifExtractor {
   /**
    * Get MIME type from filename
    */
-  private static getMimeTypeFromFileName(fileName: string): string {
+  static getMimeTypeFromFileName(fileName: string): string {
     const extension = fileName.toLowerCase().split('.').pop();
     
     switch (extension) {
@@ -80,11 +121,102 @@ export class ExifExtractor {
       case 'tiff':
       case 'tif':
         return 'image/tiff';
+      case 'heic':
+        return 'image/heic';
+      case 'heif':
+        return 'image/heif';
+      case 'dng':
+        return 'image/x-adobe-dng';
+      case 'cr2':
+        return 'image/x-canon-cr2';
+      case 'cr3':
+        return 'image/x-canon-cr3';
+      case 'nef':
+        return 'image/x-nikon-nef';
+      case 'arw':
+        return 'image/x-sony-arw';
+      case 'mp4':
+      case 'm4v':
+        return 'video/mp4';
+      case 'mov':
+        return 'video/quicktime';
       default:
-        return 'image/jpeg'; // Default fallback
+        return 'application/octet-stream';
     }
   }
 
+  /**
+   * Read EXIF from a Canon CR3. Its ISO-BMFF container keeps IFD0, the EXIF IFD
+   * and the GPS IFD as standalone TIFF blocks in the CMT1, CMT2 and CMT4 boxes.
+   */
+  private static async parseCr3(image: ImageSource): Promise<any> {
+    let header: Buffer;
+    if (typeof image === 'string') {
+      const file = await fs.open(image, 'r');
+      try {
+        header = Buffer.alloc(CR3_HEADER_BYTES);
+        const { bytesRead } = await file.read(header, 0, CR3_HEADER_BYTES, 0);
+        header = header.subarray(0, bytesRead);
+      } finally {
+        await file.close();
+      }
+    } else {
+      header = image.subarray(0, CR3_HEADER_BYTES);
+    }
+
+    const readBox = async (type: string): Promise<Record<number, any>> => {
+      const index = header.indexOf(type, 0, 'ascii');
+      if (index < 4) return {};
+
+      const size = header.readUInt32BE(index - 4);
+      const tiff = header.subarray(index + 4, index - 4 + size);
+
+      // Tags are read by number: exifr would otherwise name them with the IFD0 dictionary
+      return await exifr.parse(tiff, {
+        tiff: true,
+        ifd0: true,
+        exif: false,
+        gps: false,
+        interop: false,
+        ifd1: false,
+        translateKeys: false,
+        translateValues: false,
+        reviveValues: false,
+        mergeOutput: true
+      } as any) || {};
+    };
+
+    const [ifd0, exif, gps] = await Promise.all([readBox('CMT1'), readBox('CMT2'), readBox('CMT4')]);
+
+    // "YYYY:MM:DD HH:MM:SS" -> parseable date string
+    const toDate = (value?: string) => value && value.replace(/^(\d{4}):(\d{2}):(\d{2})/, '$1-$2-$3');
+    const toDegrees = (value?: number[], ref?: string) => {
+      if (!Array.isArray(value) || value.length < 3) return undefined;
+      return this.dmsToDecimal(value[0], value[1], value[2], ref || '');
+    };
+
+    return {
+      Make: ifd0[0x010f],
+      Model: ifd0[0x0110],
+      Orientation: ifd0[0x0112],
+      DateTime: toDate(ifd0[0x0132]),
+      DateTimeOriginal: toDate(exif[0x9003]),
+      CreateDate: toDate(exif[0x9004]),
+      OffsetTime: exif[0x9010],
+      OffsetTimeOriginal: exif[0x9011],
+      OffsetTimeDigitized: exif[0x9012],
+      LensMake: exif[0xa433],
+      LensModel: exif[0xa434],
+      FocalLength: exif[0x920a],
+      FNumber: exif[0x829d],
+      ExposureTime: exif[0x829a],
+      ISO: exif[0x8827],
+      latitude: toDegrees(gps[0x0002], gps[0x0001]),
+      longitude: toDegrees(gps[0x0004], gps[0x0003]),
+      GPSAltitude: gps[0x0006]
+    };
+  }
+
   /**
    * Validate if coordinates are valid
    */
@@ -112,24 +244,61 @@ export class ExifExtractor {
   }
 
   /**
-   * Get camera make and model from EXIF
+   * EXIF orientation (1-8) of an image, if it has one
    */
-  static async getCameraInfo(imageBuffer: Buffer): Promise<{ make?: string; model?: string }> {
-    try {
-      const exifData = await exifr.parse(imageBuffer, {
-        cameras: true
-      });
+  static async getOrientation(image: ImageSource): Promise<number | undefined> {
+    return exifr.orientation(image).catch(() => undefined);
+  }
 
-      return {
-        make: exifData?.Make,
-        model: exifData?.Model
-      };
+  /**
+   * Get camera, lens and exposure settings from EXIF
+   */
+  static async getCameraInfo(image: ImageSource): Promise<CameraInfo> {
+    try {
+      return this.toCameraInfo(await exifr.parse(image));
     } catch (error) {
       console.error('Camera info extraction error:', error);
       return {};
     }
   }
 
+  /**
+   * Pick camera, lens and exposure settings out of parsed EXIF, skipping empty values
+   */
+  private static toCameraInfo(exifData: any): CameraInfo {
+    const text = (value: unknown) => {
+      const trimmed = typeof value === 'string' ? value.replace(/\0/g, '').trim() : '';
+      return trimmed || undefined;
+    };
+    const positive = (value: unknown) => {
+      const number = Array.isArray(value) ? value[0] : value;
+      return typeof number === 'number' && isFinite(number) && number > 0 ? number : undefined;
+    };
+
+    // Lens models often leave out the brand, e.g. "RF24-70mm F2.8 L IS USM"
+    const lensMake = text(exifData?.LensMake);
+    const lensModel = text(exifData?.LensModel);
+    const lens = lensMake && lensModel && !lensModel.toLowerCase().startsWith(lensMake.toLowerCase())
+      ? `${lensMake} ${lensModel}`
+      : lensModel;
+
+    const iso = positive(exifData?.ISO);
+
+    const info: CameraInfo = {
+      make: text(exifData?.Make),
+      model: text(exifData?.Model),
+      lens,
+      focalLength: positive(exifData?.FocalLength),
+      aperture: positive(exifData?.FNumber),
+      exposureTime: positive(exifData?.ExposureTime),
+      iso: iso && Math.round(iso)
+    };
+
+    return Object.fromEntries(
+      Object.entries(info).filter(([, value]) => value !== undefined)
+    ) as CameraInfo;
+  }
+
   /**
    * Check if image has GPS data
    */
@@ -0,0 +1,181 @@
+import { promises as fs } from 'fs';
+import sharp from 'sharp';
+import decodeHeic from 'heic-decode';
+import { ExifExtractor } from './exifExtractor';
+import { ImageSource } from '../types';
+
+// Formats that browsers (and sharp) can't display directly; these get a JPEG rendition
+const HEIF_MIME_TYPES = ['image/heic', 'image/heif'];
+const RAW_MIME_TYPES = [
+  'image/x-adobe-dng',
+  'image/x-canon-cr2',
+  'image/x-canon-cr3',
+  'image/x-nikon-nef',
+  'image/x-sony-arw'
+];
+
+const VIDEO_MIME_TYPES = ['video/mp4', 'video/quicktime'];
+
+const DEFAULT_ALLOWED_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  ...HEIF_MIME_TYPES,
+  ...RAW_MIME_TYPES,
+  ...VIDEO_MIME_TYPES
+].join(',');
+
+const JPEG_SOI = Buffer.from([0xff, 0xd8, 0xff]);
+
+export class ImageConverter {
+  /**
+   * Check an upload (image or video) against ALLOWED_MIME_TYPES. Browsers often report HEIC and
+   * RAW files as application/octet-stream, so the file extension counts too.
+   */
+  static isAllowedUpload(fileName: string, mimeType: string): boolean {
+    const allowedTypes = (process.env.ALLOWED_MIME_TYPES || DEFAULT_ALLOWED_MIME_TYPES).split(',');
+    return allowedTypes.includes(mimeType) ||
+      allowedTypes.includes(ExifExtractor.getMimeTypeFromFileName(fileName));
+  }
+
+  /**
+   * Check if an image needs a JPEG rendition for display and AI analysis
+   */
+  static needsRendition(mimeType: string): boolean {
+    return HEIF_MIME_TYPES.includes(mimeType) || RAW_MIME_TYPES.includes(mimeType);
+  }
+
+  /**
+   * Width and height of an image as displayed, i.e. swapped for EXIF orientations 5-8.
+   * Empty if the image can't be read.
+   */
+  static async getDisplaySize(image: ImageSource): Promise<{ width?: number; height?: number }> {
+    try {
+      const { width, height, orientation } = await sharp(image).metadata();
+      if (!width || !height) return {};
+
+      return orientation && orientation >= 5
+        ? { width: height, height: width }
+        : { width, height };
+    } catch (error) {
+      return {};
+    }
+  }
+
+  /**
+   * Render a HEIC/HEIF or camera RAW original as an upright JPEG.
+   * HEIC is decoded in full; RAW files use the largest embedded JPEG preview,
+   * rotated by the RAW's EXIF orientation.
+   */
+  static async createRendition(image: ImageSource, mimeType: string, orientation?: number): Promise<Buffer> {
+    const buffer = typeof image === 'string' ? await fs.readFile(image) : image;
+
+    if (HEIF_MIME_TYPES.includes(mimeType)) {
+      // libheif applies the container's rotation/mirroring, so the pixels are already upright
+      const decoded = await decodeHeic({ buffer });
+      return sharp(Buffer.from(decoded.data.buffer, decoded.data.byteOffset, decoded.data.byteLength), {
+        raw: { width: decoded.width, height: decoded.height, channels: 4 }
+      })
+        .jpeg({ quality: 90 })
+        .toBuffer();
+    }
+
+    const preview = await this.extractRawPreview(buffer);
+
+    if (!preview) {
+      // Some DNGs have no preview but a layout libvips can read directly
+      try {
+        return await sharp(buffer).rotate().jpeg({ quality: 90 }).toBuffer();
+      } catch (error) {
+        throw new Error('No displayable preview found in RAW file');
+      }
+    }
+
+    // Previews rarely carry their own orientation; fall back to the RAW's
+    const { orientation: previewOrientation } = await sharp(preview).metadata();
+    const oriented = previewOrientation || !orientation || orientation === 1
+      ? preview
+      : await sharp(preview).withMetadata({ orientation }).toBuffer();
+
+    return sharp(oriented).rotate().jpeg({ quality: 90 }).toBuffer();
+  }
+
+  /**
+   * Find the largest decodable JPEG embedded in a RAW file (DNG, CR2, CR3, NEF and ARW all carry one)
+   */
+  private static async extractRawPreview(buffer: Buffer): Promise<Buffer | null> {
+    const candidates: Buffer[] = [];
+
+    for (let start = buffer.indexOf(JPEG_SOI); start !== -1; start = buffer.indexOf(JPEG_SOI, start + 2)) {
+      const end = this.findJpegEnd(buffer, start);
+      if (end) {
+        candidates.push(buffer.subarray(start, end));
+      }
+    }
+
+    candidates.sort((a, b) => b.length - a.length);
+
+    for (const candidate of candidates) {
+      try {
+        const { width, height } = await sharp(candidate).metadata();
+        if (width && height) return candidate;
+      } catch (error) {
+        // Not a complete image; try the next one
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Walk the markers of a JPEG starting at `start` and return the offset after its EOI.
+   * Returns null for truncated streams and for lossless JPEG (used for RAW sensor data),
+   * which sharp can't decode.
+   */
+  private static findJpegEnd(buffer: Buffer, start: number): number | null {
+    let pos = start + 2;
+    let hasFrame = false;
+
+    while (pos + 4 <= buffer.length) {
+      if (buffer[pos] !== 0xff) return null;
+
+      const marker = buffer[pos + 1];
+
+      if (marker === 0xff) {
+        // Fill byte
+        pos++;
+        continue;
+      }
+
+      if (marker === 0xd9) {
+        return hasFrame ? pos + 2 : null;
+      }
+
+      if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+        // Restart markers and TEM have no length
+        pos += 2;
+        continue;
+      }
+
+      // SOFn markers; only baseline, extended and progressive Huffman frames are supported
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        if (marker > 0xc2) return null;
+        hasFrame = true;
+      }
+
+      pos += 2 + buffer.readUInt16BE(pos + 2);
+
+      if (marker === 0xda) {
+        // Entropy-coded data runs until a marker that isn't byte stuffing or a restart
+        while (
+          pos + 1 < buffer.length &&
+          !(buffer[pos] === 0xff && buffer[pos + 1] !== 0x00 && !(buffer[pos + 1] >= 0xd0 && buffer[pos + 1] <= 0xd7))
+        ) {
+          pos++;
+        }
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,162 @@
+import exifr from 'exifr';
+import sharp from 'sharp';
+import { MetadataWriter } from './metadataWriter';
+import { XmpMetadata } from './xmpMetadata';
+import { ExportMetadata } from '../types';
+
+const METADATA: ExportMetadata = {
+  title: 'Sunset & sea',
+  caption: 'Evening at the <harbour>',
+  keywords: ['beach', 'café'],
+  rating: 4,
+  colorLabel: 'Red',
+  dateTakenLocal: new Date('2024-06-01T19:45:30Z'),
+  utcOffset: 120,
+  latitude: -33.8568,
+  longitude: 151.2153,
+  altitude: 12.5,
+  city: 'Sydney',
+  country: 'Australia',
+  camera: {
+    make: 'Canon',
+    model: 'EOS R5',
+    lens: 'RF24-105mm F4 L IS USM',
+    focalLength: 50,
+    aperture: 4,
+    exposureTime: 0.004,
+    iso: 200
+  },
+  orientation: 1,
+  width: 64,
+  height: 48,
+  people: [{ name: 'Alex', x: 0.25, y: 0.25, width: 0.5, height: 0.5 }]
+};
+
+// A small JPEG carrying its own EXIF and a comment, like a camera original
+async function cameraJpeg(): Promise<Buffer> {
+  const jpeg = await sharp({
+    create: { width: 64, height: 48, channels: 3, background: { r: 200, g: 120, b: 40 } }
+  })
+    .withExif({ IFD0: { Make: 'OldCam', Software: 'Editor 1.0' } })
+    .jpeg()
+    .toBuffer();
+
+  // COM segment right after SOI
+  const comment = Buffer.from('private note', 'latin1');
+  const header = Buffer.from([0xff, 0xfe, 0, 0]);
+  header.writeUInt16BE(comment.length + 2, 2);
+  return Buffer.concat([jpeg.subarray(0, 2), header, comment, jpeg.subarray(2)]);
+}
+
+describe('MetadataWriter', () => {
+  describe('writeJpeg', () => {
+    it('embeds XMP that reads back as the same descriptive metadata', async () => {
+      const jpeg = MetadataWriter.writeJpeg(await cameraJpeg(), METADATA, false);
+
+      expect(await XmpMetadata.fromImage(jpeg)).toEqual({
+        title: 'Sunset & sea',
+        caption: 'Evening at the <harbour>',
+        keywords: ['beach', 'café'],
+        rating: 4,
+        colorLabel: 'Red'
+      });
+    });
+
+    it('embeds EXIF camera, capture time and GPS', async () => {
+      const jpeg = MetadataWriter.writeJpeg(await cameraJpeg(), METADATA, false);
+      const exif = await exifr.parse(jpeg, { reviveValues: false } as any);
+
+      expect(exif.Make).toBe('Canon');
+      expect(exif.Model).toBe('EOS R5');
+      expect(exif.LensModel).toBe('RF24-105mm F4 L IS USM');
+      expect(exif.FNumber).toBe(4);
+      expect(exif.FocalLength).toBe(50);
+      expect(exif.ExposureTime).toBe(0.004);
+      expect(exif.ISO).toBe(200);
+      expect(exif.DateTimeOriginal).toBe('2024:06:01 19:45:30');
+      expect(exif.OffsetTimeOriginal).toBe('+02:00');
+      expect(exif.latitude).toBeCloseTo(-33.8568, 5);
+      expect(exif.longitude).toBeCloseTo(151.2153, 5);
+      expect(exif.GPSAltitude).toBe(12.5);
+    });
+
+    it('embeds IPTC in UTF-8', async () => {
+      const jpeg = MetadataWriter.writeJpeg(await cameraJpeg(), METADATA, false);
+      const { iptc } = await exifr.parse(jpeg, { tiff: false, iptc: true, mergeOutput: false } as any);
+      const utf8 = (value: string) => Buffer.from(value, 'latin1').toString('utf8');
+
+      expect(utf8(iptc.ObjectName)).toBe('Sunset & sea');
+      expect(iptc.Keywords.map(utf8)).toEqual(['beach', 'café']);
+      expect(iptc.City).toBe('Sydney');
+    });
+
+    it('replaces existing EXIF but keeps other segments without strip', async () => {
+      const original = await cameraJpeg();
+      expect((await exifr.parse(original)).Software).toBe('Editor 1.0');
+
+      const jpeg = MetadataWriter.writeJpeg(original, METADATA, false);
+      const exif = await exifr.parse(jpeg);
+
+      expect(exif.Make).toBe('Canon');
+      expect(exif.Software).toBeUndefined();
+      expect(jpeg.includes(Buffer.from('private note', 'latin1'))).toBe(true);
+    });
+
+    it('drops other metadata segments with strip', async () => {
+      const jpeg = MetadataWriter.writeJpeg(await cameraJpeg(), { keywords: [], people: [] }, true);
+
+      expect(jpeg.includes(Buffer.from('private note', 'latin1'))).toBe(false);
+      expect(jpeg.includes(Buffer.from('OldCam', 'latin1'))).toBe(false);
+      expect(await XmpMetadata.fromImage(jpeg)).toEqual({});
+    });
+
+    it('keeps the image decodable and unchanged', async () => {
+      const original = await cameraJpeg();
+      const jpeg = MetadataWriter.writeJpeg(original, METADATA, true);
+
+      const [before, after] = await Promise.all([
+        sharp(original).raw().toBuffer(),
+        sharp(jpeg).raw().toBuffer()
+      ]);
+      expect(after.equals(before)).toBe(true);
+    });
+
+    it('rejects files that are not JPEGs', async () => {
+      const png = await sharp({
+        create: { width: 4, height: 4, channels: 3, background: { r: 0, g: 0, b: 0 } }
+      }).png().toBuffer();
+
+      expect(() => MetadataWriter.writeJpeg(png, METADATA, false)).toThrow('Not a JPEG file');
+    });
+  });
+
+  describe('buildXmp', () => {
+    it('builds a sidecar that reads back as the same descriptive metadata', async () => {
+      const xmp = MetadataWriter.buildXmp(METADATA);
+
+      expect(await XmpMetadata.fromSidecar(Buffer.from(xmp, 'utf8'))).toEqual({
+        title: 'Sunset & sea',
+        caption: 'Evening at the <harbour>',
+        keywords: ['beach', 'café'],
+        rating: 4,
+        colorLabel: 'Red'
+      });
+    });
+
+    it('writes centred MWG face regions, or leaves them out when asked', () => {
+      const area = 'stArea:x="0.5" stArea:y="0.5" stArea:w="0.5" stArea:h="0.5"';
+
+      expect(MetadataWriter.buildXmp(METADATA)).toContain(area);
+      expect(MetadataWriter.buildXmp(METADATA, false)).not.toContain('mwg-rs:Regions');
+      expect(MetadataWriter.buildXmp(METADATA, false)).toContain('<rdf:li>Alex</rdf:li>');
+    });
+
+    it('writes the capture time with its offset and GPS as degrees and minutes', () => {
+      const xmp = MetadataWriter.buildXmp(METADATA);
+
+      expect(xmp).toContain('photoshop:DateCreated="2024-06-01T19:45:30+02:00"');
+      expect(xmp).toContain('exif:GPSLatitude="33,51.408000S"');
+      expect(xmp).toContain('exif:GPSLongitude="151,12.918000E"');
+    });
+  });
+});
@@ -0,0 +1,492 @@
+import { ExportMetadata } from '../types';
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1');
+const XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1');
+const XMP_EXTENSION_HEADER = Buffer.from('http://ns.adobe.com/xmp/extension/\0', 'latin1');
+const PHOTOSHOP_HEADER = Buffer.from('Photoshop 3.0\0', 'latin1');
+
+// Segments that must survive stripping for the image to decode and display the same
+const ESSENTIAL_APP_HEADERS: Array<[number, string]> = [
+  [0xe0, 'JFIF\0'],
+  [0xe0, 'JFXX\0'],
+  [0xe2, 'ICC_PROFILE\0'],
+  [0xee, 'Adobe']
+];
+
+// A JPEG segment payload holds at most 65533 bytes
+const MAX_SEGMENT_PAYLOAD = 65533;
+
+// TIFF field types
+const BYTE = 1;
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+const UNDEFINED = 7;
+
+const TYPE_SIZES: Record<number, number> = { [BYTE]: 1, [ASCII]: 1, [SHORT]: 2, [LONG]: 4, [RATIONAL]: 8, [UNDEFINED]: 1 };
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  value: Buffer;
+}
+
+interface JpegSegment {
+  marker: number;
+  data: Buffer; // Whole segment, marker included
+}
+
+/**
+ * Writes EXIF, IPTC and XMP into JPEGs without re-encoding them, and builds XMP
+ * sidecars for files that can't be rewritten
+ */
+export class MetadataWriter {
+  /**
+   * Replace a JPEG's EXIF, XMP and IPTC with `metadata`. With `strip`, every other
+   * metadata segment (maker data, comments, secondary MPF images) goes too, leaving
+   * only what decoding needs.
+   */
+  static writeJpeg(jpeg: Buffer, metadata: ExportMetadata, strip: boolean): Buffer {
+    const { segments, scan } = this.parseJpeg(jpeg);
+
+    const kept = segments.filter(segment => {
+      if (segment.marker === 0xe1 || segment.marker === 0xed) {
+        const payload = segment.data.subarray(4);
+        const replaced = [EXIF_HEADER, XMP_HEADER, XMP_EXTENSION_HEADER, PHOTOSHOP_HEADER]
+          .some(header => payload.subarray(0, header.length).equals(header));
+        if (replaced) return false;
+      }
+
+      const isMetadata = (segment.marker >= 0xe0 && segment.marker <= 0xef) || segment.marker === 0xfe;
+      return !strip || !isMetadata || ESSENTIAL_APP_HEADERS.some(([marker, header]) =>
+        segment.marker === marker && segment.data.subarray(4, 4 + header.length).toString('latin1') === header
+      );
+    });
+
+    // JFIF must stay right after SOI; the new metadata follows it
+    const jfif = kept.filter(segment => segment.marker === 0xe0);
+    const rest = kept.filter(segment => segment.marker !== 0xe0);
+
+    const added = [
+      this.segment(0xe1, Buffer.concat([EXIF_HEADER, this.buildExif(metadata)])),
+      this.segment(0xe1, Buffer.concat([XMP_HEADER, this.fitXmp(metadata)])),
+      this.segment(0xed, Buffer.concat([PHOTOSHOP_HEADER, this.buildIptc(metadata)]))
+    ];
+
+    return Buffer.concat([
+      Buffer.from([0xff, 0xd8]),
+      ...jfif.map(segment => segment.data),
+      ...added,
+      ...rest.map(segment => segment.data),
+      strip ? scan.subarray(0, this.scanLength(scan)) : scan
+    ]);
+  }
+
+  /**
+   * XMP packet with title, caption, keywords, rating, label, capture time, location
+   * and person regions (MWG), as embedded in JPEGs or saved as a sidecar
+   */
+  static buildXmp(metadata: ExportMetadata, withRegions: boolean = true): string {
+    const attributes: string[] = [];
+    const properties: string[] = [];
+
+    if (metadata.rating !== undefined) attributes.push(`xmp:Rating="${metadata.rating}"`);
+    if (metadata.colorLabel) attributes.push(`xmp:Label="${this.escapeXml(metadata.colorLabel)}"`);
+    if (metadata.city) attributes.push(`photoshop:City="${this.escapeXml(metadata.city)}"`);
+    if (metadata.country) attributes.push(`photoshop:Country="${this.escapeXml(metadata.country)}"`);
+
+    if (metadata.dateTakenLocal) {
+      const date = this.xmpDate(metadata.dateTakenLocal, metadata.utcOffset);
+      attributes.push(`photoshop:DateCreated="${date}"`, `exif:DateTimeOriginal="${date}"`);
+    }
+
+    if (metadata.latitude !== undefined && metadata.longitude !== undefined) {
+      attributes.push(
+        `exif:GPSLatitude="${this.xmpCoordinate(metadata.latitude, 'N', 'S')}"`,
+        `exif:GPSLongitude="${this.xmpCoordinate(metadata.longitude, 'E', 'W')}"`
+      );
+    }
+
+    const alt = (value: string) =>
+      `<rdf:Alt><rdf:li xml:lang="x-default">${this.escapeXml(value)}</rdf:li></rdf:Alt>`;
+    const bag = (values: string[]) =>
+      `<rdf:Bag>${values.map(value => `<rdf:li>${this.escapeXml(value)}</rdf:li>`).join('')}</rdf:Bag>`;
+
+    if (metadata.title) properties.push(`<dc:title>${alt(metadata.title)}</dc:title>`);
+    if (metadata.caption) properties.push(`<dc:description>${alt(metadata.caption)}</dc:description>`);
+    if (metadata.keywords.length > 0) properties.push(`<dc:subject>${bag(metadata.keywords)}</dc:subject>`);
+
+    const names = Array.from(new Set(metadata.people.map(person => person.name)));
+    if (names.length > 0) {
+      properties.push(`<Iptc4xmpExt:PersonInImage>${bag(names)}</Iptc4xmpExt:PersonInImage>`);
+    }
+
+    // MWG areas are centred: x and y are the middle of the face
+    if (withRegions && metadata.people.length > 0 && metadata.width && metadata.height) {
+      const regions = metadata.people.map(person => '<rdf:li><rdf:Description' +
+        ` mwg-rs:Name="${this.escapeXml(person.name)}" mwg-rs:Type="Face">` +
+        `<mwg-rs:Area stArea:x="${this.round(person.x + person.width / 2)}" stArea:y="${this.round(person.y + person.height / 2)}"` +
+        ` stArea:w="${this.round(person.width)}" stArea:h="${this.round(person.height)}" stArea:unit="normalized"/>` +
+        '</rdf:Description></rdf:li>');
+
+      properties.push(
+        '<mwg-rs:Regions rdf:parseType="Resource">' +
+        `<mwg-rs:AppliedToDimensions stDim:w="${metadata.width}" stDim:h="${metadata.height}" stDim:unit="pixel"/>` +
+        `<mwg-rs:RegionList><rdf:Bag>${regions.join('')}</rdf:Bag></mwg-rs:RegionList>` +
+        '</mwg-rs:Regions>'
+      );
+    }
+
+    return [
+      '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+      '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+      '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+      '<rdf:Description rdf:about=""',
+      ' xmlns:dc="http://purl.org/dc/elements/1.1/"',
+      ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+      ' xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/"',
+      ' xmlns:exif="http://ns.adobe.com/exif/1.0/"',
+      ' xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"',
+      ' xmlns:mwg-rs="http://www.metadataworkinggroup.com/schemas/regions/"',
+      ' xmlns:stArea="http://ns.adobe.com/xmp/sType/Area#"',
+      ' xmlns:stDim="http://ns.adobe.com/xap/1.0/sType/Dimensions#"',
+      ...attributes.map(attribute => ` ${attribute}`),
+      '>',
+      ...properties,
+      '</rdf:Description>',
+      '</rdf:RDF>',
+      '</x:xmpmeta>',
+      '<?xpacket end="w"?>'
+    ].join('\n');
+  }
+
+  /**
+   * XMP for a JPEG segment. Person regions are dropped if the packet would not fit.
+   */
+  private static fitXmp(metadata: ExportMetadata): Buffer {
+    const maxLength = MAX_SEGMENT_PAYLOAD - XMP_HEADER.length;
+    const xmp = Buffer.from(this.buildXmp(metadata), 'utf8');
+    if (xmp.length <= maxLength) return xmp;
+
+    const withoutRegions = Buffer.from(this.buildXmp(metadata, false), 'utf8');
+    if (withoutRegions.length <= maxLength) return withoutRegions;
+
+    throw new Error('Metadata is too large to embed in a JPEG');
+  }
+
+  /**
+   * TIFF block with IFD0 (camera, orientation), the EXIF IFD (capture time, exposure)
+   * and the GPS IFD
+   */
+  private static buildExif(metadata: ExportMetadata): Buffer {
+    const camera = metadata.camera || {};
+    const ifd0: IfdEntry[] = [];
+    const exif: IfdEntry[] = [];
+    const gps: IfdEntry[] = [];
+
+    if (camera.make) ifd0.push(this.ascii(0x010f, camera.make));
+    if (camera.model) ifd0.push(this.ascii(0x0110, camera.model));
+    if (metadata.orientation) ifd0.push(this.short(0x0112, metadata.orientation));
+
+    exif.push({ tag: 0x9000, type: UNDEFINED, value: Buffer.from('0232', 'latin1') });
+    if (camera.exposureTime) exif.push(this.rational(0x829a, [this.exposureFraction(camera.exposureTime)]));
+    if (camera.aperture) exif.push(this.rational(0x829d, [[Math.round(camera.aperture * 100), 100]]));
+    if (camera.iso) exif.push(this.short(0x8827, Math.min(camera.iso, 65535)));
+    if (metadata.dateTakenLocal) {
+      const date = this.exifDate(metadata.dateTakenLocal);
+      exif.push(this.ascii(0x9003, date), this.ascii(0x9004, date));
+      if (metadata.utcOffset !== undefined) {
+        exif.push(this.ascii(0x9011, this.formatOffset(metadata.utcOffset)));
+      }
+    }
+    if (camera.focalLength) exif.push(this.rational(0x920a, [[Math.round(camera.focalLength * 100), 100]]));
+    if (camera.lens) exif.push(this.ascii(0xa434, camera.lens));
+
+    if (metadata.latitude !== undefined && metadata.longitude !== undefined) {
+      gps.push(
+        { tag: 0x0000, type: BYTE, value: Buffer.from([2, 3, 0, 0]) },
+        this.ascii(0x0001, metadata.latitude < 0 ? 'S' : 'N'),
+        this.rational(0x0002, this.toDms(metadata.latitude)),
+        this.ascii(0x0003, metadata.longitude < 0 ? 'W' : 'E'),
+        this.rational(0x0004, this.toDms(metadata.longitude))
+      );
+      if (metadata.altitude !== undefined) {
+        gps.push(
+          { tag: 0x0005, type: BYTE, value: Buffer.from([metadata.altitude < 0 ? 1 : 0]) },
+          this.rational(0x0006, [[Math.round(Math.abs(metadata.altitude) * 100), 100]])
+        );
+      }
+    }
+
+    // Pointers are inline LONGs, so IFD0's size is known before their values are
+    const exifPointer = this.long(0x8769, 0);
+    const gpsPointer = this.long(0x8825, 0);
+    ifd0.push(exifPointer);
+    if (gps.length > 0) ifd0.push(gpsPointer);
+
+    const exifOffset = 8 + this.ifdSize(ifd0);
+    const gpsOffset = exifOffset + this.ifdSize(exif);
+    exifPointer.value.writeUInt32BE(exifOffset);
+    gpsPointer.value.writeUInt32BE(gpsOffset);
+
+    return Buffer.concat([
+      Buffer.from([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08]),
+      this.writeIfd(ifd0, 8),
+      this.writeIfd(exif, exifOffset),
+      ...(gps.length > 0 ? [this.writeIfd(gps, gpsOffset)] : [])
+    ]);
+  }
+
+  /**
+   * Photoshop image resource block holding IPTC-IIM records (UTF-8)
+   */
+  private static buildIptc(metadata: ExportMetadata): Buffer {
+    const records: Buffer[] = [
+      this.iptcRecord(1, 90, Buffer.from([0x1b, 0x25, 0x47])), // Coded character set: UTF-8
+      this.iptcRecord(2, 0, Buffer.from([0x00, 0x04])) // Record version
+    ];
+    const text = (dataSet: number, value: string | undefined, maxBytes: number) => {
+      if (value) records.push(this.iptcRecord(2, dataSet, this.truncateUtf8(value, maxBytes)));
+    };
+
+    text(5, metadata.title, 64);
+    metadata.keywords.forEach(keyword => text(25, keyword, 64));
+    text(90, metadata.city, 32);
+    text(101, metadata.country, 64);
+    text(120, metadata.caption, 2000);
+
+    const iptc = Buffer.concat(records);
+    const header = Buffer.alloc(12);
+    header.write('8BIM', 0, 'latin1');
+    header.writeUInt16BE(0x0404, 4);
+    header.writeUInt32BE(iptc.length, 8); // Bytes 6-7: empty resource name, padded
+
+    return Buffer.concat([header, iptc, Buffer.alloc(iptc.length % 2)]);
+  }
+
+  /**
+   * Split a JPEG into its segments before the first scan, and everything from the scan on
+   */
+  private static parseJpeg(jpeg: Buffer): { segments: JpegSegment[]; scan: Buffer } {
+    if (jpeg.length < 4 || jpeg[0] !== 0xff || jpeg[1] !== 0xd8) {
+      throw new Error('Not a JPEG file');
+    }
+
+    const segments: JpegSegment[] = [];
+    let offset = 2;
+
+    while (offset + 4 <= jpeg.length) {
+      if (jpeg[offset] !== 0xff) {
+        throw new Error('Invalid JPEG segment');
+      }
+
+      const marker = jpeg[offset + 1];
+      if (marker === 0xff) {
+        offset++; // Fill byte
+        continue;
+      }
+      if (marker === 0xda) break;
+
+      const length = jpeg.readUInt16BE(offset + 2);
+      segments.push({ marker, data: jpeg.subarray(offset, offset + 2 + length) });
+      offset += 2 + length;
+    }
+
+    return { segments, scan: jpeg.subarray(offset) };
+  }
+
+  /**
+   * Bytes from the first scan up to and including EOI. Anything after it (e.g.
+   * MPF secondary images with their own EXIF) is left out.
+   */
+  private static scanLength(scan: Buffer): number {
+    let offset = 0;
+
+    while (offset + 1 < scan.length) {
+      if (scan[offset] !== 0xff) {
+        offset++;
+        continue;
+      }
+
+      const marker = scan[offset + 1];
+      // Stuffed byte, restart marker or fill byte: still entropy-coded data
+      if (marker === 0x00 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0xff) {
+        offset++;
+        continue;
+      }
+      if (marker === 0xd9) return offset + 2;
+
+      // Tables or another scan header (progressive JPEGs) between scans
+      offset += 2 + scan.readUInt16BE(offset + 2);
+    }
+
+    return scan.length;
+  }
+
+  /**
+   * A JPEG segment with its marker and length
+   */
+  private static segment(marker: number, payload: Buffer): Buffer {
+    if (payload.length > MAX_SEGMENT_PAYLOAD) {
+      throw new Error('Metadata is too large to embed in a JPEG');
+    }
+
+    const header = Buffer.from([0xff, marker, 0, 0]);
+    header.writeUInt16BE(payload.length + 2, 2);
+    return Buffer.concat([header, payload]);
+  }
+
+  /**
+   * Bytes an IFD takes: count, 12-byte entries, next-IFD offset and out-of-line values
+   */
+  private static ifdSize(entries: IfdEntry[]): number {
+    return entries.reduce(
+      (size, entry) => size + (entry.value.length > 4 ? entry.value.length + entry.value.length % 2 : 0),
+      2 + entries.length * 12 + 4
+    );
+  }
+
+  /**
+   * Write an IFD placed at `offset` in the TIFF block, values over 4 bytes following it
+   */
+  private static writeIfd(entries: IfdEntry[], offset: number): Buffer {
+    const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+    const ifd = Buffer.alloc(2 + sorted.length * 12 + 4);
+    const values: Buffer[] = [];
+    let valueOffset = offset + ifd.length;
+
+    ifd.writeUInt16BE(sorted.length, 0);
+    sorted.forEach((entry, index) => {
+      const position = 2 + index * 12;
+      ifd.writeUInt16BE(entry.tag, position);
+      ifd.writeUInt16BE(entry.type, position + 2);
+      ifd.writeUInt32BE(entry.value.length / TYPE_SIZES[entry.type], position + 4);
+
+      if (entry.value.length <= 4) {
+        entry.value.copy(ifd, position + 8);
+      } else {
+        ifd.writeUInt32BE(valueOffset, position + 8);
+        const padded = Buffer.concat([entry.value, Buffer.alloc(entry.value.length % 2)]);
+        values.push(padded);
+        valueOffset += padded.length;
+      }
+    });
+
+    return Buffer.concat([ifd, ...values]);
+  }
+
+  private static ascii(tag: number, value: string): IfdEntry {
+    return { tag, type: ASCII, value: Buffer.from(`${value.replace(/[^\x20-\x7e]/g, '?')}\0`, 'latin1') };
+  }
+
+  private static short(tag: number, value: number): IfdEntry {
+    const buffer = Buffer.alloc(2);
+    buffer.writeUInt16BE(Math.round(value));
+    return { tag, type: SHORT, value: buffer };
+  }
+
+  private static long(tag: number, value: number): IfdEntry {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32BE(value);
+    return { tag, type: LONG, value: buffer };
+  }
+
+  private static rational(tag: number, values: Array<[number, number]>): IfdEntry {
+    const buffer = Buffer.alloc(values.length * 8);
+    values.forEach(([numerator, denominator], index) => {
+      buffer.writeUInt32BE(numerator, index * 8);
+      buffer.writeUInt32BE(denominator, index * 8 + 4);
+    });
+    return { tag, type: RATIONAL, value: buffer };
+  }
+
+  /**
+   * An IPTC-IIM dataset: tag marker, record, dataset number, length and value
+   */
+  private static iptcRecord(record: number, dataSet: number, value: Buffer): Buffer {
+    const header = Buffer.from([0x1c, record, dataSet, 0, 0]);
+    header.writeUInt16BE(value.length, 3);
+    return Buffer.concat([header, value]);
+  }
+
+  /**
+   * Degrees as EXIF degrees/minutes/seconds rationals
+   */
+  private static toDms(value: number): Array<[number, number]> {
+    const absolute = Math.abs(value);
+    const degrees = Math.floor(absolute);
+    const minutes = Math.floor((absolute - degrees) * 60);
+    const seconds = (absolute - degrees - minutes / 60) * 3600;
+    return [[degrees, 1], [minutes, 1], [Math.round(seconds * 10000), 10000]];
+  }
+
+  /**
+   * Exposure time as a fraction, e.g. 0.004 -> 1/250
+   */
+  private static exposureFraction(seconds: number): [number, number] {
+    if (seconds < 1 && Math.abs(1 / seconds - Math.round(1 / seconds)) < 0.01) {
+      return [1, Math.round(1 / seconds)];
+    }
+    return [Math.round(seconds * 1000), 1000];
+  }
+
+  /**
+   * Wall-clock time (stored as UTC) as "YYYY:MM:DD HH:MM:SS"
+   */
+  private static exifDate(date: Date): string {
+    return date.toISOString().slice(0, 19).replace('T', ' ').replace(/-/g, ':');
+  }
+
+  /**
+   * Wall-clock time (stored as UTC) as an XMP date, with its offset when known
+   */
+  private static xmpDate(date: Date, utcOffset?: number): string {
+    const local = date.toISOString().slice(0, 19);
+    return utcOffset === undefined ? local : `${local}${this.formatOffset(utcOffset)}`;
+  }
+
+  /**
+   * Minutes east of UTC as "+HH:MM"
+   */
+  private static formatOffset(minutes: number): string {
+    const absolute = Math.abs(minutes);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+  }
+
+  /**
+   * Degrees as an XMP GPS coordinate, e.g. "48,51.3942N"
+   */
+  private static xmpCoordinate(value: number, positive: string, negative: string): string {
+    const absolute = Math.abs(value);
+    const degrees = Math.floor(absolute);
+    const minutes = (absolute - degrees) * 60;
+    return `${degrees},${minutes.toFixed(6)}${value < 0 ? negative : positive}`;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+
+  /**
+   * UTF-8 bytes of a string, cut to `maxBytes` without splitting a character
+   */
+  private static truncateUtf8(value: string, maxBytes: number): Buffer {
+    const bytes = Buffer.from(value, 'utf8');
+    if (bytes.length <= maxBytes) return bytes;
+
+    // Back up to the start of a character (continuation bytes are 10xxxxxx)
+    let end = maxBytes;
+    while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+    return bytes.subarray(0, end);
+  }
+
+  private static escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
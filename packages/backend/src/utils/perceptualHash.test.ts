@@ -0,0 +1,57 @@
+import sharp from 'sharp';
+import { PerceptualHash } from './perceptualHash';
+
+// Left-to-right brightness ramp, so every row has the same gradient
+async function gradient(width: number, height: number, reverse: boolean = false): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.round((x / (width - 1)) * 255);
+      pixels[y * width + x] = reverse ? value : 255 - value;
+    }
+  }
+
+  return sharp(pixels, { raw: { width, height, channels: 1 } }).png().toBuffer();
+}
+
+describe('PerceptualHash', () => {
+  describe('compute', () => {
+    it('returns a 16-character hex hash', async () => {
+      const hash = await PerceptualHash.compute(await gradient(64, 48));
+      expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it('gives resized and re-compressed copies the same hash', async () => {
+      const original = await gradient(320, 240);
+      const copy = await sharp(original).resize(160, 120).jpeg({ quality: 60 }).toBuffer();
+
+      const distance = PerceptualHash.distance(
+        await PerceptualHash.compute(original),
+        await PerceptualHash.compute(copy)
+      );
+      expect(distance).toBe(0);
+    });
+
+    it('gives opposite gradients opposite hashes', async () => {
+      const distance = PerceptualHash.distance(
+        await PerceptualHash.compute(await gradient(64, 48)),
+        await PerceptualHash.compute(await gradient(64, 48, true))
+      );
+      expect(distance).toBe(64);
+    });
+  });
+
+  describe('distance', () => {
+    it('counts differing bits', () => {
+      expect(PerceptualHash.distance('0000000000000000', '0000000000000000')).toBe(0);
+      expect(PerceptualHash.distance('0000000000000000', '000000000000000f')).toBe(4);
+      expect(PerceptualHash.distance('8000000000000001', '0000000000000000')).toBe(2);
+      expect(PerceptualHash.distance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    });
+
+    it('is symmetric', () => {
+      expect(PerceptualHash.distance('a5a5a5a5a5a5a5a5', '5a5a5a5a5a5a5a5a'))
+        .toBe(PerceptualHash.distance('5a5a5a5a5a5a5a5a', 'a5a5a5a5a5a5a5a5'));
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import sharp from 'sharp';
+import { ImageSource } from '../types';
+
+export class PerceptualHash {
+  /**
+   * Compute a 64-bit difference hash (dHash) as a 16-char hex string.
+   * Robust to resizing, re-compression and small exposure changes.
+   */
+  static async compute(image: ImageSource): Promise<string> {
+    // 9x8 greyscale gives 8 horizontal gradients per row
+    const pixels = await sharp(image)
+      .rotate()
+      .greyscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hash = 0n;
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const left = pixels[row * 9 + col];
+        const right = pixels[row * 9 + col + 1];
+        hash = (hash << 1n) | (left > right ? 1n : 0n);
+      }
+    }
+
+    return hash.toString(16).padStart(16, '0');
+  }
+
+  /**
+   * Number of differing bits between two hashes (0 = identical, 64 = opposite)
+   */
+  static distance(hashA: string, hashB: string): number {
+    let diff = BigInt(`0x${hashA}`) ^ BigInt(`0x${hashB}`);
+    let count = 0;
+
+    while (diff > 0n) {
+      count += Number(diff & 1n);
+      diff >>= 1n;
+    }
+
+    return count;
+  }
+}
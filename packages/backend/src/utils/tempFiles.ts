@@ -0,0 +1,32 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const UPLOAD_TMP_DIR = path.resolve(process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), 'travel-memory-uploads'));
+
+export class TempFiles {
+  /**
+   * Directory holding uploads until they are ingested into storage
+   */
+  static readonly dir = UPLOAD_TMP_DIR;
+
+  /**
+   * Create the temp directory if needed
+   */
+  static async ensureDir(): Promise<void> {
+    await fs.mkdir(UPLOAD_TMP_DIR, { recursive: true });
+  }
+
+  /**
+   * Delete temp files, ignoring ones that are already gone
+   */
+  static async remove(...filePaths: string[]): Promise<void> {
+    await Promise.all(filePaths.map(async (filePath) => {
+      try {
+        await fs.unlink(filePath);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }));
+  }
+}
@@ -0,0 +1,151 @@
+import { TrackParser } from './trackParser';
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test">
+  <metadata><name>Export</name></metadata>
+  <trk>
+    <name>Morning &amp; hike</name>
+    <trkseg>
+      <trkpt lat="46.5" lon="7.9"><ele>1200.5</ele><time>2024-06-01T08:10:00Z</time></trkpt>
+      <trkpt lat='46.4' lon='7.8'><time>2024-06-01T08:00:00Z</time></trkpt>
+      <trkpt lat="46.6" lon="8.0"><ele>1300</ele></trkpt>
+      <trkpt lat="46.7" lon="8.1"/>
+    </trkseg>
+  </trk>
+</gpx>`;
+
+const KML = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <name><![CDATA[Coast drive]]></name>
+    <Placemark>
+      <name>Track</name>
+      <gx:Track>
+        <when>2024-06-02T10:00:00Z</when>
+        <when>2024-06-02T10:05:00Z</when>
+        <gx:coord>-122.4 37.8 10</gx:coord>
+        <gx:coord>-122.5 37.7 12</gx:coord>
+      </gx:Track>
+    </Placemark>
+    <Placemark>
+      <TimeStamp><when>2024-06-02T09:55:00Z</when></TimeStamp>
+      <Point><coordinates>-122.3,37.9,5</coordinates></Point>
+    </Placemark>
+    <Placemark>
+      <LineString><coordinates>-122.3,37.9 -122.4,37.8</coordinates></LineString>
+    </Placemark>
+  </Document>
+</kml>`;
+
+const GEOJSON = JSON.stringify({
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: {
+        name: 'City walk',
+        coordTimes: ['2024-06-03T12:00:00Z', '2024-06-03T12:01:00Z']
+      },
+      geometry: { type: 'LineString', coordinates: [[2.35, 48.85, 35], [2.36, 48.86]] }
+    },
+    {
+      type: 'Feature',
+      properties: {
+        times: [['2024-06-03T13:00:00Z'], ['2024-06-03T13:10:00Z']]
+      },
+      geometry: { type: 'MultiLineString', coordinates: [[[2.37, 48.87]], [[2.38, 48.88]]] }
+    },
+    {
+      type: 'Feature',
+      properties: { time: '2024-06-03T11:00:00Z' },
+      geometry: { type: 'Point', coordinates: [2.34, 48.84] }
+    }
+  ]
+});
+
+describe('TrackParser', () => {
+  describe('GPX', () => {
+    it('keeps timestamped track points, sorted by time', () => {
+      const track = TrackParser.parse(GPX, 'hike.gpx');
+
+      expect(track.format).toBe('gpx');
+      expect(track.name).toBe('Morning & hike');
+      expect(track.points).toEqual([
+        { latitude: 46.4, longitude: 7.8, altitude: undefined, time: Date.parse('2024-06-01T08:00:00Z') },
+        { latitude: 46.5, longitude: 7.9, altitude: 1200.5, time: Date.parse('2024-06-01T08:10:00Z') }
+      ]);
+    });
+  });
+
+  describe('KML', () => {
+    it('reads gx:Track points and timestamped placemarks, skipping LineStrings', () => {
+      const track = TrackParser.parse(KML, 'drive.kml');
+
+      expect(track.format).toBe('kml');
+      expect(track.name).toBe('Coast drive');
+      expect(track.points).toEqual([
+        { latitude: 37.9, longitude: -122.3, altitude: 5, time: Date.parse('2024-06-02T09:55:00Z') },
+        { latitude: 37.8, longitude: -122.4, altitude: 10, time: Date.parse('2024-06-02T10:00:00Z') },
+        { latitude: 37.7, longitude: -122.5, altitude: 12, time: Date.parse('2024-06-02T10:05:00Z') }
+      ]);
+    });
+  });
+
+  describe('GeoJSON', () => {
+    it('reads LineString, MultiLineString and Point features', () => {
+      const track = TrackParser.parse(GEOJSON, 'walk.geojson');
+
+      expect(track.format).toBe('geojson');
+      expect(track.name).toBe('City walk');
+      expect(track.points.map(point => [point.longitude, point.latitude])).toEqual([
+        [2.34, 48.84],
+        [2.35, 48.85],
+        [2.36, 48.86],
+        [2.37, 48.87],
+        [2.38, 48.88]
+      ]);
+      expect(track.points[1].altitude).toBe(35);
+    });
+
+    it('accepts numeric timestamps', () => {
+      const track = TrackParser.parse(JSON.stringify({
+        type: 'Feature',
+        properties: { time: 1717405200000 },
+        geometry: { type: 'Point', coordinates: [2.34, 48.84] }
+      }), 'point.json');
+
+      expect(track.points[0].time).toBe(1717405200000);
+    });
+
+    it('rejects malformed JSON', () => {
+      expect(() => TrackParser.parse('{"type": ', 'broken.geojson')).toThrow('Invalid GeoJSON');
+    });
+  });
+
+  describe('format detection', () => {
+    it('falls back to the content when the extension is unknown', () => {
+      expect(TrackParser.parse(GPX, 'track.txt').format).toBe('gpx');
+      expect(TrackParser.parse(KML, 'track').format).toBe('kml');
+      expect(TrackParser.parse(GEOJSON, 'track.dat').format).toBe('geojson');
+    });
+
+    it('rejects unsupported files', () => {
+      expect(() => TrackParser.parse('lat,lon,time', 'track.csv')).toThrow('Unsupported track format');
+    });
+  });
+
+  it('drops points with out-of-range coordinates', () => {
+    const gpx = `<gpx><trk><trkseg>
+      <trkpt lat="95" lon="7.9"><time>2024-06-01T08:00:00Z</time></trkpt>
+      <trkpt lat="46.5" lon="181"><time>2024-06-01T08:01:00Z</time></trkpt>
+      <trkpt lat="46.5" lon="7.9"><time>2024-06-01T08:02:00Z</time></trkpt>
+    </trkseg></trk></gpx>`;
+
+    expect(TrackParser.parse(gpx, 'track.gpx').points).toHaveLength(1);
+  });
+
+  it('throws when no point has a timestamp', () => {
+    const gpx = '<gpx><trk><trkseg><trkpt lat="46.5" lon="7.9"/></trkseg></trk></gpx>';
+    expect(() => TrackParser.parse(gpx, 'track.gpx')).toThrow('Track has no timestamped points');
+  });
+});
@@ -0,0 +1,201 @@
+import path from 'path';
+import { ParsedTrack, TrackFormat, TrackPoint } from '../types';
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+export class TrackParser {
+  /**
+   * Parse a GPX, KML or GeoJSON track. Only timestamped points are kept, since photos
+   * are matched to the track by time. Throws if the file has no timestamped points.
+   */
+  static parse(content: string, fileName: string): ParsedTrack {
+    const format = this.detectFormat(content, fileName);
+    if (!format) {
+      throw new Error('Unsupported track format. Upload a GPX, KML or GeoJSON file.');
+    }
+
+    const track = format === 'gpx'
+      ? this.parseGpx(content)
+      : format === 'kml'
+        ? this.parseKml(content)
+        : this.parseGeoJson(content);
+
+    const points = track.points
+      .filter(point => this.isValidPoint(point))
+      .sort((a, b) => a.time - b.time);
+
+    if (points.length === 0) {
+      throw new Error('Track has no timestamped points');
+    }
+
+    return { name: track.name, format, points };
+  }
+
+  /**
+   * Detect the track format from the file extension, falling back to the content
+   */
+  private static detectFormat(content: string, fileName: string): TrackFormat | null {
+    const extension = path.extname(fileName).toLowerCase();
+    if (extension === '.gpx') return 'gpx';
+    if (extension === '.kml') return 'kml';
+    if (extension === '.geojson' || extension === '.json') return 'geojson';
+
+    const start = content.trimStart().slice(0, 1000);
+    if (start.startsWith('{')) return 'geojson';
+    if (/<gpx[\s>]/.test(start)) return 'gpx';
+    if (/<kml[\s>]/.test(start)) return 'kml';
+    return null;
+  }
+
+  /**
+   * GPX track points (`trkpt`) with their `time` and `ele`
+   */
+  private static parseGpx(content: string): Omit<ParsedTrack, 'format'> {
+    const points: TrackPoint[] = [];
+
+    for (const match of content.matchAll(/<trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/trkpt>)/g)) {
+      const attributes = match[1];
+      const body = match[2] || '';
+      const time = this.tagText(body, 'time');
+
+      points.push({
+        latitude: parseFloat(attributes.match(/\blat\s*=\s*["']([^"']+)["']/)?.[1] || ''),
+        longitude: parseFloat(attributes.match(/\blon\s*=\s*["']([^"']+)["']/)?.[1] || ''),
+        altitude: this.toNumber(this.tagText(body, 'ele')),
+        time: time ? Date.parse(time) : NaN
+      });
+    }
+
+    const trk = content.match(/<trk\b[^>]*>([\s\S]*?)<\/trk>/)?.[1] || '';
+    return {
+      name: this.tagText(trk.replace(/<trkseg\b[\s\S]*$/, ''), 'name') || this.tagText(content, 'name'),
+      points
+    };
+  }
+
+  /**
+   * KML `gx:Track` elements (paired `when` and `gx:coord`) and timestamped placemark points.
+   * Plain LineStrings carry no timestamps and are skipped.
+   */
+  private static parseKml(content: string): Omit<ParsedTrack, 'format'> {
+    const points: TrackPoint[] = [];
+
+    for (const match of content.matchAll(/<gx:Track\b[^>]*>([\s\S]*?)<\/gx:Track>/g)) {
+      const whens = Array.from(match[1].matchAll(/<when>([\s\S]*?)<\/when>/g), when => when[1].trim());
+      const coords = Array.from(match[1].matchAll(/<gx:coord>([\s\S]*?)<\/gx:coord>/g), coord => coord[1].trim());
+
+      whens.forEach((when, index) => {
+        const [longitude, latitude, altitude] = (coords[index] || '').split(/\s+/).map(parseFloat);
+        points.push({ latitude, longitude, altitude: this.toNumber(altitude), time: Date.parse(when) });
+      });
+    }
+
+    for (const match of content.matchAll(/<Placemark\b[^>]*>([\s\S]*?)<\/Placemark>/g)) {
+      const when = match[1].match(/<TimeStamp\b[^>]*>[\s\S]*?<when>([\s\S]*?)<\/when>/)?.[1];
+      const coordinates = match[1].match(/<Point\b[^>]*>[\s\S]*?<coordinates>([\s\S]*?)<\/coordinates>/)?.[1];
+      if (!when || !coordinates) continue;
+
+      const [longitude, latitude, altitude] = coordinates.trim().split(',').map(parseFloat);
+      points.push({ latitude, longitude, altitude: this.toNumber(altitude), time: Date.parse(when.trim()) });
+    }
+
+    const document = content.match(/<Document\b[^>]*>([\s\S]*)/)?.[1] || content;
+    return {
+      name: this.tagText(document.replace(/<Placemark\b[\s\S]*$/, ''), 'name'),
+      points
+    };
+  }
+
+  /**
+   * GeoJSON LineString/MultiLineString features with `coordTimes` (or `times`) properties,
+   * as written by most converters, and Point features with a `time` property
+   */
+  private static parseGeoJson(content: string): Omit<ParsedTrack, 'format'> {
+    let geoJson: any;
+    try {
+      geoJson = JSON.parse(content);
+    } catch (error) {
+      throw new Error('Invalid GeoJSON');
+    }
+
+    const features: any[] = geoJson?.type === 'FeatureCollection'
+      ? geoJson.features || []
+      : [geoJson];
+    const points: TrackPoint[] = [];
+
+    const toPoint = (coordinate: unknown, time: unknown): TrackPoint | null => {
+      if (!Array.isArray(coordinate) || (typeof time !== 'string' && typeof time !== 'number')) return null;
+      return {
+        latitude: coordinate[1],
+        longitude: coordinate[0],
+        altitude: this.toNumber(coordinate[2]),
+        time: typeof time === 'number' ? time : Date.parse(time)
+      };
+    };
+
+    for (const feature of features) {
+      const geometry = feature?.geometry;
+      const properties = feature?.properties || {};
+      const times = properties.coordTimes || properties.times;
+
+      if (geometry?.type === 'LineString' && Array.isArray(times)) {
+        geometry.coordinates.forEach((coordinate: unknown, index: number) => {
+          const point = toPoint(coordinate, times[index]);
+          if (point) points.push(point);
+        });
+      } else if (geometry?.type === 'MultiLineString' && Array.isArray(times)) {
+        geometry.coordinates.forEach((line: unknown[], lineIndex: number) => {
+          line.forEach((coordinate, index) => {
+            const point = toPoint(coordinate, times[lineIndex]?.[index]);
+            if (point) points.push(point);
+          });
+        });
+      } else if (geometry?.type === 'Point') {
+        const point = toPoint(geometry.coordinates, properties.time || properties.timestamp);
+        if (point) points.push(point);
+      }
+    }
+
+    const name = geoJson?.name || features.find(feature => feature?.properties?.name)?.properties.name;
+    return {
+      name: typeof name === 'string' ? name : undefined,
+      points
+    };
+  }
+
+  /**
+   * Text content of the first matching XML element
+   */
+  private static tagText(xml: string, tag: string): string | undefined {
+    const text = xml.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`))?.[1];
+    if (text === undefined) return undefined;
+
+    return text
+      .replace(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/, '$1')
+      .replace(/&(amp|lt|gt|quot|apos);/g, (_, entity) => XML_ENTITIES[entity])
+      .trim() || undefined;
+  }
+
+  /**
+   * Parse a finite number, or undefined
+   */
+  private static toNumber(value: unknown): number | undefined {
+    const number = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+  }
+
+  /**
+   * Check a point has a timestamp and valid coordinates
+   */
+  private static isValidPoint(point: TrackPoint): boolean {
+    return Number.isFinite(point.time) &&
+      Number.isFinite(point.latitude) && Math.abs(point.latitude) <= 90 &&
+      Number.isFinite(point.longitude) && Math.abs(point.longitude) <= 180;
+  }
+}
@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+
+export class UrlSigner {
+  /**
+   * Sign a resource identifier for time-limited access.
+   * Expiry is rounded up to a multiple of `expiresIn` so URLs stay stable
+   * (and browser-cacheable) for a while instead of changing on every response.
+   */
+  static sign(resource: string, expiresIn: number = 3600): { expires: number; signature: string } {
+    const now = Math.floor(Date.now() / 1000);
+    const expires = (Math.floor(now / expiresIn) + 2) * expiresIn;
+    return {
+      expires,
+      signature: this.hmac(resource, expires)
+    };
+  }
+
+  /**
+   * Check a signature produced by `sign` and that it hasn't expired
+   */
+  static verify(resource: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.hmac(resource, expires));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Append signature query parameters to a URL
+   */
+  static signUrl(url: string, resource: string, expiresIn?: number): string {
+    const { expires, signature } = this.sign(resource, expiresIn);
+    const separator = url.includes('?') ? '&' : '?';
+    return `${url}${separator}expires=${expires}&signature=${signature}`;
+  }
+
+  /**
+   * Throw unless a signing secret is configured; without one anyone could forge URLs
+   */
+  static assertConfigured(): void {
+    this.secret();
+  }
+
+  private static hmac(resource: string, expires: number): string {
+    return crypto.createHmac('sha256', this.secret()).update(`${resource}:${expires}`).digest('hex');
+  }
+
+  private static secret(): string {
+    const secret = process.env.URL_SIGNING_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error('URL_SIGNING_SECRET not configured');
+    }
+    return secret;
+  }
+}
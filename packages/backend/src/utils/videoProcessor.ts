@@ -0,0 +1,346 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { CaptureTime } from './captureTime';
+import { VideoMetadata } from '../types';
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || ffmpegInstaller.path;
+const FFMPEG_TIMEOUT_MS = 60 * 1000;
+const MAX_MOOV_SIZE = 64 * 1024 * 1024;
+
+// MP4/QuickTime timestamps count seconds from 1904-01-01 UTC
+const MP4_EPOCH_OFFSET = Date.UTC(1904, 0, 1);
+
+interface Box {
+  type: string;
+  start: number; // Offset of the payload
+  end: number;
+}
+
+export class VideoProcessor {
+  /**
+   * Read duration, resolution, creation time and GPS from an MP4/MOV's `moov` box.
+   * Only the box headers and the `moov` box itself are read from disk.
+   */
+  static async extractMetadata(filePath: string): Promise<VideoMetadata> {
+    const moov = await this.readMoov(filePath);
+    if (!moov) {
+      throw new Error('Not an MP4/MOV file: no moov box found');
+    }
+
+    const metadata: VideoMetadata = {};
+    const boxes = this.children(moov, 0, moov.length);
+
+    const mvhd = boxes.find(box => box.type === 'mvhd');
+    if (mvhd) {
+      const version = moov[mvhd.start];
+      const creationTime = version === 1
+        ? Number(moov.readBigUInt64BE(mvhd.start + 4))
+        : moov.readUInt32BE(mvhd.start + 4);
+      const timescale = moov.readUInt32BE(mvhd.start + (version === 1 ? 20 : 12));
+      const duration = version === 1
+        ? Number(moov.readBigUInt64BE(mvhd.start + 24))
+        : moov.readUInt32BE(mvhd.start + 16);
+
+      if (timescale > 0) metadata.duration = duration / timescale;
+      if (creationTime > 0) metadata.dateTaken = new Date(MP4_EPOCH_OFFSET + creationTime * 1000);
+    }
+
+    // Resolution of the first video track (before any display rotation)
+    for (const trak of boxes.filter(box => box.type === 'trak')) {
+      const trakBoxes = this.children(moov, trak.start, trak.end);
+      const mdia = trakBoxes.find(box => box.type === 'mdia');
+      const hdlr = mdia && this.children(moov, mdia.start, mdia.end).find(box => box.type === 'hdlr');
+      const tkhd = trakBoxes.find(box => box.type === 'tkhd');
+
+      if (!hdlr || !tkhd || moov.toString('latin1', hdlr.start + 8, hdlr.start + 12) !== 'vide') continue;
+
+      const sizeOffset = tkhd.start + (moov[tkhd.start] === 1 ? 88 : 76);
+      metadata.width = moov.readUInt32BE(sizeOffset) >> 16;
+      metadata.height = moov.readUInt32BE(sizeOffset + 4) >> 16;
+      break;
+    }
+
+    // Location and local creation date: QuickTime `udta/©xyz` (also used by Android),
+    // 3GPP `udta/loci` and Apple's `meta` keys
+    const udtaBoxes = boxes
+      .filter(box => box.type === 'udta')
+      .flatMap(udta => this.children(moov, udta.start, udta.end));
+    const xyz = udtaBoxes.find(box => box.type === '©xyz');
+    const loci = udtaBoxes.find(box => box.type === 'loci');
+    const appleMeta = this.readAppleMetadata(moov, boxes);
+
+    const iso6709 = appleMeta['com.apple.quicktime.location.ISO6709'] ||
+      (xyz && moov.toString('utf8', xyz.start + 4, xyz.start + 4 + moov.readUInt16BE(xyz.start)));
+    if (iso6709) {
+      Object.assign(metadata, this.parseIso6709(iso6709));
+    } else if (loci) {
+      Object.assign(metadata, this.parseLoci(moov, loci));
+    }
+
+    // Apple's creation date is local time with its offset, e.g. 2023-05-06T07:08:09+0200;
+    // the mvhd creation time is UTC, so its local time comes from the GPS time zone
+    const creationDate = appleMeta['com.apple.quicktime.creationdate'];
+    const localTime = creationDate && CaptureTime.toWallClock(creationDate);
+    if (localTime) {
+      const offset = creationDate.match(/([+-]\d{2}:?\d{2}|Z)$/)?.[1];
+      Object.assign(metadata, CaptureTime.fromLocalTime(localTime, offset, metadata.latitude, metadata.longitude));
+    } else if (metadata.dateTaken) {
+      Object.assign(metadata, CaptureTime.fromInstant(metadata.dateTaken, metadata.latitude, metadata.longitude));
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Grab a single frame as JPEG. Rotation metadata is applied, so the frame is upright.
+   */
+  static async extractFrame(filePath: string, seconds: number): Promise<Buffer> {
+    const frame = await this.runFfmpeg([
+      '-ss', seconds.toFixed(3),
+      '-i', filePath,
+      '-frames:v', '1',
+      '-f', 'image2pipe',
+      '-vcodec', 'mjpeg',
+      '-q:v', '2',
+      'pipe:1'
+    ]);
+
+    if (frame.length === 0) {
+      throw new Error(`No video frame at ${seconds}s`);
+    }
+
+    return frame;
+  }
+
+  /**
+   * Poster frame used as the video's thumbnail and display image
+   */
+  static async extractPoster(filePath: string, duration?: number): Promise<Buffer> {
+    // Skip the first second (often black or a fade-in) unless the clip is very short
+    const seconds = duration ? Math.min(1, duration / 2) : 0;
+
+    try {
+      return await this.extractFrame(filePath, seconds);
+    } catch (error) {
+      if (seconds === 0) throw error;
+      return this.extractFrame(filePath, 0);
+    }
+  }
+
+  /**
+   * Evenly spaced frames that represent the whole clip, for AI analysis
+   */
+  static async extractKeyframes(filePath: string, duration: number | null, count: number = 3): Promise<Buffer[]> {
+    if (!duration) {
+      return [await this.extractPoster(filePath)];
+    }
+
+    const frames: Buffer[] = [];
+    for (let i = 0; i < count; i++) {
+      try {
+        frames.push(await this.extractFrame(filePath, ((i + 0.5) / count) * duration));
+      } catch (error) {
+        console.error('Keyframe extraction error:', filePath, error);
+      }
+    }
+
+    if (frames.length === 0) {
+      throw new Error('Failed to extract video keyframes');
+    }
+
+    return frames;
+  }
+
+  /**
+   * Copy a clip without its metadata (creation time, GPS, device) or data tracks.
+   * Streams are copied, not re-encoded; the rotation is kept so the clip plays upright.
+   */
+  static async stripMetadata(inputPath: string, outputPath: string): Promise<void> {
+    await this.runFfmpeg([
+      '-i', inputPath,
+      '-map', '0:v',
+      '-map', '0:a?',
+      '-map_metadata', '-1',
+      '-map_chapters', '-1',
+      '-c', 'copy',
+      '-fflags', '+bitexact',
+      '-y', outputPath
+    ]);
+  }
+
+  /**
+   * Run ffmpeg and collect its stdout
+   */
+  private static runFfmpeg(args: string[]): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn(FFMPEG_PATH, ['-hide_banner', '-loglevel', 'error', ...args]);
+      const stdout: Buffer[] = [];
+      let stderr = '';
+
+      const timer = setTimeout(() => ffmpeg.kill('SIGKILL'), FFMPEG_TIMEOUT_MS);
+
+      ffmpeg.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+      ffmpeg.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+      ffmpeg.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      ffmpeg.on('close', (code) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(Buffer.concat(stdout));
+        } else {
+          reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Find the top-level `moov` box and read it into memory
+   */
+  private static async readMoov(filePath: string): Promise<Buffer | null> {
+    const file = await fs.open(filePath, 'r');
+
+    try {
+      const { size: fileSize } = await file.stat();
+      const header = Buffer.alloc(16);
+      let offset = 0;
+
+      while (offset + 8 <= fileSize) {
+        await file.read(header, 0, 16, offset);
+
+        let size = header.readUInt32BE(0);
+        const type = header.toString('latin1', 4, 8);
+        let headerSize = 8;
+
+        if (size === 1) {
+          size = Number(header.readBigUInt64BE(8));
+          headerSize = 16;
+        } else if (size === 0) {
+          size = fileSize - offset;
+        }
+
+        if (size < headerSize) return null;
+
+        if (type === 'moov') {
+          const payloadSize = Math.min(size - headerSize, MAX_MOOV_SIZE);
+          const moov = Buffer.alloc(payloadSize);
+          await file.read(moov, 0, payloadSize, offset + headerSize);
+          return moov;
+        }
+
+        offset += size;
+      }
+
+      return null;
+    } finally {
+      await file.close();
+    }
+  }
+
+  /**
+   * List the child boxes within a byte range of a buffer
+   */
+  private static children(buffer: Buffer, start: number, end: number): Box[] {
+    const boxes: Box[] = [];
+    let offset = start;
+
+    while (offset + 8 <= end) {
+      let size = buffer.readUInt32BE(offset);
+      let headerSize = 8;
+
+      if (size === 1 && offset + 16 <= end) {
+        size = Number(buffer.readBigUInt64BE(offset + 8));
+        headerSize = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+
+      if (size < headerSize || offset + size > end) break;
+
+      boxes.push({
+        type: buffer.toString('latin1', offset + 4, offset + 8),
+        start: offset + headerSize,
+        end: offset + size
+      });
+      offset += size;
+    }
+
+    return boxes;
+  }
+
+  /**
+   * Read string values of Apple's `moov/meta` key list (`keys` + `ilst`)
+   */
+  private static readAppleMetadata(moov: Buffer, boxes: Box[]): Record<string, string> {
+    const values: Record<string, string> = {};
+    const meta = boxes.find(box => box.type === 'meta');
+    if (!meta) return values;
+
+    // QuickTime's `meta` is a plain box; the MP4 variant is a full box with 4 bytes of version/flags
+    const metaStart = moov.toString('latin1', meta.start + 4, meta.start + 8) === 'hdlr' ? meta.start : meta.start + 4;
+    const metaBoxes = this.children(moov, metaStart, meta.end);
+    const keys = metaBoxes.find(box => box.type === 'keys');
+    const ilst = metaBoxes.find(box => box.type === 'ilst');
+    if (!keys || !ilst) return values;
+
+    // keys: version/flags, entry count, then [size, namespace, name] entries
+    const keyNames: string[] = [];
+    let offset = keys.start + 8;
+    while (offset + 8 <= keys.end) {
+      const keySize = moov.readUInt32BE(offset);
+      if (keySize < 8) break;
+      keyNames.push(moov.toString('utf8', offset + 8, offset + keySize));
+      offset += keySize;
+    }
+
+    // ilst: one box per value, typed by the 1-based key index, holding a `data` box
+    let itemOffset = ilst.start;
+    while (itemOffset + 8 <= ilst.end) {
+      const itemSize = moov.readUInt32BE(itemOffset);
+      if (itemSize < 8 || itemOffset + itemSize > ilst.end) break;
+
+      const keyName = keyNames[moov.readUInt32BE(itemOffset + 4) - 1];
+      const data = this.children(moov, itemOffset + 8, itemOffset + itemSize).find(box => box.type === 'data');
+      if (keyName && data) {
+        // data: type indicator, locale, value
+        values[keyName] = moov.toString('utf8', data.start + 8, data.end);
+      }
+
+      itemOffset += itemSize;
+    }
+
+    return values;
+  }
+
+  /**
+   * Parse a 3GPP `loci` box: version/flags, language, place name, role, then 16.16 fixed-point coordinates
+   */
+  private static parseLoci(buffer: Buffer, loci: Box): Pick<VideoMetadata, 'latitude' | 'longitude' | 'altitude'> {
+    const nameEnd = buffer.indexOf(0, loci.start + 6);
+    const offset = nameEnd + 2; // Skip the terminator and the role byte
+    if (nameEnd === -1 || offset + 12 > loci.end) return {};
+
+    return {
+      longitude: buffer.readInt32BE(offset) / 65536,
+      latitude: buffer.readInt32BE(offset + 4) / 65536,
+      altitude: buffer.readInt32BE(offset + 8) / 65536
+    };
+  }
+
+  /**
+   * Parse an ISO 6709 location string, e.g. "+48.8577+002.2950+035.000/"
+   */
+  private static parseIso6709(value: string): Pick<VideoMetadata, 'latitude' | 'longitude' | 'altitude'> {
+    const match = value.match(/^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)?/);
+    if (!match) return {};
+
+    return {
+      latitude: parseFloat(match[1]),
+      longitude: parseFloat(match[2]),
+      altitude: match[3] ? parseFloat(match[3]) : undefined
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import { XmpMetadata } from './xmpMetadata';
+
+const SIDECAR = `<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmp:Rating="4"
+    xmp:Label="Red">
+   <dc:title>
+    <rdf:Alt>
+     <rdf:li xml:lang="fr-FR">Coucher de soleil</rdf:li>
+     <rdf:li xml:lang="x-default">Sunset &amp; sea</rdf:li>
+    </rdf:Alt>
+   </dc:title>
+   <dc:description>
+    <rdf:Alt><rdf:li xml:lang="x-default">Evening at the harbour</rdf:li></rdf:Alt>
+   </dc:description>
+   <dc:subject>
+    <rdf:Bag>
+     <rdf:li>beach</rdf:li>
+     <rdf:li>Caf&#xE9;</rdf:li>
+     <rdf:li>beach</rdf:li>
+    </rdf:Bag>
+   </dc:subject>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>`;
+
+describe('XmpMetadata', () => {
+  describe('fromSidecar', () => {
+    it('reads title, caption, keywords, rating and label', async () => {
+      const metadata = await XmpMetadata.fromSidecar(Buffer.from(SIDECAR, 'utf8'));
+
+      expect(metadata).toEqual({
+        title: 'Sunset & sea',
+        caption: 'Evening at the harbour',
+        keywords: ['beach', 'Café'],
+        rating: 4,
+        colorLabel: 'Red'
+      });
+    });
+
+    it('omits fields that are missing or out of range', async () => {
+      const sidecar = SIDECAR
+        .replace('xmp:Rating="4"', 'xmp:Rating="9"')
+        .replace(/<dc:subject>[\s\S]*<\/dc:subject>/, '');
+      const metadata = await XmpMetadata.fromSidecar(Buffer.from(sidecar, 'utf8'));
+
+      expect(metadata).not.toHaveProperty('rating');
+      expect(metadata).not.toHaveProperty('keywords');
+    });
+  });
+
+  describe('isSidecar', () => {
+    it('matches the .xmp extension in any case', () => {
+      expect(XmpMetadata.isSidecar('IMG_0001.xmp')).toBe(true);
+      expect(XmpMetadata.isSidecar('IMG_0001.CR3.XMP')).toBe(true);
+      expect(XmpMetadata.isSidecar('IMG_0001.jpg')).toBe(false);
+    });
+  });
+
+  describe('matchesSidecar', () => {
+    it('matches any extension for a sidecar named after the base name', () => {
+      expect(XmpMetadata.matchesSidecar('IMG_0001.xmp', 'IMG_0001.CR3')).toBe(true);
+      expect(XmpMetadata.matchesSidecar('IMG_0001.xmp', 'img_0001.jpg')).toBe(true);
+    });
+
+    it('matches only the named file for a sidecar that includes the extension', () => {
+      expect(XmpMetadata.matchesSidecar('IMG_0001.CR3.xmp', 'IMG_0001.CR3')).toBe(true);
+      expect(XmpMetadata.matchesSidecar('IMG_0001.CR3.xmp', 'IMG_0001.jpg')).toBe(false);
+    });
+
+    it('does not match other files', () => {
+      expect(XmpMetadata.matchesSidecar('IMG_0001.xmp', 'IMG_00012.jpg')).toBe(false);
+      expect(XmpMetadata.matchesSidecar('IMG_0001.xmp', 'IMG_0002.jpg')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import exifr, { sidecar } from 'exifr';
+import { DescriptiveMetadata, ImageSource } from '../types';
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+export class XmpMetadata {
+  /**
+   * Read title, caption, keywords, rating and color label embedded in an image.
+   * XMP wins over the older IPTC fields when both are present.
+   */
+  static async fromImage(image: ImageSource): Promise<DescriptiveMetadata> {
+    const parsed = await exifr.parse(image, {
+      tiff: false,
+      xmp: true,
+      iptc: true,
+      mergeOutput: false
+    } as any);
+
+    return this.toDescriptive(parsed);
+  }
+
+  /**
+   * Read an .xmp sidecar file
+   */
+  static async fromSidecar(content: Buffer): Promise<DescriptiveMetadata> {
+    const parsed = await sidecar(content, undefined, 'xmp');
+    if (!parsed) {
+      throw new Error('Not an XMP file');
+    }
+
+    return this.toDescriptive(parsed);
+  }
+
+  /**
+   * Check if a file is an .xmp sidecar
+   */
+  static isSidecar(fileName: string): boolean {
+    return fileName.toLowerCase().endsWith('.xmp');
+  }
+
+  /**
+   * Check if a sidecar belongs to a file. "IMG_0001.xmp" (Lightroom) matches any
+   * "IMG_0001.*"; "IMG_0001.CR3.xmp" (darktable, digiKam) matches only "IMG_0001.CR3".
+   */
+  static matchesSidecar(sidecarName: string, fileName: string): boolean {
+    const base = sidecarName.slice(0, -'.xmp'.length).toLowerCase();
+    const name = fileName.toLowerCase();
+    const extension = name.lastIndexOf('.');
+    return name === base || (extension > 0 && name.slice(0, extension) === base);
+  }
+
+  /**
+   * Pick descriptive fields out of exifr output grouped by namespace (dc, xmp, iptc)
+   */
+  private static toDescriptive(parsed: any): DescriptiveMetadata {
+    const dc = parsed?.dc || {};
+    const xmp = parsed?.xmp || {};
+    const iptc = parsed?.iptc || {};
+
+    const keywords = dc.subject !== undefined
+      ? this.toList(dc.subject).map(keyword => this.decodeXml(keyword))
+      : this.toList(iptc.Keywords).map(keyword => this.decodeIptc(keyword));
+    const rating = Number(xmp.Rating);
+
+    const metadata: DescriptiveMetadata = {
+      title: this.decodeXml(this.altText(dc.title)) || this.decodeIptc(iptc.ObjectName),
+      caption: this.decodeXml(this.altText(dc.description)) || this.decodeIptc(iptc.Caption),
+      keywords: Array.from(new Set(keywords.filter((keyword): keyword is string => !!keyword))),
+      rating: Number.isInteger(rating) && rating >= -1 && rating <= 5 ? rating : undefined,
+      colorLabel: this.decodeXml(xmp.Label)
+    };
+
+    if (metadata.keywords!.length === 0) {
+      delete metadata.keywords;
+    }
+
+    return Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value !== undefined)
+    ) as DescriptiveMetadata;
+  }
+
+  /**
+   * An exifr XMP value (single item or array) as a list of strings
+   */
+  private static toList(value: unknown): string[] {
+    const items = Array.isArray(value) ? value : value === undefined ? [] : [value];
+    return items.map(item => String(item));
+  }
+
+  /**
+   * Text of an XMP language alternative, preferring the default language
+   */
+  private static altText(value: any): string | undefined {
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) {
+      return this.altText(value.find(item => item?.lang === 'x-default') || value[0]);
+    }
+    return typeof value?.value === 'string' ? value.value : undefined;
+  }
+
+  /**
+   * Unescape XML entities, which exifr leaves in XMP values
+   */
+  private static decodeXml(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+
+    return value
+      .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+      .replace(/&(amp|lt|gt|quot|apos);/g, (_, entity) => XML_ENTITIES[entity])
+      .trim() || undefined;
+  }
+
+  /**
+   * IPTC text as a string. exifr reads it as Latin-1, but Lightroom and most
+   * current tools write UTF-8, so re-decode when the bytes are valid UTF-8.
+   */
+  private static decodeIptc(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+
+    const utf8 = Buffer.from(value, 'latin1').toString('utf8');
+    return (utf8.includes('\uFFFD') ? value : utf8).replace(/\0/g, '').trim() || undefined;
+  }
+}
@@ -38,9 +38,9 @@ export function AlbumsPage() {
           {albumsData?.data?.map((album: any) => (
             <div key={album.id} className="card overflow-hidden hover:shadow-lg transition-shadow">
               <div className="h-48 bg-gray-100 flex items-center justify-center">
-                {album.coverPhoto ? (
+                {album.coverPhotoUrl ? (
                   <img
-                    src={album.coverPhoto}
+                    src={album.coverPhotoUrl}
                     alt={album.title}
                     className="w-full h-full object-cover"
                   />
@@ -1,7 +1,17 @@
 import { useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
-import { Search, Calendar, MapPin, Users } from 'lucide-react'
-import { photosApi, searchApi } from '../services/api'
+import { Search, Calendar, MapPin, Users, Play } from 'lucide-react'
+import { formatDateTaken, formatDuration, photoImageSrc, photosApi, searchApi, Photo } from '../services/api'
+
+function VideoBadge({ photo }: { photo: Photo }) {
+  if (photo.mediaType !== 'video') return null
+  return (
+    <div className="absolute top-2 right-2 flex items-center space-x-1 bg-black bg-opacity-60 text-white text-xs rounded px-2 py-1">
+      <Play size={12} />
+      {photo.duration ? <span>{formatDuration(photo.duration)}</span> : null}
+    </div>
+  )
+}
 
 export function DashboardPage() {
   const [searchQuery, setSearchQuery] = useState('')
@@ -54,10 +64,11 @@ export function DashboardPage() {
               {searchResults.data?.slice(0, 8).map((photo: any) => (
                 <div key={photo.id} className="relative group">
                   <img
-                    src={photo.thumbnailUrl || photo.originalUrl}
+                    src={photoImageSrc(photo, { w: 480, h: 320, fit: 'cover' })}
                     alt={photo.aiDescription || 'Photo'}
                     className="w-full h-40 object-cover rounded-lg"
                   />
+                  <VideoBadge photo={photo} />
                   <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-20 transition-opacity rounded-lg"></div>
                 </div>
               ))}
@@ -104,17 +115,18 @@ export function DashboardPage() {
             {photosData?.data?.map((photo: any) => (
               <div key={photo.id} className="relative group">
                 <img
-                  src={photo.thumbnailUrl || photo.originalUrl}
+                  src={photoImageSrc(photo, { w: 480, h: 320, fit: 'cover' })}
                   alt={photo.aiDescription || 'Photo'}
                   className="w-full h-40 object-cover rounded-lg"
                 />
+                <VideoBadge photo={photo} />
                 <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-20 transition-opacity rounded-lg"></div>
                 <div className="absolute bottom-2 left-2 right-2">
                   <div className="bg-white bg-opacity-90 rounded p-2 text-xs">
                     <div className="font-medium truncate">{photo.location || 'Unknown location'}</div>
                     {photo.dateTaken && (
                       <div className="text-gray-600">
-                        {new Date(photo.dateTaken).toLocaleDateString()}
+                        {formatDateTaken(photo)}
                       </div>
                     )}
                   </div>
@@ -1,25 +1,100 @@
 import { useCallback, useState } from 'react'
 import { useDropzone } from 'react-dropzone'
-import { Upload, Camera, CheckCircle } from 'lucide-react'
-import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Upload, Camera, CheckCircle, XCircle } from 'lucide-react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { toast } from 'react-hot-toast'
-import { photosApi } from '../services/api'
+import { authApi, formatBytes, photosApi, Photo, SidecarImport, StorageUsage } from '../services/api'
+
+interface UploadFailure {
+  fileName: string
+  error: string
+}
+
+// The server's reason for a failed upload, e.g. a quota or unsupported type error
+const uploadError = (error: any): string =>
+  error.response?.data?.error || error.message || 'Upload failed'
 
 export function UploadPage() {
   const [uploading, setUploading] = useState(false)
   const [uploadedFiles, setUploadedFiles] = useState<string[]>([])
+  const [failedFiles, setFailedFiles] = useState<UploadFailure[]>([])
+  const [progress, setProgress] = useState({ uploaded: 0, total: 0 })
   const queryClient = useQueryClient()
 
+  const { data: profile } = useQuery({
+    queryKey: ['profile'],
+    queryFn: authApi.getProfile,
+  })
+  const usage: StorageUsage | undefined = profile?.data?.usage
+
+  // Files go up one at a time in resumable chunks, so flaky connections only retry the failed chunk.
+  // A file that fails (e.g. over quota or unsupported) is reported and the rest carry on.
+  // .xmp sidecars follow once their photos are in.
+  const uploadFiles = async (files: File[]) => {
+    const sidecars = files.filter(file => file.name.toLowerCase().endsWith('.xmp'))
+    const mediaFiles = files.filter(file => !sidecars.includes(file))
+    const total = mediaFiles.reduce((sum, file) => sum + file.size, 0)
+    const data: Photo[] = []
+    const duplicates: Photo[] = []
+    const failures: UploadFailure[] = []
+    let completed = 0
+
+    setProgress({ uploaded: 0, total })
+    for (const file of mediaFiles) {
+      try {
+        const result = await photosApi.uploadResumable(file, {
+          onProgress: (uploaded) => setProgress({ uploaded: completed + uploaded, total }),
+        })
+        if (result.duplicate) {
+          duplicates.push(result.data)
+        } else {
+          data.push(result.data)
+        }
+      } catch (error) {
+        failures.push({ fileName: file.name, error: uploadError(error) })
+      }
+      completed += file.size
+    }
+
+    // Sidecars only apply to this upload's photos, so skip them if none made it
+    const photoIds = [...data, ...duplicates].map(photo => photo.id)
+    let sidecarImports: SidecarImport[] = []
+    if (sidecars.length > 0 && photoIds.length > 0) {
+      try {
+        sidecarImports = (await photosApi.importSidecars(sidecars, photoIds)).data
+      } catch (error) {
+        const reason = uploadError(error)
+        failures.push(...sidecars.map(sidecar => ({ fileName: sidecar.name, error: reason })))
+      }
+    }
+
+    return { data, duplicates, sidecarImports, failures }
+  }
+
   const uploadMutation = useMutation({
-    mutationFn: photosApi.uploadBatch,
+    mutationFn: uploadFiles,
     onSuccess: (data) => {
-      toast.success(`${data.data.length} photos uploaded successfully!`)
+      if (data.failures.length > 0) {
+        toast.error(`${data.data.length} uploaded, ${data.failures.length} failed`)
+      } else {
+        toast.success(`${data.data.length} photos uploaded successfully!`)
+      }
+      if (data.duplicates?.length > 0) {
+        toast(`${data.duplicates.length} photos were already in your library`)
+      }
+      if (data.sidecarImports.length > 0) {
+        const matched = data.sidecarImports.filter(sidecarImport => sidecarImport.photoIds.length > 0).length
+        toast(`Keywords and captions imported from ${matched} of ${data.sidecarImports.length} sidecars`)
+      }
       setUploadedFiles(data.data.map((photo: any) => photo.fileName))
+      setFailedFiles(data.failures)
       queryClient.invalidateQueries({ queryKey: ['photos'] })
+      queryClient.invalidateQueries({ queryKey: ['profile'] })
       setUploading(false)
     },
     onError: (error: any) => {
       toast.error(error.response?.data?.error || 'Upload failed')
+      queryClient.invalidateQueries({ queryKey: ['profile'] })
       setUploading(false)
     },
   })
@@ -34,10 +109,15 @@ export function UploadPage() {
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.webp']
+      'image/*': ['.jpeg', '.jpg', '.png', '.webp', '.heic', '.heif'],
+      // RAW files rarely have a registered MIME type, so match them by extension
+      'application/octet-stream': ['.dng', '.cr2', '.cr3', '.nef', '.arw'],
+      'video/mp4': ['.mp4', '.m4v'],
+      'video/quicktime': ['.mov'],
+      // Lightroom and other photo managers' sidecars, applied to the matching photos
+      'application/rdf+xml': ['.xmp']
     },
-    multiple: true,
-    maxFiles: 20
+    multiple: true
   })
 
   return (
@@ -71,7 +151,9 @@ export function UploadPage() {
                 Uploading and analyzing photos...
               </p>
               <p className="text-sm text-gray-600">
-                This may take a moment while we process your images
+                {progress.total > 0
+                  ? `${Math.round((progress.uploaded / progress.total) * 100)}% uploaded`
+                  : 'This may take a moment while we process your images'}
               </p>
             </div>
           ) : (
@@ -91,7 +173,7 @@ export function UploadPage() {
                       Drag & drop photos here, or click to browse
                     </p>
                     <p className="text-sm text-gray-600">
-                      Supports JPEG, PNG, WebP up to 10MB each (max 20 files)
+                      Supports JPEG, PNG, WebP, HEIC, RAW (DNG, CR2, CR3, NEF, ARW) and MP4/MOV videos up to 100MB each, plus .xmp sidecars for keywords and captions. Interrupted uploads resume automatically
                     </p>
                   </div>
                 </>
@@ -99,6 +181,26 @@ export function UploadPage() {
             </div>
           )}
         </div>
+
+        {usage && (
+          <div className="mt-4">
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>Storage</span>
+              <span>
+                {formatBytes(usage.total)}
+                {usage.quota !== null && ` of ${formatBytes(usage.quota)}`} used
+              </span>
+            </div>
+            {usage.quota !== null && (
+              <div className="w-full h-2 bg-gray-200 rounded-full">
+                <div
+                  className={`h-2 rounded-full ${usage.total >= usage.quota ? 'bg-red-500' : 'bg-primary-600'}`}
+                  style={{ width: `${Math.min(100, usage.quota > 0 ? (usage.total / usage.quota) * 100 : 100)}%` }}
+                ></div>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Upload Success */}
@@ -130,6 +232,32 @@ export function UploadPage() {
         </div>
       )}
 
+      {/* Upload Failures */}
+      {failedFiles.length > 0 && (
+        <div className="max-w-2xl mx-auto">
+          <div className="card p-6 border-red-200 bg-red-50">
+            <div className="flex items-center space-x-3 text-red-800">
+              <XCircle size={24} />
+              <div>
+                <h3 className="font-semibold">Some files failed</h3>
+                <p className="text-sm">
+                  {failedFiles.length} files could not be uploaded
+                </p>
+              </div>
+            </div>
+
+            <div className="mt-4 space-y-1 max-h-32 overflow-y-auto">
+              {failedFiles.map((failure, index) => (
+                <div key={index} className="text-sm text-red-700 flex items-center space-x-2">
+                  <XCircle size={16} />
+                  <span>{failure.fileName}: {failure.error}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Features */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-4xl mx-auto">
         <div className="text-center">
@@ -41,22 +41,102 @@ export interface RegisterCredentials {
   name: string
 }
 
+export type MediaType = 'image' | 'video'
+
+export type LocationSource = 'exif' | 'track' | 'inferred' | 'user'
+
+export interface LocationEdit {
+  latitude?: number | null
+  longitude?: number | null
+  altitude?: number | null
+  place?: string
+}
+
+// embed: write curated metadata into downloads; strip: drop location and device metadata
+export type ExportMetadataMode = 'embed' | 'strip'
+
+export interface SidecarImport {
+  fileName: string
+  photoIds: string[] // Empty if no photo's file name matched
+  candidates?: string[] // Photos an ambiguous name matched; nothing was written
+}
+
 export interface Photo {
   id: string
   fileName: string
+  mediaType?: MediaType
+  duration?: number
   originalUrl: string
   thumbnailUrl?: string
+  imageUrl?: string
   latitude?: number
   longitude?: number
+  locationSource?: LocationSource
   location?: string
   city?: string
   country?: string
+  cameraMake?: string
+  cameraModel?: string
+  lens?: string
+  focalLength?: number
+  aperture?: number
+  exposureTime?: number
+  iso?: number
   dateTaken?: string
+  dateTakenLocal?: string // Camera wall-clock time, as UTC
+  utcOffset?: number // Minutes east of UTC
+  timeZone?: string
+  title?: string
+  caption?: string
+  rating?: number // Stars 0-5; -1 marks a reject
+  colorLabel?: string
+  keywords?: string[] // Imported from IPTC/XMP
   aiDescription?: string
-  tags: string[]
+  aiTags?: string[]
+  tags: string[] // Keywords and AI tags merged
   faces: Face[]
+  aiStatus?: ProcessingStatus
+  facesStatus?: ProcessingStatus
+  geocodeStatus?: ProcessingStatus
+  stack?: {
+    id: string
+    _count: { photos: number }
+  }
 }
 
+// Build a sized image URL from a photo's signed imageUrl (format is negotiated by the server)
+export function photoImageSrc(
+  photo: Pick<Photo, 'imageUrl' | 'thumbnailUrl' | 'originalUrl'>,
+  size: { w?: number; h?: number; fit?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside' }
+) {
+  if (!photo.imageUrl) {
+    return photo.thumbnailUrl || photo.originalUrl
+  }
+  const url = new URL(photo.imageUrl)
+  if (size.w) url.searchParams.set('w', String(size.w))
+  if (size.h) url.searchParams.set('h', String(size.h))
+  if (size.fit) url.searchParams.set('fit', size.fit)
+  return url.toString()
+}
+
+// Format the day a photo was taken, local to where it was taken
+export function formatDateTaken(photo: Photo) {
+  if (photo.dateTakenLocal) {
+    return new Date(photo.dateTakenLocal).toLocaleDateString(undefined, { timeZone: 'UTC' })
+  }
+  return photo.dateTaken ? new Date(photo.dateTaken).toLocaleDateString() : ''
+}
+
+// Format a video duration as m:ss
+export function formatDuration(seconds: number) {
+  const rounded = Math.round(seconds)
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`
+}
+
+export type ProcessingStatus = 'pending' | 'processing' | 'done' | 'failed'
+
+export type ProcessingStep = 'ai' | 'faces' | 'geocode'
+
 export interface Face {
   id: string
   boundingBox: {
@@ -84,11 +164,35 @@ export interface PhotoCluster {
   }
 }
 
+export interface StorageUsage {
+  originals: number
+  renditions: number
+  thumbnails: number
+  variants: number
+  total: number
+  quota: number | null
+  remaining: number | null
+  byMediaType: { mediaType: MediaType; count: number; bytes: number }[]
+  byYear: { year: number | null; count: number; bytes: number }[]
+}
+
+// Format a byte count for display, e.g. 1.5 GB
+export function formatBytes(bytes: number) {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`
+}
+
 export interface Album {
   id: string
   title: string
   description?: string
-  coverPhoto?: string
+  coverPhotoUrl?: string
   isAutoGenerated: boolean
   photoCount?: number
   albumPhotos?: {
@@ -96,6 +200,68 @@ export interface Album {
   }[]
 }
 
+export interface GpsTrack {
+  id: string
+  name: string
+  fileName: string
+  format: 'gpx' | 'kml' | 'geojson'
+  pointCount: number
+  startTime: string
+  endTime: string
+  createdAt: string
+}
+
+export interface GeotagOptions {
+  maxGapSeconds?: number
+  clockOffsetSeconds?: number // Added to photo times to correct the camera clock
+}
+
+export interface GeotagMatch {
+  photoId: string
+  fileName: string
+  dateTaken: string
+  latitude: number
+  longitude: number
+  altitude?: number
+  timeDelta: number
+  interpolated: boolean
+}
+
+export interface LocationProposal {
+  id: string
+  photoId: string
+  photo: Photo
+  latitude: number
+  longitude: number
+  confidence: number // 0-1
+  sourcePhotoIds: string[]
+  status: 'pending' | 'accepted' | 'rejected'
+  createdAt: string
+  decidedAt?: string
+}
+
+// Bulk accept/reject: proposal ids, or all pending proposals within a confidence range
+export type LocationProposalSelection =
+  | { ids: string[] }
+  | { all: true; minConfidence?: number; maxConfidence?: number }
+
+export interface DateShiftRequest {
+  photoIds?: string[]
+  filter?: { cameraMake?: string; cameraModel?: string; dateFrom?: string; dateTo?: string }
+  offsetSeconds?: number
+  // Shift so that photoId gets the time of referencePhotoId, or dateTaken
+  align?: { photoId: string; referencePhotoId?: string; dateTaken?: string }
+}
+
+export interface DateShift {
+  id: string
+  offsetSeconds: number
+  photoCount: number
+  status: 'applied' | 'undone'
+  createdAt: string
+  undoneAt?: string
+}
+
 // Auth API
 export const authApi = {
   login: async (credentials: LoginCredentials) => {
@@ -107,6 +273,31 @@ export const authApi = {
     const response = await api.post('/auth/register', credentials)
     return response.data
   },
+  
+  getProfile: async () => {
+    const response = await api.get('/auth/profile')
+    return response.data
+  },
+}
+
+const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024 // 5MB
+const UPLOAD_MAX_RETRIES = 8
+
+// Resumable uploads are remembered per file so a reload or a new attempt continues where it stopped
+function uploadResumeKey(file: File) {
+  return `upload:${file.name}:${file.size}:${file.lastModified}`
+}
+
+async function getUploadOffset(uploadId: string) {
+  const response = await api.head(`/uploads/${uploadId}`)
+  return parseInt(response.headers['upload-offset'])
+}
+
+// Network errors, server errors and offset conflicts can be recovered by asking the server for its offset
+function isRetryableUploadError(error: unknown) {
+  if (!axios.isAxiosError(error)) return false
+  if (!error.response) return true
+  return error.response.status === 409 || error.response.status >= 500
 }
 
 // Photos API
@@ -137,6 +328,113 @@ export const photosApi = {
     return response.data
   },
   
+  // Original with its metadata embedded, or with location and device metadata stripped for sharing
+  downloadPhoto: async (id: string, metadata: ExportMetadataMode = 'embed') => {
+    const response = await api.get(`/photos/${id}/download`, {
+      params: { metadata },
+      responseType: 'blob',
+    })
+    return response.data as Blob
+  },
+  
+  // Apply .xmp sidecars by file name among photoIds (e.g. the files just uploaded), or to a unique match in the library
+  importSidecars: async (files: File[], photoIds: string[] = []) => {
+    const formData = new FormData()
+    files.forEach(file => {
+      formData.append('sidecars', file)
+    })
+    formData.append('photoIds', photoIds.join(','))
+
+    const response = await api.post('/photos/sidecars', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    })
+    return response.data
+  },
+  
+  // Upload a large file in chunks, resuming automatically after dropped connections
+  uploadResumable: async (
+    file: File,
+    options: {
+      chunkSize?: number
+      onProgress?: (uploaded: number, total: number) => void
+    } = {}
+  ) => {
+    const chunkSize = options.chunkSize || UPLOAD_CHUNK_SIZE
+    const resumeKey = uploadResumeKey(file)
+    let uploadId = localStorage.getItem(resumeKey)
+    let offset = 0
+
+    if (uploadId) {
+      try {
+        offset = await getUploadOffset(uploadId)
+      } catch {
+        uploadId = null
+      }
+    }
+
+    const startUpload = async () => {
+      const response = await api.post('/uploads', {
+        fileName: file.name,
+        fileSize: file.size,
+        mimeType: file.type,
+      })
+      localStorage.setItem(resumeKey, response.data.data.id)
+      return response.data.data.id as string
+    }
+
+    if (!uploadId) {
+      uploadId = await startUpload()
+    }
+
+    options.onProgress?.(offset, file.size)
+
+    let failures = 0
+    let restarted = false
+    while (offset < file.size) {
+      try {
+        const response = await api.patch(`/uploads/${uploadId}`, file.slice(offset, offset + chunkSize), {
+          headers: {
+            'Content-Type': 'application/offset+octet-stream',
+            'Upload-Offset': String(offset),
+          },
+        })
+        offset = parseInt(response.headers['upload-offset'])
+        failures = 0
+        options.onProgress?.(offset, file.size)
+      } catch (error) {
+        // The server lost the received bytes and expired the upload: start over once
+        if (axios.isAxiosError(error) && error.response?.status === 410 && !restarted) {
+          restarted = true
+          uploadId = await startUpload()
+          offset = 0
+          options.onProgress?.(offset, file.size)
+          continue
+        }
+
+        if (!isRetryableUploadError(error) || ++failures > UPLOAD_MAX_RETRIES) {
+          if (axios.isAxiosError(error) && [404, 410].includes(error.response?.status ?? 0)) {
+            localStorage.removeItem(resumeKey)
+          }
+          throw error
+        }
+
+        // Back off, then continue from whatever the server actually received
+        await new Promise(resolve => setTimeout(resolve, Math.min(1000 * 2 ** (failures - 1), 30000)))
+        try {
+          offset = await getUploadOffset(uploadId)
+        } catch {
+          // Keep the last known offset; a mismatch is answered with 409 and retried
+        }
+      }
+    }
+
+    const response = await api.post(`/uploads/${uploadId}/finalize`)
+    localStorage.removeItem(resumeKey)
+    return response.data
+  },
+  
   getPhotos: async (params?: {
     page?: number
     limit?: number
@@ -144,36 +442,209 @@ export const photosApi = {
     dateFrom?: string
     dateTo?: string
     tags?: string
+    mediaType?: MediaType
+    camera?: string
+    lens?: string
+    focalLength?: number
+    focalLengthMin?: number
+    focalLengthMax?: number
+    apertureMin?: number
+    apertureMax?: number
+    isoMin?: number
+    isoMax?: number
+    collapseStacks?: boolean
   }) => {
     const response = await api.get('/photos', { params })
     return response.data
   },
   
+  getCameraStats: async () => {
+    const response = await api.get('/photos/camera-stats')
+    return response.data
+  },
+  
+  getPhoto: async (id: string) => {
+    const response = await api.get(`/photos/${id}`)
+    return response.data
+  },
+  
+  reanalyze: async (id: string, steps?: ProcessingStep[]) => {
+    const response = await api.post(`/photos/${id}/reanalyze`, { steps })
+    return response.data
+  },
+  
+  reanalyzeBatch: async (params: {
+    photoIds?: string[]
+    steps?: ProcessingStep[]
+    onlyFailed?: boolean
+  }) => {
+    const response = await api.post('/photos/reanalyze', params)
+    return response.data
+  },
+  
+  // Set coordinates, look up a place, or pass null coordinates to clear the location
+  updateLocation: async (id: string, edit: LocationEdit) => {
+    const response = await api.patch(`/photos/${id}`, edit)
+    return response.data
+  },
+  
+  updateLocations: async (photoIds: string[], edit: LocationEdit) => {
+    const response = await api.patch('/photos', { ...edit, photoIds })
+    return response.data
+  },
+  
   deletePhoto: async (id: string) => {
     const response = await api.delete(`/photos/${id}`)
     return response.data
   },
 }
 
+// Trash API
+export const trashApi = {
+  getTrash: async (page = 1) => {
+    const response = await api.get('/trash', { params: { page } })
+    return response.data
+  },
+  
+  restore: async (id: string) => {
+    const response = await api.post(`/trash/${id}/restore`)
+    return response.data
+  },
+  
+  deletePermanently: async (id: string) => {
+    const response = await api.delete(`/trash/${id}`)
+    return response.data
+  },
+  
+  empty: async () => {
+    const response = await api.delete('/trash')
+    return response.data
+  },
+}
+
+// GPS tracks API
+export const tracksApi = {
+  uploadTrack: async (file: File) => {
+    const formData = new FormData()
+    formData.append('track', file)
+    
+    const response = await api.post('/tracks', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    })
+    return response.data
+  },
+  
+  getTracks: async () => {
+    const response = await api.get('/tracks')
+    return response.data
+  },
+  
+  previewGeotags: async (trackId: string, options: GeotagOptions = {}) => {
+    const response = await api.post(`/tracks/${trackId}/preview`, options)
+    return response.data
+  },
+  
+  applyGeotags: async (trackId: string, options: GeotagOptions = {}, photoIds?: string[]) => {
+    const response = await api.post(`/tracks/${trackId}/apply`, { ...options, photoIds })
+    return response.data
+  },
+  
+  deleteTrack: async (trackId: string) => {
+    const response = await api.delete(`/tracks/${trackId}`)
+    return response.data
+  },
+}
+
+// Location proposals API
+export const locationProposalsApi = {
+  infer: async () => {
+    const response = await api.post('/location-proposals/infer')
+    return response.data
+  },
+  
+  getProposals: async (status = 'pending', page = 1) => {
+    const response = await api.get('/location-proposals', { params: { status, page } })
+    return response.data
+  },
+  
+  accept: async (selection: LocationProposalSelection) => {
+    const response = await api.post('/location-proposals/accept', selection)
+    return response.data
+  },
+  
+  reject: async (selection: LocationProposalSelection) => {
+    const response = await api.post('/location-proposals/reject', selection)
+    return response.data
+  },
+}
+
+// Date shifts API
+export const dateShiftsApi = {
+  preview: async (request: DateShiftRequest) => {
+    const response = await api.post('/date-shifts/preview', request)
+    return response.data
+  },
+  
+  apply: async (request: DateShiftRequest) => {
+    const response = await api.post('/date-shifts', request)
+    return response.data
+  },
+  
+  getShifts: async () => {
+    const response = await api.get('/date-shifts')
+    return response.data
+  },
+  
+  undo: async (id: string) => {
+    const response = await api.post(`/date-shifts/${id}/undo`)
+    return response.data
+  },
+}
+
+// Stacks API
+export const stacksApi = {
+  getStacks: async (page = 1) => {
+    const response = await api.get('/stacks', { params: { page } })
+    return response.data
+  },
+  
+  setBestPhoto: async (stackId: string, bestPhotoId: string) => {
+    const response = await api.patch(`/stacks/${stackId}`, { bestPhotoId })
+    return response.data
+  },
+  
+  removeFromStack: async (stackId: string, photoId: string) => {
+    const response = await api.delete(`/stacks/${stackId}/photos/${photoId}`)
+    return response.data
+  },
+  
+  unstack: async (stackId: string) => {
+    const response = await api.delete(`/stacks/${stackId}`)
+    return response.data
+  },
+}
+
 // Search API
 export const searchApi = {
-  search: async (query: string, page = 1) => {
+  search: async (query: string, page = 1, mediaType?: MediaType) => {
     const response = await api.get('/search', {
-      params: { q: query, page }
+      params: { q: query, page, mediaType }
     })
     return response.data
   },
   
-  getClusters: async (radius = 1) => {
+  getClusters: async (radius = 1, mediaType?: MediaType) => {
     const response = await api.get('/search/clusters', {
-      params: { radius }
+      params: { radius, mediaType }
     })
     return response.data
   },
   
-  getTimeline: async (year?: number) => {
+  getTimeline: async (year?: number, mediaType?: MediaType) => {
     const response = await api.get('/search/timeline', {
-      params: { year }
+      params: { year, mediaType }
     })
     return response.data
   },
@@ -213,4 +684,13 @@ export const albumsApi = {
     const response = await api.get(`/albums/${id}`)
     return response.data
   },
+  
+  // ZIP of the album's photos with metadata embedded (or stripped)
+  exportAlbum: async (id: string, metadata: ExportMetadataMode = 'embed') => {
+    const response = await api.get(`/albums/${id}/export`, {
+      params: { metadata },
+      responseType: 'blob',
+    })
+    return response.data as Blob
+  },
 }
\ No newline at end of file